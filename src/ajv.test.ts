@@ -0,0 +1,66 @@
+import {describe, it, expect} from 'vitest';
+import {Ajv} from 'ajv';
+import {addDurationKeyword, durationKeyword} from './ajv.js';
+import {createDurationParser} from './index.js';
+
+describe('ajv duration keyword', () => {
+    const ajv = addDurationKeyword(new Ajv({allErrors: true}));
+    const validate = ajv.compile({
+        type: 'object',
+        properties: {
+            timeout: {duration: true},
+            ttl: {duration: {max: '1d', calendar: 'fixed'}},
+            retries: {type: 'array', items: {duration: true}},
+        },
+    });
+
+    it('replaces durations with milliseconds', () => {
+        const config = {timeout: '30s', ttl: 60_000, retries: ['1s', 1500.5]};
+        expect(validate(config)).toBe(true);
+        expect(config).toEqual({timeout: 30_000, ttl: 60_000, retries: [1_000, 1_501]});
+    });
+
+    it('reports every invalid value with its path and the parser message', () => {
+        expect(validate({timeout: '10 foo', ttl: '2mo', retries: ['1s', true]})).toBe(false);
+        expect(validate.errors).toEqual([
+            expect.objectContaining({
+                keyword: 'duration',
+                instancePath: '/timeout',
+                message: 'unknown unit "foo" in "10 foo"',
+                params: {code: 'UNKNOWN_UNIT'},
+            }),
+            expect.objectContaining({
+                instancePath: '/ttl',
+                message: 'duration "2mo" is greater than the maximum "1d"',
+                params: {code: 'OUT_OF_RANGE'},
+            }),
+            expect.objectContaining({
+                instancePath: '/retries/1',
+                message: 'expected a duration string or number, got boolean',
+                params: {code: 'INVALID_TYPE'},
+            }),
+        ]);
+        expect(ajv.errorsText(validate.errors)).toContain('data/timeout unknown unit "foo" in "10 foo"');
+    });
+
+    it('validates a root value without replacing it', () => {
+        const root = ajv.compile({duration: {min: '1s'}});
+        expect(root('5s')).toBe(true);
+        expect(root('')).toBe(false);
+        expect(root.errors?.[0]?.message).toBe('missing required duration');
+        expect(root('500ms')).toBe(false);
+        expect(root.errors?.[0]?.message).toBe('duration "500ms" is less than the minimum "1s"');
+    });
+
+    it('ignores "duration: false"', () => {
+        expect(ajv.validate({duration: false}, 'anything')).toBe(true);
+    });
+
+    it('uses the options of the keyword definition', () => {
+        const custom = new Ajv().addKeyword(durationKeyword({parser: createDurationParser({units: {tick: 50}}), max: '1s'}));
+        const data = {t: '3tick'};
+        expect(custom.validate({type: 'object', properties: {t: {duration: true}}}, data)).toBe(true);
+        expect(data.t).toBe(150);
+        expect(custom.validate({type: 'object', properties: {t: {duration: true}}}, {t: '30tick'})).toBe(false);
+    });
+});
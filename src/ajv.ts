@@ -0,0 +1,61 @@
+import type {Ajv, FuncKeywordDefinition} from 'ajv';
+import {createDurationReader, type DurationValidatorOptions} from './config.js';
+
+export type {DurationValidatorOptions} from './config.js';
+
+/** Value of the `duration` keyword in a schema: `true`, or per-schema bounds and parsing options. */
+export type DurationKeywordSchema = boolean | Omit<DurationValidatorOptions, 'parser'>;
+
+/** The function a compiled keyword validates with. */
+type KeywordValidator = ReturnType<NonNullable<FuncKeywordDefinition['compile']>>;
+
+/**
+ * The `duration` keyword: accepts duration strings and numbers of milliseconds, and
+ * replaces them with milliseconds when they are inside an object or array.
+ *
+ * Invalid, blank and out-of-range values fail with the parser's message;
+ * `params.code` is the parser's error code.
+ *
+ * @param options Bounds, parsing options and the parser to use; a schema's own bounds and options take precedence.
+ * @returns The keyword definition, for `ajv.addKeyword`.
+ */
+export function durationKeyword(options: DurationValidatorOptions = {}): FuncKeywordDefinition {
+    return {
+        keyword: 'duration',
+        schemaType: ['boolean', 'object'],
+        modifying: true,
+        errors: true,
+        compile(schema: DurationKeywordSchema): KeywordValidator {
+            if (schema === false) return () => true;
+            const read = createDurationReader('duration', schema === true ? options : {...options, ...schema});
+            const validate: KeywordValidator = (data, dataCxt) => {
+                const result = read(data);
+                if (!result.ok) {
+                    validate.errors = [{keyword: 'duration', message: result.message, params: {code: result.code}}];
+                    return false;
+                }
+                // The root value cannot be replaced
+                if (dataCxt?.parentData !== undefined) dataCxt.parentData[dataCxt.parentDataProperty] = result.ms;
+                return true;
+            };
+            return validate;
+        },
+    };
+}
+
+/**
+ * Add the `duration` keyword to an Ajv instance.
+ *
+ * @example
+ * const ajv = addDurationKeyword(new Ajv(), {max: '1h'});
+ * const validate = ajv.compile({type: 'object', properties: {timeout: {duration: true}}});
+ * const config = {timeout: '30s'};
+ * validate(config); // true; config.timeout is now 30000
+ *
+ * @param ajv The Ajv instance.
+ * @param options Bounds, parsing options and the parser to use.
+ * @returns The Ajv instance.
+ */
+export function addDurationKeyword(ajv: Ajv, options: DurationValidatorOptions = {}): Ajv {
+    return ajv.addKeyword(durationKeyword(options));
+}
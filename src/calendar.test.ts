@@ -0,0 +1,184 @@
+import {describe, it, expect} from 'vitest';
+import {addDuration, durationBetween, parseDurationComponents, parseDurationMs} from './index.js';
+
+const UTC = {timeZone: 'UTC'};
+const NEW_YORK = {timeZone: 'America/New_York'};
+const BERLIN = {timeZone: 'Europe/Berlin'};
+
+const HOUR = 3_600_000;
+
+describe('parseDurationComponents', () => {
+    const zero = {years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0};
+
+    const cases: {input: string; expected: Partial<typeof zero>}[] = [
+        {input: '', expected: {}},
+        {input: '1h 30m', expected: {hours: 1, minutes: 30}},
+        {input: '1h -30m', expected: {hours: 1, minutes: -30}},
+        {input: '1h 1h', expected: {hours: 2}},
+        {input: '1 month 2d 3h', expected: {months: 1, days: 2, hours: 3}},
+        {input: '2 years 1.5w', expected: {years: 2, weeks: 1.5}},
+        {input: '10 seconds 500ms', expected: {seconds: 10, milliseconds: 500}},
+        {input: '1500', expected: {milliseconds: 1500}},
+        {input: '-01:30:15.5', expected: {hours: -1, minutes: -30, seconds: -15.5}},
+        {input: 'P1Y2M3W4DT5H6M7.5S', expected: {years: 1, months: 2, weeks: 3, days: 4, hours: 5, minutes: 6, seconds: 7.5}},
+        {input: '-P1M', expected: {months: -1}},
+    ];
+
+    for (const {input, expected} of cases) {
+        it(`"${input}"`, () => {
+            expect(parseDurationComponents(input)).toEqual({...zero, ...expected});
+        });
+    }
+
+    it('accepts months and years without a calendar option', () => {
+        expect(() => parseDurationMs('1mo')).toThrowError('has no fixed length');
+        expect(parseDurationComponents('1mo').months).toBe(1);
+    });
+
+    it('throws the same errors as parseDurationMs for invalid syntax', () => {
+        expect(() => parseDurationComponents('10 foo')).toThrowError('parseDurationMs: unknown unit "foo" in "10 foo"');
+    });
+});
+
+describe('addDuration', () => {
+    describe('month arithmetic', () => {
+        const cases: {start: string; duration: string; expected: string}[] = [
+            {start: '2024-01-31T12:00:00Z', duration: '1 month', expected: '2024-02-29T12:00:00.000Z'},
+            {start: '2023-01-31T12:00:00Z', duration: '1 month', expected: '2023-02-28T12:00:00.000Z'},
+            {start: '2024-01-31T12:00:00Z', duration: '2 months', expected: '2024-03-31T12:00:00.000Z'},
+            {start: '2024-03-31T00:00:00Z', duration: '-1mo', expected: '2024-02-29T00:00:00.000Z'},
+            {start: '2024-02-29T00:00:00Z', duration: '1y', expected: '2025-02-28T00:00:00.000Z'},
+            {start: '2024-11-15T00:00:00Z', duration: '3 months', expected: '2025-02-15T00:00:00.000Z'},
+            {start: '2024-01-31T00:00:00Z', duration: '1mo 1d', expected: '2024-03-01T00:00:00.000Z'},
+            {start: '2024-01-01T00:00:00Z', duration: 'P1Y2M10DT2H30M', expected: '2025-03-11T02:30:00.000Z'},
+            {start: '2024-01-01T00:00:00Z', duration: '2w', expected: '2024-01-15T00:00:00.000Z'},
+            {start: '2024-01-01T00:00:00Z', duration: '1h 30m', expected: '2024-01-01T01:30:00.000Z'},
+        ];
+
+        for (const {start, duration, expected} of cases) {
+            it(`${start} + "${duration}" -> ${expected}`, () => {
+                expect(addDuration(new Date(start), duration, UTC).toISOString()).toBe(expected);
+            });
+        }
+    });
+
+    describe('daylight saving time', () => {
+        it('a day across the spring-forward change is 23 hours', () => {
+            const start = new Date('2024-03-09T17:00:00Z'); // 12:00 EST
+            const end = addDuration(start, '1d', NEW_YORK);
+            expect(end.toISOString()).toBe('2024-03-10T16:00:00.000Z'); // 12:00 EDT
+            expect(end.getTime() - start.getTime()).toBe(23 * HOUR);
+        });
+
+        it('a day across the fall-back change is 25 hours', () => {
+            const start = new Date('2024-11-02T16:00:00Z'); // 12:00 EDT
+            const end = addDuration(start, '1 day', NEW_YORK);
+            expect(end.toISOString()).toBe('2024-11-03T17:00:00.000Z'); // 12:00 EST
+            expect(end.getTime() - start.getTime()).toBe(25 * HOUR);
+        });
+
+        it('hours are elapsed time, not wall-clock time', () => {
+            const start = new Date('2024-03-09T17:00:00Z');
+            expect(addDuration(start, '24h', NEW_YORK).toISOString()).toBe('2024-03-10T17:00:00.000Z');
+        });
+
+        it('moves skipped wall-clock times forward', () => {
+            const start = new Date('2024-03-09T07:30:00Z'); // 02:30 EST; 02:30 does not exist on the next day
+            expect(addDuration(start, '1d', NEW_YORK).toISOString()).toBe('2024-03-10T07:30:00.000Z'); // 03:30 EDT
+        });
+
+        it('resolves ambiguous wall-clock times to the earlier instant', () => {
+            const ambiguous = new Date('2024-10-26T00:30:00Z'); // 02:30 CEST; 02:30 happens twice on Oct 27
+            expect(addDuration(ambiguous, '1d', BERLIN).toISOString()).toBe('2024-10-27T00:30:00.000Z'); // 02:30 CEST
+        });
+    });
+
+    describe('inputs', () => {
+        it('accepts components and timestamps', () => {
+            const start = Date.UTC(2024, 0, 31);
+            expect(addDuration(start, {months: 1, hours: 2}, UTC).toISOString()).toBe('2024-02-29T02:00:00.000Z');
+        });
+
+        it('rejects fractional calendar components', () => {
+            expect(() => addDuration(0, '1.5d', UTC)).toThrowError('addDuration: days must be a whole number, got 1.5');
+            expect(() => addDuration(0, {months: 0.5}, UTC)).toThrowError(
+                'addDuration: months must be a whole number, got 0.5',
+            );
+        });
+
+        it('rejects invalid dates and components', () => {
+            expect(() => addDuration(new Date(NaN), '1d', UTC)).toThrowError('addDuration: invalid date "Invalid Date"');
+            expect(() => addDuration(0, {hours: Infinity}, UTC)).toThrowError('addDuration: invalid hours "Infinity"');
+        });
+
+        it('rejects unknown time zones', () => {
+            expect(() => addDuration(0, '1d', {timeZone: 'Mars/Olympus'})).toThrowError(RangeError);
+        });
+    });
+});
+
+describe('durationBetween', () => {
+    const zero = {years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0};
+
+    it('counts calendar months and days', () => {
+        expect(durationBetween(new Date('2024-01-31T00:00:00Z'), new Date('2024-03-01T00:00:00Z'), UTC)).toEqual({
+            ...zero,
+            months: 1,
+            days: 1,
+        });
+        expect(durationBetween(new Date('2023-05-15T08:00:00Z'), new Date('2025-07-20T10:30:15.250Z'), UTC)).toEqual({
+            ...zero,
+            years: 2,
+            months: 2,
+            days: 5,
+            hours: 2,
+            minutes: 30,
+            seconds: 15,
+            milliseconds: 250,
+        });
+    });
+
+    it('returns negative components when end is before start', () => {
+        expect(durationBetween(new Date('2024-03-01T12:00:00Z'), new Date('2024-01-31T00:00:00Z'), UTC)).toEqual({
+            ...zero,
+            months: -1,
+            days: -1,
+            hours: -12,
+        });
+    });
+
+    it('returns zero for equal dates', () => {
+        expect(durationBetween(0, 0, UTC)).toEqual(zero);
+    });
+
+    it('counts a 23-hour DST day as one day', () => {
+        expect(durationBetween(new Date('2024-03-09T17:00:00Z'), new Date('2024-03-10T16:00:00Z'), NEW_YORK)).toEqual({
+            ...zero,
+            days: 1,
+        });
+    });
+
+    it('round-trips through addDuration', () => {
+        const dates = [
+            '2024-01-31T00:00:00Z',
+            '2024-02-29T23:59:59.999Z',
+            '2024-03-10T06:59:00Z',
+            '2024-11-03T05:30:00Z',
+            '2023-12-31T12:00:00Z',
+            '2026-07-04T00:00:00.001Z',
+        ].map(d => new Date(d).getTime());
+
+        for (const options of [UTC, NEW_YORK, BERLIN]) {
+            for (const start of dates) {
+                for (const end of dates) {
+                    const between = durationBetween(start, end, options);
+                    expect(addDuration(start, between, options).getTime()).toBe(end);
+                }
+            }
+        }
+    });
+
+    it('rejects invalid dates', () => {
+        expect(() => durationBetween(0, NaN, UTC)).toThrowError('durationBetween: invalid date "NaN"');
+    });
+});
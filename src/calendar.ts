@@ -0,0 +1,241 @@
+import {parseDurationComponents, type DurationComponents} from './index.js';
+
+/**
+ * Options for calendar-aware duration arithmetic.
+ */
+export interface CalendarOptions {
+    /** IANA time zone the calendar is evaluated in (default: the runtime's local time zone). */
+    timeZone?: string;
+}
+
+/** Calendar components: applied to the wall-clock date rather than as elapsed time. */
+const DATE_COMPONENTS = ['years', 'months', 'weeks', 'days'] as const;
+
+/** Exact components: applied as elapsed time after the calendar components. */
+const TIME_COMPONENTS = ['hours', 'minutes', 'seconds', 'milliseconds'] as const;
+
+const MS_PER_DAY = 86_400_000;
+
+/** One formatter per time zone; creating them is expensive. */
+const FORMATTERS = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a formatter that splits an instant into wall-clock fields in a time zone.
+ * @param timeZone The IANA time zone.
+ * @returns The cached formatter.
+ * @throws RangeError If the time zone is unknown.
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = FORMATTERS.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            era: 'short',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        FORMATTERS.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Build a UTC timestamp from date fields, without `Date.UTC`'s mapping of years 0-99 to 1900-1999.
+ */
+function utc(year: number, monthIndex: number, day: number, hours = 0, minutes = 0, seconds = 0, ms = 0): number {
+    const date = new Date(0);
+    date.setUTCFullYear(year, monthIndex, day);
+    date.setUTCHours(hours, minutes, seconds, ms);
+    return date.getTime();
+}
+
+/**
+ * Get the wall-clock time of an instant in a time zone, expressed as UTC milliseconds.
+ * @param t The instant in milliseconds since the epoch.
+ * @param timeZone The IANA time zone.
+ * @returns The wall-clock time as if it were UTC.
+ */
+function toWallTime(t: number, timeZone: string): number {
+    const fields: Record<string, number> = {};
+    let bc = false;
+    for (const {type, value} of getFormatter(timeZone).formatToParts(t)) {
+        if (type === 'era') bc = value === 'BC';
+        else if (type !== 'literal') fields[type] = Number(value);
+    }
+    const year = bc ? 1 - fields.year! : fields.year!;
+    const ms = ((t % 1000) + 1000) % 1000;
+    return utc(year, fields.month! - 1, fields.day!, fields.hour!, fields.minute!, fields.second!, ms);
+}
+
+/**
+ * Get the instant at which a time zone shows a given wall-clock time.
+ *
+ * Ambiguous times (clocks turned back) resolve to the earlier instant; skipped
+ * times (clocks turned forward) are moved forward by the length of the gap.
+ *
+ * @param wall The wall-clock time as if it were UTC.
+ * @param timeZone The IANA time zone.
+ * @returns The instant in milliseconds since the epoch.
+ */
+function fromWallTime(wall: number, timeZone: string): number {
+    const offsetBefore = toWallTime(wall - MS_PER_DAY, timeZone) - (wall - MS_PER_DAY);
+    const offsetAfter = toWallTime(wall + MS_PER_DAY, timeZone) - (wall + MS_PER_DAY);
+    const candidates = [wall - offsetBefore, wall - offsetAfter].filter(t => toWallTime(t, timeZone) === wall);
+    return candidates.length > 0 ? Math.min(...candidates) : wall - offsetBefore;
+}
+
+/**
+ * Add components to an instant: calendar components on the wall clock, then time components as elapsed time.
+ * @param t The instant in milliseconds since the epoch.
+ * @param c The components (calendar components must be integers).
+ * @param timeZone The IANA time zone.
+ * @returns The resulting instant.
+ */
+function addComponents(t: number, c: DurationComponents, timeZone: string): number {
+    let result = t;
+    if (c.years || c.months || c.weeks || c.days) {
+        const wall = new Date(toWallTime(t, timeZone));
+        const monthIndex = wall.getUTCMonth() + c.years * 12 + c.months;
+        const year = wall.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = monthIndex - Math.floor(monthIndex / 12) * 12;
+
+        // Clamp to the end of the target month (Jan 31 + 1 month => Feb 28/29)
+        const lastDay = new Date(utc(year, month + 1, 0)).getUTCDate();
+        const day = Math.min(wall.getUTCDate(), lastDay) + c.weeks * 7 + c.days;
+        const shifted = utc(
+            year,
+            month,
+            day,
+            wall.getUTCHours(),
+            wall.getUTCMinutes(),
+            wall.getUTCSeconds(),
+            wall.getUTCMilliseconds(),
+        );
+        result = fromWallTime(shifted, timeZone);
+    }
+    return result + c.hours * 3_600_000 + c.minutes * 60_000 + c.seconds * 1_000 + c.milliseconds;
+}
+
+/**
+ * Convert a `Date` or timestamp into milliseconds since the epoch.
+ * @throws Error If the date is invalid.
+ */
+function toTime(date: Date | number, caller: string): number {
+    const t = typeof date === 'number' ? date : date.getTime();
+    if (!Number.isFinite(t)) throw new Error(`${caller}: invalid date "${date}"`);
+    return t;
+}
+
+/**
+ * Get the runtime's local time zone.
+ */
+function localTimeZone(): string {
+    return new Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Add a duration to a date, applying calendar units the way a calendar does.
+ *
+ * Years, months, weeks and days move the wall-clock date in the given time zone
+ * (so "1 month" from Jan 31 lands on Feb 28/29, and "1 day" across a DST change
+ * is 23 or 25 hours); hours and smaller units are added as elapsed time afterwards.
+ * Accepts the same strings as `parseDurationMs`, including months and years.
+ *
+ * @example
+ * addDuration(new Date('2024-01-31T12:00:00Z'), '1 month', {timeZone: 'UTC'}); // 2024-02-29T12:00:00Z
+ *
+ * @param date The start date.
+ * @param duration A duration string or components (missing fields are 0).
+ * @param options Calendar options.
+ * @returns The resulting date.
+ * @throws DurationParseError If the duration string is invalid.
+ * @throws Error If the date is invalid, or a calendar component is not a whole number.
+ */
+export function addDuration(
+    date: Date | number,
+    duration: string | Partial<DurationComponents>,
+    options: CalendarOptions = {},
+): Date {
+    const start = toTime(date, 'addDuration');
+    const input = typeof duration === 'string' ? parseDurationComponents(duration) : duration;
+    const c = {} as DurationComponents;
+    for (const unit of [...DATE_COMPONENTS, ...TIME_COMPONENTS]) {
+        const value = input[unit] ?? 0;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            throw new Error(`addDuration: invalid ${unit} "${value}"`);
+        }
+        if (!Number.isInteger(value) && (DATE_COMPONENTS as readonly string[]).includes(unit)) {
+            throw new Error(`addDuration: ${unit} must be a whole number, got ${value}`);
+        }
+        c[unit] = value;
+    }
+    return new Date(Math.round(addComponents(start, c, options.timeZone ?? localTimeZone())));
+}
+
+/**
+ * Get the calendar duration between two dates.
+ *
+ * The result counts whole years, months and days on the wall clock of the given
+ * time zone, and the rest as hours, minutes, seconds and milliseconds (weeks are
+ * always 0). All components share the sign of `end - start`, and
+ * `addDuration(start, durationBetween(start, end))` is always `end`.
+ *
+ * @example
+ * durationBetween(new Date('2024-01-31'), new Date('2024-03-01'), {timeZone: 'UTC'}); // {months: 1, days: 1, ...}
+ *
+ * @param start The start date.
+ * @param end The end date.
+ * @param options Calendar options.
+ * @returns The duration components.
+ * @throws Error If a date is invalid.
+ */
+export function durationBetween(start: Date | number, end: Date | number, options: CalendarOptions = {}): DurationComponents {
+    const from = toTime(start, 'durationBetween');
+    const to = toTime(end, 'durationBetween');
+    const timeZone = options.timeZone ?? localTimeZone();
+    const sign = to < from ? -1 : 1;
+    const zero: DurationComponents = {
+        years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0, milliseconds: 0,
+    };
+    const overshoots = (months: number, days: number) =>
+        sign * (addComponents(from, {...zero, months, days}, timeZone) - to) > 0;
+
+    // Whole months, estimated from the wall-clock dates and then corrected
+    const fromWall = new Date(toWallTime(from, timeZone));
+    const toWall = new Date(toWallTime(to, timeZone));
+    let months = (toWall.getUTCFullYear() - fromWall.getUTCFullYear()) * 12 + toWall.getUTCMonth() - fromWall.getUTCMonth();
+    while (months !== 0 && overshoots(months, 0)) months -= sign;
+    while (!overshoots(months + sign, 0)) months += sign;
+
+    // Whole days after that
+    const mid = addComponents(from, {...zero, months}, timeZone);
+    let days = Math.trunc((toWall.getTime() - toWallTime(mid, timeZone)) / MS_PER_DAY);
+    while (days !== 0 && overshoots(months, days)) days -= sign;
+    while (!overshoots(months, days + sign)) days += sign;
+
+    // Everything else is elapsed time
+    let rest = Math.abs(to - addComponents(from, {...zero, months, days}, timeZone));
+    const hours = Math.floor(rest / 3_600_000);
+    rest -= hours * 3_600_000;
+    const minutes = Math.floor(rest / 60_000);
+    rest -= minutes * 60_000;
+    const seconds = Math.floor(rest / 1_000);
+    const milliseconds = rest - seconds * 1_000;
+
+    const years = Math.trunc(months / 12);
+    return {
+        years: years + 0,
+        months: months - years * 12 + 0,
+        weeks: 0,
+        days: days + 0,
+        hours: sign * hours + 0,
+        minutes: sign * minutes + 0,
+        seconds: sign * seconds + 0,
+        milliseconds: sign * milliseconds + 0,
+    };
+}
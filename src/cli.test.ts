@@ -0,0 +1,143 @@
+import {describe, it, expect, beforeAll, afterAll} from 'vitest';
+import {execFileSync, spawnSync} from 'node:child_process';
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {fileURLToPath} from 'node:url';
+
+let outDir: string;
+
+// Compile the package once, as it is published, and run the bin with Node
+beforeAll(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'ms-parse-duration-cli-'));
+    const tsc = fileURLToPath(new URL('../node_modules/typescript/bin/tsc', import.meta.url));
+    const project = fileURLToPath(new URL('../tsconfig.json', import.meta.url));
+    execFileSync(process.execPath, [tsc, '-p', project, '--outDir', outDir]);
+    writeFileSync(join(outDir, 'package.json'), '{"type": "module"}');
+}, 60_000);
+
+afterAll(() => {
+    rmSync(outDir, {recursive: true, force: true});
+});
+
+function run(args: string[], stdin = '') {
+    const {status, stdout, stderr} = spawnSync(process.execPath, [join(outDir, 'cli.js'), ...args], {
+        input: stdin,
+        encoding: 'utf8',
+        timeout: 10_000,
+    });
+    return {status, stdout, stderr};
+}
+
+describe('ms-parse-duration', () => {
+    describe('conversion', () => {
+        const cases: {args: string[]; stdout: string}[] = [
+            {args: ['1h 30m'], stdout: '5400000\n'},
+            {args: ['1h', '90s'], stdout: '3600000\n90000\n'},
+            {args: ['--to', 's', '1500ms'], stdout: '1.5\n'},
+            {args: ['--to', 'm', '90s'], stdout: '1.5\n'},
+            {args: ['--to', 'h', '1d'], stdout: '24\n'},
+            {args: ['--to', 'iso', '1h 30m'], stdout: 'PT1H30M\n'},
+            {args: ['--to', 'clock', '1h 30m 15s'], stdout: '01:30:15\n'},
+            {args: ['--to', 'human', '5400000'], stdout: '1 hour 30 minutes\n'},
+            {args: ['--', '-5m'], stdout: '-300000\n'},
+            {args: ['--calendar', 'fixed', '1mo'], stdout: '2592000000\n'},
+            {args: ['--locale', 'de', '2 Stunden'], stdout: '7200000\n'},
+        ];
+
+        for (const {args, stdout} of cases) {
+            it(args.join(' '), () => {
+                expect(run(args)).toEqual({status: 0, stdout, stderr: ''});
+            });
+        }
+    });
+
+    it('reports invalid durations', () => {
+        expect(run(['1h', '10 foo'])).toEqual({
+            status: 1,
+            stdout: '3600000\n',
+            stderr: 'ms-parse-duration: parseDurationMs: unknown unit "foo" in "10 foo"\n',
+        });
+        expect(run(['--strict', '1h 1h'])).toMatchObject({status: 1, stderr: expect.stringContaining('duplicate unit "h"')});
+    });
+
+    it('prints JSON', () => {
+        const {status, stdout} = run(['--json', '--to', 'iso', '90s', '1x']);
+        expect(status).toBe(1);
+        expect(JSON.parse(stdout)).toEqual([
+            {input: '90s', ms: 90_000, value: 'PT1M30S'},
+            {
+                input: '1x',
+                error: {code: 'UNKNOWN_UNIT', message: 'parseDurationMs: unknown unit "x" in "1x"', start: 1, end: 2},
+            },
+        ]);
+    });
+
+    describe('--check', () => {
+        it('accepts valid lines from stdin', () => {
+            expect(run(['--check'], '1h\n\n30s\r\n01:30\n')).toEqual({status: 0, stdout: '', stderr: ''});
+        });
+
+        it('reports invalid lines with their line and column', () => {
+            expect(run(['--check'], '1h\n10 foo\n\n  5 bar\n')).toEqual({
+                status: 1,
+                stdout: '',
+                stderr:
+                    'stdin:2:4: parseDurationMs: unknown unit "foo" in "10 foo"\n' +
+                    'stdin:4:5: parseDurationMs: unknown unit "bar" in "  5 bar"\n',
+            });
+        });
+
+        it('reads a file', () => {
+            const file = join(outDir, 'durations.txt');
+            writeFileSync(file, '5m\n1h 30\n');
+            expect(run(['--check', file])).toEqual({
+                status: 1,
+                stdout: '',
+                stderr: `${file}:2:4: parseDurationMs: could not fully parse "1h 30"\n`,
+            });
+        });
+
+        it('prints JSON', () => {
+            const {status, stdout} = run(['--check', '--json'], '1h\n1 x\n');
+            expect(status).toBe(1);
+            expect(JSON.parse(stdout)).toEqual([
+                {line: 1, input: '1h', ok: true, ms: 3_600_000},
+                {
+                    line: 2,
+                    input: '1 x',
+                    ok: false,
+                    error: {code: 'UNKNOWN_UNIT', message: 'parseDurationMs: unknown unit "x" in "1 x"', start: 2, end: 3},
+                },
+            ]);
+        });
+    });
+
+    describe('usage errors', () => {
+        const cases: {args: string[]; message: string}[] = [
+            {args: [], message: 'missing duration'},
+            {args: ['--to', 'weeks', '1h'], message: 'unknown --to unit "weeks"'},
+            {args: ['--to', 'toString', '1h'], message: 'unknown --to unit "toString"'},
+            {args: ['--to', 'constructor', '1h'], message: 'unknown --to unit "constructor"'},
+            {args: ['--calendar', 'lunar', '1h'], message: 'unknown --calendar policy "lunar"'},
+            {args: ['--locale', 'xx', '1h'], message: 'unknown --locale "xx"'},
+            {args: ['--check', 'a', 'b'], message: '--check reads at most one file'},
+            {args: ['--frobnicate'], message: 'Unknown option \'--frobnicate\''},
+        ];
+
+        for (const {args, message} of cases) {
+            it(args.join(' ') || '(no arguments)', () => {
+                const result = run(args);
+                expect(result.status).toBe(2);
+                expect(result.stderr).toContain(`ms-parse-duration: ${message}`);
+                expect(result.stderr).toContain('Try "ms-parse-duration --help".');
+            });
+        }
+
+        it('prints help', () => {
+            const result = run(['--help']);
+            expect(result.status).toBe(0);
+            expect(result.stdout).toMatch(/^Usage: ms-parse-duration/);
+        });
+    });
+});
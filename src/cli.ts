@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+import {readFileSync} from 'node:fs';
+import {parseArgs} from 'node:util';
+import {
+    durationLocales,
+    formatDurationMs,
+    toIsoDuration,
+    tryParseDurationMs,
+    type CalendarUnitPolicy,
+    type DurationLocaleCode,
+    type DurationParseIssue,
+    type ParseDurationOptions,
+} from './index.js';
+
+const USAGE = `Usage: ms-parse-duration [options] <duration>...
+       ms-parse-duration --check [options] [file]
+
+Print each duration in milliseconds, or check one duration per line of a file
+(or stdin) and report the invalid ones.
+
+Options:
+  --to <unit>          ms (default), s, m, h, iso, clock or human
+  --check              validate lines instead of converting arguments
+  --json               print JSON
+  --calendar <policy>  reject (default), fixed or average
+  --locale <code>      also accept this locale's unit words
+  --strict             apply the strict validation rules
+  -h, --help           show this help
+
+Exit status: 0 if every duration is valid, 1 if one is not, 2 on usage errors.`;
+
+/** Conversion targets of `--to`. */
+type Target = 'ms' | 's' | 'm' | 'h' | 'iso' | 'clock' | 'human';
+
+const TARGETS: Record<Target, (ms: number) => number | string> = {
+    ms: ms => ms,
+    s: ms => ms / 1_000,
+    m: ms => ms / 60_000,
+    h: ms => ms / 3_600_000,
+    iso: toIsoDuration,
+    clock: ms => formatDurationMs(ms, {style: 'clock'}),
+    human: ms => formatDurationMs(ms, {style: 'long'}),
+};
+
+const CALENDAR_POLICIES: readonly CalendarUnitPolicy[] = ['reject', 'fixed', 'average'];
+
+/** Thrown for invalid command-line arguments; reported with the usage hint and exit status 2. */
+class UsageError extends Error {}
+
+/** What JSON output reports for an invalid duration. */
+function issueJson({code, message, start, end}: DurationParseIssue) {
+    return {code, message, start, end};
+}
+
+/**
+ * Run the command line.
+ * @param args The arguments, without the node and script paths.
+ * @returns The exit status.
+ * @throws UsageError If the arguments are invalid.
+ */
+function main(args: string[]): number {
+    const {values, positionals} = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            'to': {type: 'string', default: 'ms'},
+            'check': {type: 'boolean', default: false},
+            'json': {type: 'boolean', default: false},
+            'calendar': {type: 'string'},
+            'locale': {type: 'string'},
+            'strict': {type: 'boolean', default: false},
+            'help': {type: 'boolean', short: 'h', default: false},
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!Object.hasOwn(TARGETS, values.to)) throw new UsageError(`unknown --to unit "${values.to}"`);
+    if (values.calendar !== undefined && !CALENDAR_POLICIES.includes(values.calendar as CalendarUnitPolicy)) {
+        throw new UsageError(`unknown --calendar policy "${values.calendar}"`);
+    }
+    if (values.locale !== undefined && !Object.hasOwn(durationLocales, values.locale)) {
+        throw new UsageError(`unknown --locale "${values.locale}"`);
+    }
+    const options: ParseDurationOptions = {
+        calendar: values.calendar as CalendarUnitPolicy | undefined,
+        locale: values.locale as DurationLocaleCode | undefined,
+        strict: values.strict,
+    };
+    const convert = TARGETS[values.to as Target];
+
+    // --check: one duration per non-blank line, errors as "file:line:column: message"
+    if (values.check) {
+        if (positionals.length > 1) throw new UsageError('--check reads at most one file');
+        const [file] = positionals;
+        const name = file ?? 'stdin';
+        let text: string;
+        try {
+            text = readFileSync(file ?? 0, 'utf8');
+        } catch (err) {
+            throw new UsageError(`cannot read ${name}: ${(err as Error).message}`);
+        }
+        const results = text.split(/\r?\n/).flatMap((line, i) => {
+            if (!line.trim()) return [];
+            return [{line: i + 1, input: line, result: tryParseDurationMs(line, options)}];
+        });
+        const invalid = results.filter(({result}) => !result.ok);
+        if (values.json) {
+            console.log(JSON.stringify(results.map(({line, input, result}) => result.ok
+                ? {line, input, ok: true, ms: result.ms}
+                : {line, input, ok: false, error: issueJson(result.error)})));
+        } else {
+            for (const {line, result} of invalid) {
+                if (!result.ok) console.error(`${name}:${line}:${result.error.start + 1}: ${result.error.message}`);
+            }
+        }
+        return invalid.length ? 1 : 0;
+    }
+
+    if (!positionals.length) throw new UsageError('missing duration');
+    const results = positionals.map(input => ({input, result: tryParseDurationMs(input, options)}));
+    if (values.json) {
+        console.log(JSON.stringify(results.map(({input, result}) => result.ok
+            ? {input, ms: result.ms, value: convert(result.ms)}
+            : {input, error: issueJson(result.error)})));
+    } else {
+        for (const {result} of results) {
+            if (result.ok) {
+                console.log(String(convert(result.ms)));
+            } else {
+                console.error(`ms-parse-duration: ${result.error.message}`);
+            }
+        }
+    }
+    return results.every(({result}) => result.ok) ? 0 : 1;
+}
+
+try {
+    process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+    // parseArgs reports unknown options and missing values with ERR_PARSE_ARGS_* codes
+    const code = (err as { code?: unknown }).code;
+    if (!(err instanceof UsageError) && !String(code).startsWith('ERR_PARSE_ARGS_')) throw err;
+    console.error(`ms-parse-duration: ${(err as Error).message}\nTry "ms-parse-duration --help".`);
+    process.exitCode = 2;
+}
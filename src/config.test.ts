@@ -0,0 +1,175 @@
+import {describe, it, expect, expectTypeOf, afterEach} from 'vitest';
+import {
+    parseDurationConfig,
+    env,
+    createDurationParser,
+    DurationConfigError,
+    type DurationConfigIssue,
+} from './index.js';
+
+describe('parseDurationConfig', () => {
+    const config = {
+        http: {timeout: '30s', retries: {backoff: 1500}},
+        cache: {ttl: '1d'},
+        servers: [{timeout: '5s'}],
+        'log.flush': '10s',
+    };
+
+    it('reads durations by path', () => {
+        expect(parseDurationConfig(config, {
+            timeout: {path: 'http.timeout'},
+            backoff: {path: 'http.retries.backoff'},
+            ttl: {path: ['cache', 'ttl']},
+            first: {path: 'servers.0.timeout'},
+            flush: {path: ['log.flush']},
+        })).toEqual({timeout: 30_000, backoff: 1_500, ttl: 86_400_000, first: 5_000, flush: 10_000});
+    });
+
+    it('uses the field name as the default path', () => {
+        expect(parseDurationConfig({TIMEOUT: '2m', CACHE_TTL: '1d'}, {TIMEOUT: {}, CACHE_TTL: {}})).toEqual({
+            TIMEOUT: 120_000,
+            CACHE_TTL: 86_400_000,
+        });
+    });
+
+    describe('values', () => {
+        const cases: {value: unknown; expected: number | undefined}[] = [
+            {value: '1h 30m', expected: 5_400_000},
+            {value: '1500', expected: 1_500},
+            {value: 1500, expected: 1_500},
+            {value: 1500.5, expected: 1_501},
+            {value: -0.4, expected: 0},
+            {value: 'PT1M', expected: 60_000},
+            {value: undefined, expected: undefined},
+            {value: null, expected: undefined},
+            {value: '', expected: undefined},
+            {value: '  ', expected: undefined},
+        ];
+
+        for (const {value, expected} of cases) {
+            it(`${JSON.stringify(value)}`, () => {
+                expect(parseDurationConfig({value}, {value: {}})).toEqual({value: expected});
+            });
+        }
+    });
+
+    it('applies defaults to missing values', () => {
+        const schema = {timeout: {default: '30s'}, ttl: {default: 60_000}, grace: {}};
+        expect(parseDurationConfig({}, schema)).toEqual({timeout: 30_000, ttl: 60_000, grace: undefined});
+        expect(parseDurationConfig({timeout: '', ttl: null}, schema)).toEqual({timeout: 30_000, ttl: 60_000, grace: undefined});
+        expect(parseDurationConfig({timeout: '5s'}, schema)).toMatchObject({timeout: 5_000});
+    });
+
+    it('applies bounds, inclusively', () => {
+        const schema = {timeout: {min: '1s', max: 60_000}};
+        expect(parseDurationConfig({timeout: '1s'}, schema)).toEqual({timeout: 1_000});
+        expect(parseDurationConfig({timeout: '1m'}, schema)).toEqual({timeout: 60_000});
+    });
+
+    it('collects every issue with its path', () => {
+        let caught: unknown;
+        try {
+            parseDurationConfig(
+                {http: {timeout: '10 foo', idle: true}, cache: {ttl: '2d'}, retry: Infinity},
+                {
+                    timeout: {path: 'http.timeout'},
+                    idle: {path: 'http.idle'},
+                    ttl: {path: 'cache.ttl', max: '1d'},
+                    grace: {path: 'shutdown.grace', required: true},
+                    retry: {},
+                    poll: {default: '5s', min: '10s'},
+                },
+            );
+        } catch (err) {
+            caught = err;
+        }
+        expect(caught).toBeInstanceOf(DurationConfigError);
+        const issues: DurationConfigIssue[] = [
+            {key: 'timeout', path: 'http.timeout', code: 'UNKNOWN_UNIT', message: 'http.timeout: unknown unit "foo" in "10 foo"'},
+            {
+                key: 'idle',
+                path: 'http.idle',
+                code: 'INVALID_TYPE',
+                message: 'http.idle: expected a duration string or number, got boolean',
+            },
+            {key: 'ttl', path: 'cache.ttl', code: 'OUT_OF_RANGE', message: 'cache.ttl: duration "2d" is greater than the maximum "1d"'},
+            {key: 'grace', path: 'shutdown.grace', code: 'MISSING_VALUE', message: 'shutdown.grace: missing required duration'},
+            {key: 'retry', path: 'retry', code: 'INVALID_NUMBER', message: 'retry: invalid number "Infinity"'},
+            {key: 'poll', path: 'poll', code: 'OUT_OF_RANGE', message: 'poll: duration "5s" is less than the minimum "10s"'},
+        ];
+        expect(caught).toMatchObject({name: 'DurationConfigError', issues});
+        expect((caught as Error).message).toBe(`parseDurationConfig: ${issues.map(issue => issue.message).join('; ')}`);
+    });
+
+    it('reports numeric bounds in milliseconds', () => {
+        expect(() => parseDurationConfig({t: 500}, {t: {min: 1000}})).toThrowError(
+            'parseDurationConfig: t: duration "500" is less than the minimum "1000ms"',
+        );
+    });
+
+    it('does not follow inherited properties', () => {
+        expect(parseDurationConfig({}, {value: {path: 'constructor'}})).toEqual({value: undefined});
+        expect(parseDurationConfig('1h', {value: {path: 'length'}})).toEqual({value: undefined});
+    });
+
+    it('applies parsing options to every value', () => {
+        expect(parseDurationConfig({a: '1mo', b: '2 Stunden'}, {a: {}, b: {}}, {calendar: 'fixed', locale: 'de'})).toEqual({
+            a: 2_592_000_000,
+            b: 7_200_000,
+        });
+    });
+
+    it('rejects invalid bounds in the schema', () => {
+        expect(() => parseDurationConfig({t: '1s'}, {t: {max: 'soon'}})).toThrowError(
+            'parseDurationConfig: invalid max "soon" for "t": parseDurationMs: could not fully parse "soon"',
+        );
+    });
+
+    it('uses the parser unit table', () => {
+        const parser = createDurationParser({units: {tick: 50}});
+        expect(parser.parseConfig({t: '3tick'}, {t: {}})).toEqual({t: 150});
+    });
+
+    it('types fields with a default or required as numbers', () => {
+        const typed = () => parseDurationConfig({}, {a: {default: '1s'}, b: {required: true}, c: {}});
+        expectTypeOf(typed).returns.toEqualTypeOf<{a: number; b: number; c: number | undefined}>();
+    });
+});
+
+describe('env', () => {
+    const saved = {...process.env};
+
+    afterEach(() => {
+        process.env = {...saved};
+    });
+
+    it('reads a duration from the environment', () => {
+        process.env.TEST_TIMEOUT = '2m';
+        expect(env('TEST_TIMEOUT', '30s')).toBe(120_000);
+        expect(env('TEST_TIMEOUT')).toBe(120_000);
+    });
+
+    it('falls back to the default', () => {
+        delete process.env.TEST_TIMEOUT;
+        expect(env('TEST_TIMEOUT', '30s')).toBe(30_000);
+        expect(env('TEST_TIMEOUT', 500)).toBe(500);
+        expect(env('TEST_TIMEOUT')).toBeUndefined();
+        process.env.TEST_TIMEOUT = '';
+        expect(env('TEST_TIMEOUT', '30s')).toBe(30_000);
+    });
+
+    it('reports invalid values with the variable name', () => {
+        process.env.TEST_TIMEOUT = '30 parsecs';
+        expect(() => env('TEST_TIMEOUT', '30s')).toThrowError(
+            expect.objectContaining({
+                name: 'DurationConfigError',
+                message: 'env: TEST_TIMEOUT: unknown unit "parsecs" in "30 parsecs"',
+            }),
+        );
+    });
+
+    it('handles names with dots', () => {
+        process.env['test.timeout'] = '1s';
+        expect(env('test.timeout')).toBe(1_000);
+    });
+});
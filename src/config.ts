@@ -0,0 +1,226 @@
+import {
+    tryParseDurationMs,
+    type DurationErrorCode,
+    type DurationParser,
+    type DurationParseResult,
+    type ParseDurationOptions,
+} from './index.js';
+
+/**
+ * How one duration is read from a config object.
+ */
+export interface DurationConfigField {
+    /** Where the value is: a dotted path ("http.timeout") or its keys (default: the field's name). */
+    path?: string | readonly string[];
+    /** Used when the value is missing, in milliseconds or as a duration string. */
+    default?: number | string;
+    /** Report a missing value that has no default. Code: `MISSING_VALUE`. */
+    required?: boolean;
+    /** Smallest accepted duration, in milliseconds or as a duration string. Code: `OUT_OF_RANGE`. */
+    min?: number | string;
+    /** Largest accepted duration, in milliseconds or as a duration string. Code: `OUT_OF_RANGE`. */
+    max?: number | string;
+}
+
+/** Fields to read, by the name they get in the result. */
+export type DurationConfigSchema = Record<string, DurationConfigField>;
+
+/** Result of `parseDurationConfig`: milliseconds by field name; optional fields without a default may be undefined. */
+export type DurationConfig<S extends DurationConfigSchema> = {
+    -readonly [K in keyof S]: S[K] extends { default: number | string } | { required: true } ? number : number | undefined;
+};
+
+/** Why a config value is invalid: the parse error codes, plus missing values and values of the wrong type. */
+export type DurationConfigErrorCode = DurationErrorCode | 'MISSING_VALUE' | 'INVALID_TYPE';
+
+/**
+ * An invalid value found by `parseDurationConfig`.
+ */
+export interface DurationConfigIssue {
+    /** The field's name in the schema. */
+    key: string;
+    /** Where the value is in the config object ("http.timeout"). */
+    path: string;
+    code: DurationConfigErrorCode;
+    /** Human-readable message, starting with the path. */
+    message: string;
+}
+
+/**
+ * Error thrown by `parseDurationConfig`, listing every invalid value.
+ */
+export class DurationConfigError extends Error {
+    readonly issues: DurationConfigIssue[];
+
+    constructor(caller: string, issues: DurationConfigIssue[]) {
+        super(`${caller}: ${issues.map(issue => issue.message).join('; ')}`);
+        this.name = 'DurationConfigError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Get the value at a path, following own properties only.
+ * @returns The value, or undefined if a step is missing.
+ */
+function lookup(source: unknown, keys: readonly string[]): unknown {
+    let value = source;
+    for (const key of keys) {
+        if (typeof value !== 'object' || value === null || !Object.hasOwn(value, key)) return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+/** Outcome of reading one value; a missing optional value without a default is undefined. */
+export type DurationValueResult<T extends number | undefined = number | undefined> =
+    | { ok: true; ms: T }
+    | { ok: false; code: DurationConfigErrorCode; message: string };
+
+/** Bounds of a field, in milliseconds. */
+export interface DurationBounds {
+    min?: number;
+    max?: number;
+}
+
+/**
+ * Convert a field's `min` and `max` to milliseconds.
+ * @param caller The public function's name, for messages.
+ * @param tryParse The parser's `tryParse`.
+ * @param field The field.
+ * @param options Parsing options (`calendar` applies).
+ * @param label Appended to the bound's name in messages (' for "timeout"').
+ * @returns The bounds.
+ * @throws Error If a bound is not a number or a valid duration string.
+ */
+export function resolveBounds(
+    caller: string,
+    tryParse: (input: string, options?: ParseDurationOptions) => DurationParseResult,
+    field: Pick<DurationConfigField, 'min' | 'max'>,
+    options: ParseDurationOptions,
+    label = '',
+): DurationBounds {
+    const bound = (name: 'min' | 'max', limit: number | string | undefined): number | undefined => {
+        if (limit === undefined || typeof limit === 'number') return limit;
+        const parsed = tryParse(limit, {calendar: options.calendar});
+        if (!parsed.ok) throw new Error(`${caller}: invalid ${name} "${limit}"${label}: ${parsed.error.message}`);
+        return parsed.ms;
+    };
+    return {min: bound('min', field.min), max: bound('max', field.max)};
+}
+
+/**
+ * Read one duration value.
+ *
+ * A value is missing if it is absent, null or a blank string (as unset
+ * environment variables often are). Strings are parsed with `tryParse`;
+ * numbers are taken as milliseconds and rounded like unitless strings.
+ *
+ * @param tryParse The parser's `tryParse`.
+ * @param value The value.
+ * @param field The default, whether the value is required, and the bounds as written.
+ * @param bounds The bounds in milliseconds, from `resolveBounds`.
+ * @param options Parsing options.
+ * @returns `{ ok: true, ms }` or `{ ok: false, code, message }`; messages do not name the value's location.
+ */
+export function readDuration(
+    tryParse: (input: string, options?: ParseDurationOptions) => DurationParseResult,
+    value: unknown,
+    field: Omit<DurationConfigField, 'path'>,
+    bounds: DurationBounds,
+    options: ParseDurationOptions,
+): DurationValueResult {
+    const fail = (code: DurationConfigErrorCode, message: string): DurationValueResult => ({ok: false, code, message});
+
+    if (value == null || (typeof value === 'string' && !value.trim())) value = field.default;
+    if (value == null) return field.required ? fail('MISSING_VALUE', 'missing required duration') : {ok: true, ms: undefined};
+
+    let ms: number;
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) return fail('INVALID_NUMBER', `invalid number "${value}"`);
+        ms = Math.round(value) + 0;
+    } else if (typeof value === 'string') {
+        const parsed = tryParse(value, options);
+        if (!parsed.ok) return fail(parsed.error.code, parsed.error.message.replace(/^parseDurationMs: /, ''));
+        ms = parsed.ms;
+    } else {
+        return fail('INVALID_TYPE', `expected a duration string or number, got ${Array.isArray(value) ? 'array' : typeof value}`);
+    }
+
+    // Bounds are inclusive, as in `DurationRules`
+    const show = (limit: number | string) => typeof limit === 'number' ? `${limit}ms` : limit;
+    if (bounds.min !== undefined && ms < bounds.min) {
+        return fail('OUT_OF_RANGE', `duration "${value}" is less than the minimum "${show(field.min!)}"`);
+    }
+    if (bounds.max !== undefined && ms > bounds.max) {
+        return fail('OUT_OF_RANGE', `duration "${value}" is greater than the maximum "${show(field.max!)}"`);
+    }
+    return {ok: true, ms};
+}
+
+/**
+ * Read the durations described by a schema out of a config object.
+ * @param caller The public function's name, for messages.
+ * @param tryParse The parser's `tryParse`.
+ * @param source The config object.
+ * @param schema The fields to read.
+ * @param options Parsing options, applied to every value.
+ * @returns The durations in milliseconds, by field name.
+ * @throws DurationConfigError If any value is invalid, missing or out of range.
+ * @throws Error If a `min` or `max` in the schema is invalid.
+ */
+export function parseConfig<S extends DurationConfigSchema>(
+    caller: string,
+    tryParse: (input: string, options?: ParseDurationOptions) => DurationParseResult,
+    source: unknown,
+    schema: S,
+    options: ParseDurationOptions,
+): DurationConfig<S> {
+    const result: Record<string, number | undefined> = {};
+    const issues: DurationConfigIssue[] = [];
+
+    for (const [key, field] of Object.entries(schema)) {
+        const keys = field.path === undefined ? [key] : typeof field.path === 'string' ? field.path.split('.') : field.path;
+        const path = keys.join('.');
+        const bounds = resolveBounds(caller, tryParse, field, options, ` for "${key}"`);
+        const read = readDuration(tryParse, lookup(source, keys), field, bounds, options);
+        if (read.ok) {
+            result[key] = read.ms;
+        } else {
+            issues.push({key, path, code: read.code, message: `${path}: ${read.message}`});
+        }
+    }
+
+    if (issues.length) throw new DurationConfigError(caller, issues);
+    return result as DurationConfig<S>;
+}
+
+/**
+ * Options of the schema-validator adapters ("ms-parse-duration/zod", "/valibot" and "/ajv").
+ */
+export interface DurationValidatorOptions extends ParseDurationOptions {
+    /** Smallest accepted duration, in milliseconds or as a duration string. */
+    min?: number | string;
+    /** Largest accepted duration, in milliseconds or as a duration string. */
+    max?: number | string;
+    /** Parser whose units are accepted, from `createDurationParser` (default: the built-in units). */
+    parser?: Pick<DurationParser, 'tryParse'>;
+}
+
+/**
+ * Build the check behind a validator adapter: values are required, and strings and numbers become milliseconds.
+ * @param caller The adapter's name, for messages.
+ * @param options The adapter's options.
+ * @returns A function that reads one value.
+ * @throws Error If `min` or `max` is invalid.
+ */
+export function createDurationReader(
+    caller: string,
+    options: DurationValidatorOptions,
+): (value: unknown) => DurationValueResult<number> {
+    const {min, max, parser = {tryParse: tryParseDurationMs}, ...parseOptions} = options;
+    const tryParse = (input: string, opts?: ParseDurationOptions) => parser.tryParse(input, opts);
+    const bounds = resolveBounds(caller, tryParse, {min, max}, parseOptions);
+    // Required values are never undefined
+    return value => readDuration(tryParse, value, {required: true, min, max}, bounds, parseOptions) as DurationValueResult<number>;
+}
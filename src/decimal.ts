@@ -0,0 +1,97 @@
+import type {DurationRounding} from './index.js';
+
+/**
+ * An exact decimal number: `digits / 10 ** scale`.
+ */
+export interface Decimal {
+    digits: bigint;
+    scale: number;
+}
+
+/** Zero, at scale 0. */
+export const ZERO: Decimal = {digits: 0n, scale: 0};
+
+/**
+ * Parse a decimal string, including the exponent form `String(number)` produces ("1e-7", "1.5e+21").
+ * @param text The decimal string; "," is accepted as the decimal separator, and either side of it may be empty (".5", "1.").
+ * @returns The exact value.
+ * @throws Error If the string is not a decimal number.
+ */
+export function decimal(text: string): Decimal {
+    const match = /^([+-]?)(\d*)(?:[.,](\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+    if (!match || !(match[2] || match[3])) throw new Error(`decimal: invalid number "${text}"`);
+    const [, sign, int, frac = '', exp = '0'] = match;
+    const digits = BigInt(int! + frac);
+    return shift({digits: sign === '-' ? -digits : digits, scale: frac.length}, Number(exp));
+}
+
+/**
+ * Convert a finite number to the decimal its shortest string form denotes (0.001 => "0.001", not its binary value).
+ */
+export function fromNumber(n: number): Decimal {
+    return decimal(String(n));
+}
+
+/**
+ * Multiply by a power of ten.
+ */
+export function shift(a: Decimal, places: number): Decimal {
+    return places >= 0 && places > a.scale
+        ? {digits: a.digits * 10n ** BigInt(places - a.scale), scale: 0}
+        : {digits: a.digits, scale: a.scale - places};
+}
+
+/**
+ * Add two decimals exactly.
+ */
+export function add(a: Decimal, b: Decimal): Decimal {
+    const scale = Math.max(a.scale, b.scale);
+    return {digits: a.digits * 10n ** BigInt(scale - a.scale) + b.digits * 10n ** BigInt(scale - b.scale), scale};
+}
+
+/**
+ * Multiply two decimals exactly.
+ */
+export function multiply(a: Decimal, b: Decimal): Decimal {
+    return {digits: a.digits * b.digits, scale: a.scale + b.scale};
+}
+
+/**
+ * Negate a decimal.
+ */
+export function negate(a: Decimal): Decimal {
+    return {digits: -a.digits, scale: a.scale};
+}
+
+/**
+ * Round a decimal to an integer.
+ * @param a The value.
+ * @param mode The rounding mode; "round" rounds half toward +Infinity like `Math.round`,
+ * "half-away" half away from zero, "half-even" half to the even neighbour.
+ * @returns The rounded integer.
+ */
+export function roundDecimal(a: Decimal, mode: DurationRounding): bigint {
+    if (a.scale <= 0) return a.digits * 10n ** BigInt(-a.scale);
+    const divisor = 10n ** BigInt(a.scale);
+    const q = a.digits / divisor; // truncated toward zero
+    const r = a.digits % divisor; // same sign as digits
+    if (r === 0n) return q;
+    const away = a.digits < 0n ? q - 1n : q + 1n;
+    const twice = (r < 0n ? -r : r) * 2n;
+    switch (mode) {
+        case 'trunc':
+            return q;
+        case 'floor':
+            return a.digits < 0n ? away : q;
+        case 'ceil':
+            return a.digits < 0n ? q : away;
+        case 'half-even':
+            if (twice === divisor) return q % 2n === 0n ? q : away;
+            return twice > divisor ? away : q;
+        case 'round':
+            if (twice === divisor) return a.digits < 0n ? q : away;
+            return twice > divisor ? away : q;
+        default:
+            return twice >= divisor ? away : q;
+    }
+}
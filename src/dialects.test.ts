@@ -0,0 +1,307 @@
+import {describe, it, expect} from 'vitest';
+import {
+    parseDurationMs,
+    parseDurationNs,
+    parseDurationParts,
+    tryParseDurationMs,
+    formatDurationMs,
+    createDurationParser,
+    type DurationDialect,
+} from './index.js';
+
+const SECOND = 1_000;
+const MINUTE = 60_000;
+const HOUR = 3_600_000;
+const DAY = 86_400_000;
+
+/** Inputs each dialect must reject, with the error code. */
+function rejects(dialect: DurationDialect, cases: {input: string; code: string}[]) {
+    for (const {input, code} of cases) {
+        it(`rejects "${input}" (${code})`, () => {
+            expect(tryParseDurationMs(input, {dialect})).toMatchObject({ok: false, error: {code}});
+        });
+    }
+}
+
+describe('dialects', () => {
+    // From Go's time.ParseDuration tests
+    describe('go', () => {
+        const cases: {input: string; ns: bigint}[] = [
+            {input: '0', ns: 0n},
+            {input: '5s', ns: 5_000_000_000n},
+            {input: '30s', ns: 30_000_000_000n},
+            {input: '1478s', ns: 1_478_000_000_000n},
+            {input: '-5s', ns: -5_000_000_000n},
+            {input: '+5s', ns: 5_000_000_000n},
+            {input: '-0', ns: 0n},
+            {input: '+0', ns: 0n},
+            {input: '5.0s', ns: 5_000_000_000n},
+            {input: '5.6s', ns: 5_600_000_000n},
+            {input: '5.s', ns: 5_000_000_000n},
+            {input: '.5s', ns: 500_000_000n},
+            {input: '1.0s', ns: 1_000_000_000n},
+            {input: '1.00s', ns: 1_000_000_000n},
+            {input: '1.004s', ns: 1_004_000_000n},
+            {input: '1.0040s', ns: 1_004_000_000n},
+            {input: '100.00100s', ns: 100_001_000_000n},
+            {input: '10ns', ns: 10n},
+            {input: '11us', ns: 11_000n},
+            {input: '12µs', ns: 12_000n},
+            {input: '12μs', ns: 12_000n},
+            {input: '13ms', ns: 13_000_000n},
+            {input: '14s', ns: 14_000_000_000n},
+            {input: '15m', ns: 900_000_000_000n},
+            {input: '16h', ns: 57_600_000_000_000n},
+            {input: '3h30m', ns: 12_600_000_000_000n},
+            {input: '10.5s4m', ns: 250_500_000_000n},
+            {input: '-2m3.4s', ns: -123_400_000_000n},
+            {input: '1h2m3s4ms5us6ns', ns: 3_723_004_005_006n},
+            {input: '39h9m14.425s', ns: 140_954_425_000_000n},
+            {input: '52763797000ns', ns: 52_763_797_000n},
+            {input: '0.3333333333333333333h', ns: 1_200_000_000_000n},
+            {input: '9007199254740993ns', ns: 9_007_199_254_740_993n},
+            {input: '9223372036854775807ns', ns: 9_223_372_036_854_775_807n},
+            {input: '9223372036854775.807us', ns: 9_223_372_036_854_775_807n},
+            {input: '9223372036s854ms775us807ns', ns: 9_223_372_036_854_775_807n},
+            {input: '-9223372036854775808ns', ns: -9_223_372_036_854_775_808n},
+            {input: '-9223372036854775.808us', ns: -9_223_372_036_854_775_808n},
+            {input: '0.100000000000000000000h', ns: 360_000_000_000n},
+        ];
+
+        for (const {input, ns} of cases) {
+            it(`"${input}" -> ${ns}ns`, () => {
+                expect(parseDurationNs(input, {dialect: 'go'})).toBe(ns);
+            });
+        }
+
+        it('parses to milliseconds', () => {
+            expect(parseDurationMs('1h2m3.5s', {dialect: 'go'})).toBe(HOUR + 2 * MINUTE + 3_500);
+            expect(parseDurationMs('300us', {dialect: 'go'})).toBe(0);
+            expect(parseDurationMs('1500us', {dialect: 'go', rounding: 'floor'})).toBe(1);
+        });
+
+        rejects('go', [
+            {input: '', code: 'DIALECT_SYNTAX'},
+            {input: '3', code: 'DIALECT_SYNTAX'},
+            {input: '-', code: 'DIALECT_SYNTAX'},
+            {input: 's', code: 'DIALECT_SYNTAX'},
+            {input: '.', code: 'DIALECT_SYNTAX'},
+            {input: '-.', code: 'DIALECT_SYNTAX'},
+            {input: '.s', code: 'DIALECT_SYNTAX'},
+            {input: '+.s', code: 'DIALECT_SYNTAX'},
+            {input: '1d', code: 'UNKNOWN_UNIT'},
+            {input: '1 h', code: 'UNKNOWN_UNIT'},
+            {input: '1H', code: 'UNKNOWN_UNIT'},
+            {input: '1h-30m', code: 'UNKNOWN_UNIT'},
+            {input: '9223372036854775808ns', code: 'OUT_OF_RANGE'},
+            {input: '9223372036854775.808us', code: 'OUT_OF_RANGE'},
+            {input: '9223372036854ms775us808ns', code: 'OUT_OF_RANGE'},
+            {input: '-9223372036854775809ns', code: 'OUT_OF_RANGE'},
+        ]);
+
+        // From Go's Duration.String tests
+        const formats: {ms: number; expected: string}[] = [
+            {ms: 0, expected: '0s'},
+            {ms: 0.000_001, expected: '1ns'},
+            {ms: 0.0011, expected: '1.1µs'},
+            {ms: 2.2, expected: '2.2ms'},
+            {ms: 3_300, expected: '3.3s'},
+            {ms: 4 * MINUTE + 5 * SECOND, expected: '4m5s'},
+            {ms: 4 * MINUTE + 5_001, expected: '4m5.001s'},
+            {ms: 5 * HOUR + 6 * MINUTE + 7_001, expected: '5h6m7.001s'},
+            {ms: 8 * MINUTE + 0.000_001, expected: '8m0.000000001s'},
+            {ms: HOUR, expected: '1h0m0s'},
+            {ms: -90 * SECOND, expected: '-1m30s'},
+        ];
+
+        for (const {ms, expected} of formats) {
+            it(`formats ${ms} as "${expected}"`, () => {
+                expect(formatDurationMs(ms, {dialect: 'go'})).toBe(expected);
+            });
+        }
+    });
+
+    // From Prometheus' model.ParseDuration tests and documentation
+    describe('prometheus', () => {
+        const cases: {input: string; ms: number; formatted: string}[] = [
+            {input: '0', ms: 0, formatted: '0s'},
+            {input: '0w', ms: 0, formatted: '0s'},
+            {input: '0s', ms: 0, formatted: '0s'},
+            {input: '324ms', ms: 324, formatted: '324ms'},
+            {input: '3s', ms: 3 * SECOND, formatted: '3s'},
+            {input: '5m', ms: 5 * MINUTE, formatted: '5m'},
+            {input: '1h', ms: HOUR, formatted: '1h'},
+            {input: '4d', ms: 4 * DAY, formatted: '4d'},
+            {input: '4d1h', ms: 4 * DAY + HOUR, formatted: '4d1h'},
+            {input: '14d', ms: 14 * DAY, formatted: '2w'},
+            {input: '3w', ms: 21 * DAY, formatted: '3w'},
+            {input: '3w2d1h', ms: 23 * DAY + HOUR, formatted: '23d1h'},
+            {input: '10y', ms: 3650 * DAY, formatted: '10y'},
+            {input: '1h30m', ms: 90 * MINUTE, formatted: '1h30m'},
+            {input: '1y2w3d4h5m6s7ms', ms: 365 * DAY + 17 * DAY + 4 * HOUR + 5 * MINUTE + 6_007, formatted: '382d4h5m6s7ms'},
+        ];
+
+        for (const {input, ms, formatted} of cases) {
+            it(`"${input}" -> ${ms} -> "${formatted}"`, () => {
+                expect(parseDurationMs(input, {dialect: 'prometheus'})).toBe(ms);
+                expect(formatDurationMs(ms, {dialect: 'prometheus'})).toBe(formatted);
+            });
+        }
+
+        rejects('prometheus', [
+            {input: '', code: 'DIALECT_SYNTAX'},
+            {input: '1', code: 'DIALECT_SYNTAX'},
+            {input: '1.5h', code: 'DIALECT_SYNTAX'},
+            {input: '-1h', code: 'DIALECT_SYNTAX'},
+            {input: '1m1h', code: 'DIALECT_SYNTAX'},
+            {input: '1h1h', code: 'DIALECT_SYNTAX'},
+            {input: '1h 30m', code: 'DIALECT_SYNTAX'},
+            {input: '1H', code: 'UNKNOWN_UNIT'},
+            {input: '1us', code: 'UNKNOWN_UNIT'},
+            {input: '300000y', code: 'OUT_OF_RANGE'},
+        ]);
+
+        it('cannot format negative durations', () => {
+            expect(() => formatDurationMs(-1, {dialect: 'prometheus'})).toThrowError(
+                'formatDurationMs: negative duration "-1" has no prometheus form',
+            );
+        });
+    });
+
+    // From systemd.time(7)
+    describe('systemd', () => {
+        const cases: {input: string; ms: number; formatted: string}[] = [
+            {input: '2 h', ms: 2 * HOUR, formatted: '2h'},
+            {input: '2hours', ms: 2 * HOUR, formatted: '2h'},
+            {input: '48hr', ms: 2 * DAY, formatted: '2d'},
+            {input: '1y 12month', ms: 63_115_200_000, formatted: '2y'},
+            {input: '55s500ms', ms: 55_500, formatted: '55.500000s'},
+            {input: '300ms20s 5day', ms: 5 * DAY + 20_300, formatted: '5d 20.300000s'},
+            {input: '2min 5s', ms: 125_000, formatted: '2min 5s'},
+            {input: '1 week', ms: 7 * DAY, formatted: '1w'},
+            {input: '5', ms: 5_000, formatted: '5s'},
+            {input: '1 M', ms: 2_629_800_000, formatted: '1month'},
+            {input: '90 seconds', ms: 90_000, formatted: '1min 30s'},
+            {input: 'infinity', ms: Infinity, formatted: 'infinity'},
+        ];
+
+        for (const {input, ms, formatted} of cases) {
+            it(`"${input}" -> ${ms} -> "${formatted}"`, () => {
+                expect(parseDurationMs(input, {dialect: 'systemd'})).toBe(ms);
+                expect(formatDurationMs(ms, {dialect: 'systemd'})).toBe(formatted);
+            });
+        }
+
+        it('formats zero as "0" and keeps microseconds', () => {
+            expect(formatDurationMs(0, {dialect: 'systemd'})).toBe('0');
+            expect(formatDurationMs(1.5, {dialect: 'systemd'})).toBe('1.500ms');
+            expect(parseDurationNs('1.5 msec', {dialect: 'systemd'})).toBe(1_500_000n);
+        });
+
+        it('has no nanosecond value for infinity', () => {
+            expect(() => parseDurationNs('infinity', {dialect: 'systemd'})).toThrowError(
+                'parseDurationNs: infinite duration "infinity" has no nanosecond value',
+            );
+        });
+
+        rejects('systemd', [
+            {input: '', code: 'DIALECT_SYNTAX'},
+            {input: '-5s', code: 'DIALECT_SYNTAX'},
+            {input: '.5s', code: 'DIALECT_SYNTAX'},
+            {input: '1,5s', code: 'DIALECT_SYNTAX'},
+            {input: 'infinity 5s', code: 'DIALECT_SYNTAX'},
+            {input: '5 parsecs', code: 'UNKNOWN_UNIT'},
+            {input: '5 Min', code: 'UNKNOWN_UNIT'},
+        ]);
+    });
+
+    // From MDN's <time> reference
+    describe('css', () => {
+        const cases: {input: string; ms: number}[] = [
+            {input: '12s', ms: 12_000},
+            {input: '-456ms', ms: -456},
+            {input: '4.3ms', ms: 4},
+            {input: '14mS', ms: 14},
+            {input: '+0s', ms: 0},
+            {input: '-0ms', ms: 0},
+            {input: '250ms', ms: 250},
+            {input: '.5s', ms: 500},
+            {input: '1e3ms', ms: 1_000},
+        ];
+
+        for (const {input, ms} of cases) {
+            it(`"${input}" -> ${ms}`, () => {
+                expect(parseDurationMs(input, {dialect: 'css'})).toBe(ms);
+            });
+        }
+
+        rejects('css', [
+            {input: '0', code: 'DIALECT_SYNTAX'},
+            {input: '12.0', code: 'DIALECT_SYNTAX'},
+            {input: '7 ms', code: 'DIALECT_SYNTAX'},
+            {input: '1.s', code: 'DIALECT_SYNTAX'},
+            {input: '1s 2s', code: 'DIALECT_SYNTAX'},
+            {input: '2m', code: 'UNKNOWN_UNIT'},
+            {input: '1e999s', code: 'INVALID_NUMBER'},
+        ]);
+
+        it('formats whole seconds in seconds and the rest in milliseconds', () => {
+            expect([0, 250, 2_000, 1_500, -250, 0.5].map(ms => formatDurationMs(ms, {dialect: 'css'}))).toEqual([
+                '0s', '250ms', '2s', '1500ms', '-250ms', '0.5ms',
+            ]);
+        });
+    });
+
+    it('round-trips through each dialect', () => {
+        const samples = [0, 1, 999, 1_500, 61_000, 5_415_250, 90_061_001, 400 * DAY];
+        for (const dialect of ['go', 'prometheus', 'systemd', 'css'] as const) {
+            for (const ms of samples) {
+                expect(parseDurationMs(formatDurationMs(ms, {dialect}), {dialect})).toBe(ms);
+            }
+        }
+    });
+
+    describe('errors', () => {
+        it('reports messages and offsets into the original input', () => {
+            expect(tryParseDurationMs(' 1h30x ', {dialect: 'go'})).toEqual({
+                ok: false,
+                error: {
+                    code: 'UNKNOWN_UNIT',
+                    message: 'parseDurationMs: unknown go unit "x" in " 1h30x "',
+                    input: ' 1h30x ',
+                    substring: 'x',
+                    start: 5,
+                    end: 6,
+                },
+            });
+            expect(() => parseDurationMs('1m1h', {dialect: 'prometheus'})).toThrowError(
+                'parseDurationMs: invalid prometheus duration "1m1h"',
+            );
+            expect(() => parseDurationMs('9223372036854775808ns', {dialect: 'go'})).toThrowError(
+                'parseDurationMs: go duration "9223372036854775808ns" is out of range',
+            );
+        });
+
+        it('rejects unknown dialects', () => {
+            expect(() => parseDurationMs('1s', {dialect: 'rust' as 'go'})).toThrowError('parseDurationMs: unknown dialect "rust"');
+            expect(() => formatDurationMs(1, {dialect: 'rust' as 'go'})).toThrowError('formatDurationMs: unknown dialect "rust"');
+        });
+    });
+
+    it('reports tokens and applies strict rules', () => {
+        const parts = parseDurationParts('-1h30m', {dialect: 'go'});
+        expect(parts.kind === 'tokens' && parts.tokens.map(t => [t.value, t.unit, t.start, t.end])).toEqual([
+            [-1, 'h', 1, 3],
+            [-30, 'm', 3, 6],
+        ]);
+        expect(parseDurationMs('-1h30m', {dialect: 'go', strict: true})).toBe(-90 * MINUTE);
+        expect(tryParseDurationMs('30m1h', {dialect: 'go', strict: true})).toMatchObject({ok: false, error: {code: 'UNIT_ORDER'}});
+    });
+
+    it('ignores the parser configuration', () => {
+        const parser = createDurationParser({units: {sprint: 14 * DAY}, unitless: 's'});
+        expect(parser.tryParse('1sprint', {dialect: 'go'})).toMatchObject({ok: false, error: {code: 'UNKNOWN_UNIT'}});
+        expect(parser.tryParse('1', {dialect: 'go'})).toMatchObject({ok: false, error: {code: 'DIALECT_SYNTAX'}});
+        expect(parser.parse('1h', {dialect: 'go', locale: 'de'})).toBe(HOUR);
+    });
+});
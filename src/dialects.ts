@@ -0,0 +1,357 @@
+import {add, decimal, fromNumber, multiply, roundDecimal, shift, ZERO} from './decimal.js';
+import type {DurationErrorCode} from './index.js';
+
+/**
+ * Duration syntaxes of other ecosystems, selectable with the `dialect` option:
+ * - "go": Go's `time.ParseDuration` and `Duration.String` ("1h2m3.5s", "300us")
+ * - "prometheus": Prometheus and Grafana ranges ("5m", "1w", "1y"; a year is 365 days)
+ * - "systemd": systemd time spans ("2min 5s", "1 week", "infinity")
+ * - "css": CSS `<time>` values ("250ms", ".5s")
+ */
+export type DurationDialect = 'go' | 'prometheus' | 'systemd' | 'css';
+
+/** A "<number><unit>" token of a dialect duration; offsets are into the scanned string. */
+export interface DialectToken {
+    value: number;
+    /** The number as written, with the duration's sign ("-1.5"); "infinity" for systemd's infinite span. */
+    text: string;
+    /** Milliseconds per unit. */
+    size: number;
+    /** The unit as this library spells it ("us", "mo"). */
+    canonical: string;
+    /** The unit as written; empty for systemd's unitless seconds. */
+    unit: string;
+    start: number;
+    valueEnd: number;
+    unitStart: number;
+    end: number;
+}
+
+/** Why a string is not a valid dialect duration; offsets are into the scanned string. */
+export interface DialectFailure {
+    code: Extract<DurationErrorCode, 'DIALECT_SYNTAX' | 'UNKNOWN_UNIT' | 'INVALID_NUMBER' | 'OUT_OF_RANGE'>;
+    start: number;
+    end: number;
+}
+
+interface DialectUnit {
+    size: number;
+    canonical: string;
+}
+
+const unit = (canonical: string, size: number): DialectUnit => ({size, canonical});
+const NS = unit('ns', 0.000_001);
+const US = unit('us', 0.001);
+const MS = unit('ms', 1);
+const S = unit('s', 1_000);
+const M = unit('m', 60_000);
+const H = unit('h', 3_600_000);
+const D = unit('d', 86_400_000);
+const W = unit('w', 604_800_000);
+
+/** `time.ParseDuration` units; case-sensitive. */
+const GO_UNITS: ReadonlyMap<string, DialectUnit> = new Map([
+    ['ns', NS], ['us', US], ['µs', US], ['μs', US], ['ms', MS], ['s', S], ['m', M], ['h', H],
+]);
+
+/** Prometheus units, largest first; each may appear once, in this order. A year is always 365 days. */
+const PROMETHEUS_UNITS: readonly (readonly [string, DialectUnit])[] = [
+    ['y', unit('y', 365 * 86_400_000)], ['w', W], ['d', D], ['h', H], ['m', M], ['s', S], ['ms', MS],
+];
+
+/** systemd.time(7) units; case-sensitive ("M" is a month, "m" a minute). */
+const SYSTEMD_UNITS: ReadonlyMap<string, DialectUnit> = new Map([
+    ...['nsec', 'ns'].map(s => [s, NS] as const),
+    ...['usec', 'us', 'µs', 'μs'].map(s => [s, US] as const),
+    ...['msec', 'ms'].map(s => [s, MS] as const),
+    ...['seconds', 'second', 'sec', 's'].map(s => [s, S] as const),
+    ...['minutes', 'minute', 'min', 'm'].map(s => [s, M] as const),
+    ...['hours', 'hour', 'hr', 'h'].map(s => [s, H] as const),
+    ...['days', 'day', 'd'].map(s => [s, D] as const),
+    ...['weeks', 'week', 'w'].map(s => [s, W] as const),
+    // systemd's month and year are 30.44 and 365.25 days
+    ...['months', 'month', 'M'].map(s => [s, unit('mo', 2_629_800_000)] as const),
+    ...['years', 'year', 'y'].map(s => [s, unit('y', 31_557_600_000)] as const),
+]);
+
+/** CSS `<time>` units; case-insensitive. */
+const CSS_UNITS: ReadonlyMap<string, DialectUnit> = new Map([['s', S], ['ms', MS]]);
+
+/** Go and Prometheus store durations as signed 64-bit nanoseconds. */
+const MAX_NS = 2n ** 63n - 1n;
+
+/**
+ * Check that tokens fit a signed 64-bit nanosecond count.
+ * @returns The tokens, or an `OUT_OF_RANGE` failure spanning the whole input.
+ */
+function inInt64(tokens: DialectToken[], input: string): DialectToken[] | DialectFailure {
+    const ms = tokens.reduce((sum, t) => add(sum, multiply(decimal(t.text), fromNumber(t.size))), ZERO);
+    const ns = roundDecimal(shift(ms, 6), 'trunc');
+    return ns > MAX_NS || ns < -MAX_NS - 1n ? {code: 'OUT_OF_RANGE', start: 0, end: input.length} : tokens;
+}
+
+/**
+ * Scan a Go duration: an optional sign, then "<number><unit>" pairs with no spaces.
+ * Numbers may start or end with "." (".5s", "1.s"); "0" alone needs no unit.
+ */
+function scanGo(input: string): DialectToken[] | DialectFailure {
+    const sign = input[0] === '-' || input[0] === '+' ? input[0] : '';
+    if (input.slice(sign.length) === '0') return [];
+    const tokens: DialectToken[] = [];
+    let i = sign.length;
+    if (i === input.length) return {code: 'DIALECT_SYNTAX', start: 0, end: i};
+    while (i < input.length) {
+        const start = i;
+        const number = /\d*(?:\.\d*)?/y;
+        number.lastIndex = i;
+        const text = number.exec(input)![0];
+        if (!/\d/.test(text)) return {code: 'DIALECT_SYNTAX', start, end: input.length};
+        const unitStart = i += text.length;
+        // Like Go, the unit is everything up to the next number
+        while (i < input.length && !/[\d.]/.test(input[i]!)) i++;
+        const spelling = input.slice(unitStart, i);
+        if (!spelling) return {code: 'DIALECT_SYNTAX', start, end: i};
+        const entry = GO_UNITS.get(spelling);
+        if (!entry) return {code: 'UNKNOWN_UNIT', start: unitStart, end: i};
+        const signed = (sign === '-' ? '-' : '') + text;
+        tokens.push({...entry, value: Number(signed), text: signed, unit: spelling, start, valueEnd: unitStart, unitStart, end: i});
+    }
+    return inInt64(tokens, input);
+}
+
+/**
+ * Scan a Prometheus duration: integer "<number><unit>" pairs, largest unit first,
+ * each unit at most once, no sign or spaces; "0" alone needs no unit.
+ */
+function scanPrometheus(input: string): DialectToken[] | DialectFailure {
+    if (input === '0') return [];
+    const tokens: DialectToken[] = [];
+    const pair = /(\d+)(\p{L}+)/uy;
+    let last = -1;
+    while (pair.lastIndex < input.length) {
+        const start = pair.lastIndex;
+        const match = pair.exec(input);
+        if (!match) return {code: 'DIALECT_SYNTAX', start, end: input.length};
+        const unitStart = start + match[1]!.length;
+        const index = PROMETHEUS_UNITS.findIndex(([spelling]) => spelling === match[2]);
+        if (index < 0) return {code: 'UNKNOWN_UNIT', start: unitStart, end: pair.lastIndex};
+        if (index <= last) return {code: 'DIALECT_SYNTAX', start, end: pair.lastIndex};
+        last = index;
+        tokens.push({
+            ...PROMETHEUS_UNITS[index]![1],
+            value: Number(match[1]),
+            text: match[1]!,
+            unit: match[2]!,
+            start,
+            valueEnd: unitStart,
+            unitStart,
+            end: pair.lastIndex,
+        });
+    }
+    return inInt64(tokens, input);
+}
+
+/**
+ * Scan a systemd time span: "<number> <unit>" pairs, optionally separated by
+ * whitespace, where a number without a unit is seconds; or "infinity".
+ */
+function scanSystemd(input: string): DialectToken[] | DialectFailure {
+    if (input === 'infinity') {
+        const end = input.length;
+        return [{...S, value: Infinity, text: input, unit: '', start: 0, valueEnd: end, unitStart: end, end}];
+    }
+    const tokens: DialectToken[] = [];
+    const read = (pattern: RegExp, from: number) => {
+        pattern.lastIndex = from;
+        return pattern.exec(input)?.[0];
+    };
+    const space = /\s*/y;
+    const number = /\d+(?:\.\d+)?/y;
+    const word = /\p{L}+/uy;
+    let i = 0;
+    while (i < input.length) {
+        const start = i;
+        const text = read(number, start);
+        if (text === undefined) return {code: 'DIALECT_SYNTAX', start, end: input.length};
+        const valueEnd = start + text.length;
+        const unitStart = valueEnd + read(space, valueEnd)!.length;
+        const spelling = read(word, unitStart);
+        const entry = spelling === undefined ? S : SYSTEMD_UNITS.get(spelling);
+        if (!entry) return {code: 'UNKNOWN_UNIT', start: unitStart, end: unitStart + spelling!.length};
+        const token = spelling === undefined
+            ? {unit: '', unitStart: valueEnd, end: valueEnd}
+            : {unit: spelling, unitStart, end: unitStart + spelling.length};
+        tokens.push({...entry, ...token, value: Number(text), text, start, valueEnd});
+        i = token.end + read(space, token.end)!.length;
+    }
+    return tokens;
+}
+
+/**
+ * Scan a CSS `<time>`: one number (CSS syntax, so ".5" and "1e3" but not "1.")
+ * directly followed by "s" or "ms", in any case. "0" needs a unit too.
+ */
+function scanCss(input: string): DialectToken[] | DialectFailure {
+    const match = /^([+-]?(?:\d*\.\d+|\d+)(?:e[+-]?\d+)?)(.*)$/is.exec(input);
+    if (!match) return {code: 'DIALECT_SYNTAX', start: 0, end: input.length};
+    const [, text, spelling] = match as unknown as [string, string, string];
+    const unitStart = text.length;
+    const entry = CSS_UNITS.get(spelling.toLowerCase());
+    if (!entry) {
+        return /^\p{L}+$/u.test(spelling)
+            ? {code: 'UNKNOWN_UNIT', start: unitStart, end: input.length}
+            : {code: 'DIALECT_SYNTAX', start: 0, end: input.length};
+    }
+    const value = Number(text);
+    if (!Number.isFinite(value)) return {code: 'INVALID_NUMBER', start: 0, end: unitStart};
+    return [{...entry, value, text, unit: spelling, start: 0, valueEnd: unitStart, unitStart, end: input.length}];
+}
+
+const SCANNERS: Record<DurationDialect, (input: string) => DialectToken[] | DialectFailure> = {
+    go: scanGo,
+    prometheus: scanPrometheus,
+    systemd: scanSystemd,
+    css: scanCss,
+};
+
+/**
+ * Scan a duration written in another ecosystem's syntax.
+ * @param input The duration string, without surrounding whitespace.
+ * @param dialect The dialect.
+ * @returns The tokens, or why the string is invalid.
+ * @throws Error If the dialect is unknown.
+ */
+export function scanDialect(input: string, dialect: DurationDialect): DialectToken[] | DialectFailure {
+    if (!Object.hasOwn(SCANNERS, dialect)) throw new Error(`parseDurationMs: unknown dialect "${dialect}"`);
+    return input ? SCANNERS[dialect](input) : {code: 'DIALECT_SYNTAX', start: 0, end: 0};
+}
+
+/**
+ * Write an integer with `precision` implied decimals, dropping trailing zeros ("1500", 3 => "1.5").
+ */
+function fixed(n: bigint, precision: number): string {
+    const divisor = 10n ** BigInt(precision);
+    const fraction = String(n % divisor).padStart(precision, '0').replace(/0+$/, '');
+    return `${n / divisor}${fraction && '.'}${fraction}`;
+}
+
+/**
+ * Convert milliseconds to a whole number of smaller units (10 ** `places` per millisecond).
+ */
+function toInteger(ms: number, places: number): bigint {
+    if (!Number.isFinite(ms)) throw new Error(`formatDurationMs: invalid duration "${ms}"`);
+    return roundDecimal(shift(fromNumber(ms), places), 'half-even');
+}
+
+/**
+ * Throw unless a nanosecond count fits Go's and Prometheus' `time.Duration`.
+ */
+function checkInt64(ns: bigint, ms: number, dialect: DurationDialect): void {
+    if (ns > MAX_NS || ns < -MAX_NS - 1n) {
+        throw new Error(`formatDurationMs: duration "${ms}" is out of range for the ${dialect} dialect`);
+    }
+}
+
+/** Go's `Duration.String`: "1h2m3.5s", "1.5ms", "0s". */
+function formatGo(ms: number): string {
+    const ns = toInteger(ms, 6);
+    checkInt64(ns, ms, 'go');
+    if (ns === 0n) return '0s';
+    const abs = ns < 0n ? -ns : ns;
+    let out: string;
+    if (abs < 1_000n) {
+        out = `${abs}ns`;
+    } else if (abs < 1_000_000n) {
+        out = `${fixed(abs, 3)}µs`;
+    } else if (abs < 1_000_000_000n) {
+        out = `${fixed(abs, 6)}ms`;
+    } else {
+        // Minutes are written once there are any, and hours once there are any: "1h0m0s"
+        const minutes = abs / 60_000_000_000n;
+        out = `${fixed(abs % 60_000_000_000n, 9)}s`;
+        if (minutes > 0n) out = `${minutes % 60n}m${out}`;
+        if (minutes >= 60n) out = `${minutes / 60n}h${out}`;
+    }
+    return ns < 0n ? `-${out}` : out;
+}
+
+/** Prometheus' `model.Duration.String`: "1d2h", "1w", "0s"; sub-millisecond parts are truncated. */
+function formatPrometheus(ms: number): string {
+    if (ms < 0) throw new Error(`formatDurationMs: negative duration "${ms}" has no prometheus form`);
+    checkInt64(toInteger(ms, 6), ms, 'prometheus');
+    let rest = Math.trunc(ms);
+    if (rest === 0) return '0s';
+    let out = '';
+    for (const [spelling, {size}] of PROMETHEUS_UNITS) {
+        // Like Prometheus, only use years and weeks if they divide evenly ("90d", not "12w6d")
+        if ((spelling === 'y' || spelling === 'w') && rest % size !== 0) continue;
+        const count = Math.floor(rest / size);
+        if (count > 0) {
+            out += `${count}${spelling}`;
+            rest -= count * size;
+        }
+    }
+    return out;
+}
+
+/** systemd's `format_timespan` units, in microseconds. */
+const SYSTEMD_FORMAT_UNITS: readonly (readonly [string, bigint])[] = [
+    ['y', 31_557_600_000_000n],
+    ['month', 2_629_800_000_000n],
+    ['w', 604_800_000_000n],
+    ['d', 86_400_000_000n],
+    ['h', 3_600_000_000n],
+    ['min', 60_000_000n],
+    ['s', 1_000_000n],
+    ['ms', 1_000n],
+    ['us', 1n],
+];
+
+/** systemd's `format_timespan` at microsecond accuracy: "1min 30s", "1.500000s", "infinity". */
+function formatSystemd(ms: number): string {
+    if (ms === Infinity) return 'infinity';
+    if (ms < 0) throw new Error(`formatDurationMs: negative duration "${ms}" has no systemd form`);
+    let rest = toInteger(ms, 3);
+    if (rest === 0n) return '0';
+    const parts: string[] = [];
+    for (const [spelling, size] of SYSTEMD_FORMAT_UNITS) {
+        if (rest === 0n) break;
+        if (rest < size) continue;
+        // Under a minute, a remainder is written as a fraction of the current unit, with all its digits
+        if (rest < 60_000_000n && rest % size > 0n) {
+            const digits = String(size).length - 1;
+            parts.push(`${rest / size}.${String(rest % size).padStart(digits, '0')}${spelling}`);
+            break;
+        }
+        parts.push(`${rest / size}${spelling}`);
+        rest %= size;
+    }
+    return parts.join(' ');
+}
+
+/** A CSS `<time>`: whole seconds as "2s", anything else in milliseconds ("250ms"). */
+function formatCss(ms: number): string {
+    if (!Number.isFinite(ms)) throw new Error(`formatDurationMs: invalid duration "${ms}"`);
+    if (ms === 0) return '0s';
+    return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+const FORMATTERS: Record<DurationDialect, (ms: number) => string> = {
+    go: formatGo,
+    prometheus: formatPrometheus,
+    systemd: formatSystemd,
+    css: formatCss,
+};
+
+/**
+ * Format a duration the way another ecosystem writes it.
+ * @param ms The duration in milliseconds.
+ * @param dialect The dialect.
+ * @returns A string the dialect's own parser accepts.
+ * @throws Error If the dialect is unknown, or it cannot express the duration.
+ */
+export function formatDialect(ms: number, dialect: DurationDialect): string {
+    if (!Object.hasOwn(FORMATTERS, dialect)) throw new Error(`formatDurationMs: unknown dialect "${dialect}"`);
+    if (typeof ms !== 'number' || Number.isNaN(ms)) throw new Error(`formatDurationMs: invalid duration "${ms}"`);
+    return FORMATTERS[dialect](ms);
+}
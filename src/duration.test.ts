@@ -0,0 +1,174 @@
+import {describe, it, expect, afterEach, vi} from 'vitest';
+import {Duration, DurationParseError, type DurationInput} from './index.js';
+
+describe('Duration', () => {
+    describe('from', () => {
+        const cases: {input: DurationInput; expected: number}[] = [
+            {input: 1500, expected: 1_500},
+            {input: 1500.5, expected: 1_501},
+            {input: -0.4, expected: 0},
+            {input: '1h 30m', expected: 5_400_000},
+            {input: 'PT1M', expected: 60_000},
+            {input: {hours: 1, minutes: 30}, expected: 5_400_000},
+            {input: {weeks: 1, days: 1}, expected: 691_200_000},
+            {input: {seconds: 1, milliseconds: 250, microseconds: 500}, expected: 1_251},
+            {input: {nanoseconds: 1_500_000}, expected: 2},
+            {input: {hours: 1, minutes: -30}, expected: 1_800_000},
+            {input: {}, expected: 0},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`${JSON.stringify(input)}`, () => {
+                expect(Duration.from(input).toMilliseconds()).toBe(expected);
+            });
+        }
+
+        it('returns Duration instances as they are', () => {
+            const d = Duration.parse('5m');
+            expect(Duration.from(d)).toBe(d);
+        });
+
+        it('reads Temporal.Duration-shaped objects with getters', () => {
+            class FakeTemporalDuration {
+                get years() { return 0; }
+                get months() { return 0; }
+                get days() { return 1; }
+                get hours() { return 2; }
+            }
+            expect(Duration.from(new FakeTemporalDuration()).toMilliseconds()).toBe(93_600_000);
+        });
+
+        it('rejects years and months unless a calendar policy is set', () => {
+            expect(() => Duration.from({months: 1})).toThrowError(
+                'Duration.from: months have no fixed length; set the "calendar" option to "fixed" or "average" to accept them',
+            );
+            expect(Duration.from({months: 1}, {calendar: 'fixed'}).toMilliseconds()).toBe(2_592_000_000);
+            expect(Duration.from({years: 1}, {calendar: 'average'}).toMilliseconds()).toBe(31_556_952_000);
+        });
+
+        it('rejects invalid values', () => {
+            expect(() => Duration.from(Number.NaN)).toThrowError('Duration.from: invalid duration "NaN"');
+            expect(() => Duration.from({hours: '1' as unknown as number})).toThrowError('Duration.from: invalid hours "1"');
+            expect(() => Duration.from(null as unknown as number)).toThrowError(
+                'Duration.from: expected a duration, number, string or object, got null',
+            );
+            expect(() => Duration.from('5 minuts')).toThrowError(DurationParseError);
+        });
+
+        it('applies parsing options to strings', () => {
+            expect(Duration.parse('1mo', {calendar: 'fixed'}).toMilliseconds()).toBe(2_592_000_000);
+            expect(Duration.from('1,5 Stunden', {locale: 'de'}).toMilliseconds()).toBe(5_400_000);
+        });
+    });
+
+    describe('arithmetic', () => {
+        const d = Duration.parse('1h');
+
+        it('returns new durations', () => {
+            expect(d.plus('30m').toMilliseconds()).toBe(5_400_000);
+            expect(d.minus({minutes: 90}).toMilliseconds()).toBe(-1_800_000);
+            expect(d.multiply(1.5).toMilliseconds()).toBe(5_400_000);
+            expect(d.divide(7).toMilliseconds()).toBe(514_286);
+            expect(d.negate().toMilliseconds()).toBe(-3_600_000);
+            expect(d.negate().abs().toMilliseconds()).toBe(3_600_000);
+            expect(d.toMilliseconds()).toBe(3_600_000);
+        });
+
+        it('never produces negative zero', () => {
+            expect(Object.is(Duration.ZERO.negate().toMilliseconds(), 0)).toBe(true);
+            expect(Object.is(d.multiply(-0).toMilliseconds(), 0)).toBe(true);
+        });
+
+        it('rejects invalid operands', () => {
+            expect(() => d.divide(0)).toThrowError('Duration.divide: division by zero');
+            expect(() => d.multiply(Infinity)).toThrowError('Duration.multiply: invalid number "Infinity"');
+            expect(() => Duration.from(Number.MAX_VALUE).plus(Number.MAX_VALUE)).toThrowError(
+                'Duration.plus: invalid duration "Infinity"',
+            );
+        });
+
+        it('is immutable', () => {
+            expect(Object.isFrozen(d)).toBe(true);
+            expect(Object.isFrozen(Duration.ZERO)).toBe(true);
+        });
+    });
+
+    describe('comparison', () => {
+        it('compares lengths', () => {
+            const d = Duration.parse('90m');
+            expect(d.compareTo('1h')).toBe(1);
+            expect(d.compareTo('2h')).toBe(-1);
+            expect(d.compareTo({hours: 1.5})).toBe(0);
+            expect(d.equals('1h 30m')).toBe(true);
+            expect(d.equals(5_400_001)).toBe(false);
+            expect(Duration.ZERO.isZero()).toBe(true);
+            expect(d.isZero()).toBe(false);
+            expect(d.negate().isNegative()).toBe(true);
+        });
+
+        it('sorts with Duration.compare', () => {
+            const sorted = ['1h', '5m', '-1s', '30s'].map((s) => Duration.parse(s)).sort(Duration.compare);
+            expect(sorted.map(String)).toEqual(['-1s', '30s', '5m', '1h']);
+        });
+
+        it('compares with relational operators through valueOf', () => {
+            expect(Duration.parse('1m') < Duration.parse('1h')).toBe(true);
+            expect(+Duration.parse('1s')).toBe(1_000);
+        });
+    });
+
+    describe('conversion', () => {
+        const d = Duration.parse('1h 30m 15s 250ms');
+
+        it('converts to units', () => {
+            expect(d.toMilliseconds()).toBe(5_415_250);
+            expect(d.toSeconds()).toBe(5_415.25);
+            expect(Duration.parse('90m').to('h')).toBe(1.5);
+            expect(Duration.parse('90m').to('hours')).toBe(1.5);
+            expect(Duration.parse('1w').to('d')).toBe(7);
+            expect(Duration.parse('1500ms').to('us')).toBe(1_500_000);
+            expect(Duration.parse('1500ms').to('ns')).toBe(1_500_000_000);
+        });
+
+        it('rejects unknown and calendar units', () => {
+            expect(() => d.to('x' as 'h')).toThrowError('Duration.to: unknown unit "x"');
+            expect(() => d.to('mo' as 'h')).toThrowError('Duration.to: calendar unit "mo" has no fixed length');
+            expect(() => d.to('years' as 'h')).toThrowError('Duration.to: calendar unit "years" has no fixed length');
+            expect(() => d.to('toString' as 'h')).toThrowError('Duration.to: unknown unit "toString"');
+        });
+
+        it('serializes as strings that parse back', () => {
+            expect(d.toString()).toBe('1h 30m 15s 250ms');
+            expect(`${d}`).toBe('1h 30m 15s 250ms');
+            expect(d.toJSON()).toBe('PT1H30M15.25S');
+            expect(JSON.stringify({d})).toBe('{"d":"PT1H30M15.25S"}');
+            expect(Duration.parse(d.toString()).equals(d)).toBe(true);
+            expect(Duration.parse(d.toJSON()).equals(d)).toBe(true);
+            expect(Duration.parse('-1h 30m').toString()).toBe('-30m');
+        });
+    });
+
+    describe('toTemporal', () => {
+        afterEach(() => {
+            vi.unstubAllGlobals();
+        });
+
+        it('passes hours and smaller fields to the global Temporal.Duration.from', () => {
+            const from = vi.fn((fields: object) => ({...fields, kind: 'Temporal.Duration'}));
+            vi.stubGlobal('Temporal', {Duration: {from}});
+            expect(Duration.parse('-1d -2h -3m -4.5s').toTemporal()).toEqual({
+                hours: -26,
+                minutes: -3,
+                seconds: -4,
+                milliseconds: -500,
+                kind: 'Temporal.Duration',
+            });
+            expect(Duration.from(Duration.ZERO.toTemporal()).isZero()).toBe(true);
+        });
+
+        it('throws without Temporal', () => {
+            vi.stubGlobal('Temporal', undefined);
+            expect(() => Duration.ZERO.toTemporal()).toThrowError(/^Duration\.toTemporal: Temporal is not available/);
+        });
+    });
+});
@@ -0,0 +1,335 @@
+import {
+    calendarUnitMs,
+    durationUnitMs,
+    formatDurationMs,
+    isDurationUnit,
+    parseDurationMs,
+    toIsoDuration,
+    type CalendarDurationUnit,
+    type DurationUnit,
+    type ParseDurationOptions,
+} from './index.js';
+
+/**
+ * Fields of a `Temporal.Duration`, or of any object shaped like one. Missing fields
+ * count as zero; each field carries its own sign.
+ */
+export interface DurationLike {
+    years?: number;
+    months?: number;
+    weeks?: number;
+    days?: number;
+    hours?: number;
+    minutes?: number;
+    seconds?: number;
+    milliseconds?: number;
+    microseconds?: number;
+    nanoseconds?: number;
+}
+
+/** Anything `Duration.from` accepts: a duration, milliseconds, a duration string or a `DurationLike`. */
+export type DurationInput = Duration | number | string | DurationLike;
+
+/** Milliseconds per fixed-length `DurationLike` field. */
+const FIELD_MS = {
+    weeks: 604_800_000,
+    days: 86_400_000,
+    hours: 3_600_000,
+    minutes: 60_000,
+    seconds: 1_000,
+    milliseconds: 1,
+    microseconds: 0.001,
+    nanoseconds: 0.000_001,
+} as const;
+
+/** Calendar fields and the entry of `calendarUnitMs` their length is looked up in. */
+const CALENDAR_FIELDS = {years: 'year', months: 'month'} as const;
+
+/** The part of the `Temporal` global that `toTemporal` uses. */
+interface TemporalGlobal {
+    Duration: { from(fields: DurationLike): Required<DurationLike> };
+}
+
+/**
+ * Read a numeric field of a `DurationLike`.
+ * @param like The object.
+ * @param name The field name.
+ * @returns The value, or 0 if the field is missing.
+ * @throws Error If the field is not a finite number.
+ */
+function field(like: DurationLike, name: keyof DurationLike): number {
+    const value: unknown = like[name];
+    if (value === undefined) return 0;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Duration.from: invalid ${name} "${String(value)}"`);
+    }
+    return value;
+}
+
+/**
+ * Sum the fields of a `DurationLike` in milliseconds.
+ * @param like The object.
+ * @param options Parsing options; only `calendar` applies.
+ * @returns The total, rounded to whole milliseconds.
+ * @throws Error If a field is invalid, or years and months are set without a `calendar` policy.
+ */
+function likeToMs(like: DurationLike, options: ParseDurationOptions): number {
+    let total = 0;
+    for (const [name, size] of Object.entries(FIELD_MS) as [keyof typeof FIELD_MS, number][]) {
+        total += field(like, name) * size;
+    }
+    for (const [name, kind] of Object.entries(CALENDAR_FIELDS) as [keyof typeof CALENDAR_FIELDS, 'year' | 'month'][]) {
+        const value = field(like, name);
+        if (value === 0) continue;
+        const {calendar = 'reject'} = options;
+        if (calendar === 'reject') {
+            throw new Error(
+                `Duration.from: ${name} have no fixed length; set the "calendar" option to "fixed" or "average" to accept them`,
+            );
+        }
+        total += value * calendarUnitMs[calendar][kind];
+    }
+    return checked('Duration.from', total);
+}
+
+/**
+ * Round a millisecond total to a whole number, rejecting non-finite values.
+ * @param caller The method name for error messages.
+ * @param ms The total.
+ * @returns The rounded total, without negative zero.
+ * @throws Error If the total is not finite.
+ */
+function checked(caller: string, ms: number): number {
+    if (!Number.isFinite(ms)) {
+        throw new Error(`${caller}: invalid duration "${ms}"`);
+    }
+    return Math.round(ms) + 0;
+}
+
+/**
+ * Check an arithmetic operand.
+ * @param caller The method name for error messages.
+ * @param value The operand.
+ * @returns The operand.
+ * @throws Error If the operand is not a finite number.
+ */
+function operand(caller: string, value: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`${caller}: invalid number "${String(value)}"`);
+    }
+    return value;
+}
+
+/**
+ * An immutable length of time, stored as whole milliseconds.
+ *
+ * Arithmetic returns new instances, and `valueOf` returns the milliseconds, so a
+ * `Duration` works where a number of milliseconds is expected at runtime
+ * (`setTimeout(fn, +timeout)`, `a < b`).
+ *
+ * @example
+ * const timeout = Duration.parse('1h 30m').plus('15m');
+ * timeout.to('m');        // 105
+ * timeout.toString();     // "1h 45m"
+ * JSON.stringify(timeout) // "\"PT1H45M\""
+ */
+export class Duration {
+    /** A duration of zero. */
+    static readonly ZERO = new Duration(0);
+
+    readonly #ms: number;
+
+    private constructor(ms: number) {
+        this.#ms = ms;
+        Object.freeze(this);
+    }
+
+    /**
+     * Parse a duration string.
+     * @param input The duration string.
+     * @param options Parsing options, as for `parseDurationMs`.
+     * @returns The duration.
+     * @throws DurationParseError If the input is invalid.
+     */
+    static parse(input: string, options?: ParseDurationOptions): Duration {
+        return new Duration(parseDurationMs(input, options));
+    }
+
+    /**
+     * Create a duration from milliseconds, a duration string, another `Duration`, or a
+     * `Temporal.Duration` or other object with duration fields (`{hours: 1, minutes: 30}`).
+     *
+     * Years and months have no fixed length: they are rejected unless the `calendar`
+     * option is "fixed" or "average", as when parsing.
+     *
+     * @param input The value to convert.
+     * @param options Parsing options; for objects, only `calendar` applies.
+     * @returns The duration, rounded to whole milliseconds.
+     * @throws DurationParseError If a string is invalid.
+     * @throws Error If a number or field is not finite, or years and months are rejected.
+     */
+    static from(input: DurationInput, options: ParseDurationOptions = {}): Duration {
+        if (input instanceof Duration) return input;
+        if (typeof input === 'string') return Duration.parse(input, options);
+        if (typeof input === 'number') return new Duration(checked('Duration.from', input));
+        if (typeof input === 'object' && input !== null) return new Duration(likeToMs(input, options));
+        throw new Error(`Duration.from: expected a duration, number, string or object, got ${input === null ? 'null' : typeof input}`);
+    }
+
+    /**
+     * Compare two durations, for use with `Array.prototype.sort`.
+     * @param a The first duration.
+     * @param b The second duration.
+     * @returns -1, 0 or 1.
+     */
+    static compare(a: DurationInput, b: DurationInput): -1 | 0 | 1 {
+        return Duration.from(a).compareTo(b);
+    }
+
+    /**
+     * Add a duration.
+     * @param other The duration to add (anything `Duration.from` accepts).
+     * @returns The sum.
+     */
+    plus(other: DurationInput): Duration {
+        return new Duration(checked('Duration.plus', this.#ms + Duration.from(other).#ms));
+    }
+
+    /**
+     * Subtract a duration.
+     * @param other The duration to subtract (anything `Duration.from` accepts).
+     * @returns The difference.
+     */
+    minus(other: DurationInput): Duration {
+        return new Duration(checked('Duration.minus', this.#ms - Duration.from(other).#ms));
+    }
+
+    /**
+     * Multiply by a number.
+     * @param factor The factor.
+     * @returns The product, rounded to whole milliseconds.
+     * @throws Error If the factor is not finite.
+     */
+    multiply(factor: number): Duration {
+        return new Duration(checked('Duration.multiply', this.#ms * operand('Duration.multiply', factor)));
+    }
+
+    /**
+     * Divide by a number.
+     * @param divisor The divisor.
+     * @returns The quotient, rounded to whole milliseconds.
+     * @throws Error If the divisor is zero or not finite.
+     */
+    divide(divisor: number): Duration {
+        if (operand('Duration.divide', divisor) === 0) {
+            throw new Error('Duration.divide: division by zero');
+        }
+        return new Duration(checked('Duration.divide', this.#ms / divisor));
+    }
+
+    /** @returns The duration with the opposite sign. */
+    negate(): Duration {
+        return new Duration(0 - this.#ms);
+    }
+
+    /** @returns The duration without its sign. */
+    abs(): Duration {
+        return this.#ms < 0 ? this.negate() : this;
+    }
+
+    /**
+     * Compare with another duration.
+     * @param other The duration to compare with (anything `Duration.from` accepts).
+     * @returns -1 if this duration is shorter, 1 if it is longer, 0 if they are equal.
+     */
+    compareTo(other: DurationInput): -1 | 0 | 1 {
+        const ms = Duration.from(other).#ms;
+        return this.#ms < ms ? -1 : this.#ms > ms ? 1 : 0;
+    }
+
+    /**
+     * Check if another duration has the same length.
+     * @param other The duration to compare with (anything `Duration.from` accepts).
+     * @returns True if both are the same number of milliseconds.
+     */
+    equals(other: DurationInput): boolean {
+        return this.compareTo(other) === 0;
+    }
+
+    /** @returns True if the duration is zero. */
+    isZero(): boolean {
+        return this.#ms === 0;
+    }
+
+    /** @returns True if the duration is less than zero. */
+    isNegative(): boolean {
+        return this.#ms < 0;
+    }
+
+    /** @returns The duration in milliseconds. */
+    toMilliseconds(): number {
+        return this.#ms;
+    }
+
+    /** @returns The duration in seconds, with a fraction. */
+    toSeconds(): number {
+        return this.#ms / 1_000;
+    }
+
+    /**
+     * Convert to a unit.
+     * @param unit A fixed-length unit ("h", "minutes", "us", ...).
+     * @returns The duration in that unit, with a fraction.
+     * @throws Error If the unit is unknown, or is a month or year.
+     */
+    to(unit: Exclude<DurationUnit, CalendarDurationUnit>): number {
+        if (!Object.hasOwn(durationUnitMs, unit)) {
+            throw new Error(isDurationUnit(unit)
+                ? `Duration.to: calendar unit "${unit}" has no fixed length`
+                : `Duration.to: unknown unit "${String(unit)}"`);
+        }
+        return this.#ms / durationUnitMs[unit];
+    }
+
+    /**
+     * Create a `Temporal.Duration` with the same length, in hours and smaller units.
+     * Uses the global `Temporal` (native or a polyfill installed globally).
+     * @returns The `Temporal.Duration`.
+     * @throws Error If `Temporal` is not available.
+     */
+    toTemporal(): Required<DurationLike> {
+        const temporal = (globalThis as { Temporal?: TemporalGlobal }).Temporal;
+        if (!temporal) {
+            throw new Error('Duration.toTemporal: Temporal is not available; pass toJSON() to Temporal.Duration.from instead');
+        }
+        const sign = this.#ms < 0 ? -1 : 1;
+        let rest = Math.abs(this.#ms);
+        const hours = Math.floor(rest / FIELD_MS.hours);
+        rest -= hours * FIELD_MS.hours;
+        const minutes = Math.floor(rest / FIELD_MS.minutes);
+        rest -= minutes * FIELD_MS.minutes;
+        const seconds = Math.floor(rest / FIELD_MS.seconds);
+        const milliseconds = rest - seconds * FIELD_MS.seconds;
+        return temporal.Duration.from({
+            hours: sign * hours + 0,
+            minutes: sign * minutes + 0,
+            seconds: sign * seconds + 0,
+            milliseconds: sign * milliseconds + 0,
+        });
+    }
+
+    /** @returns The duration in milliseconds, so that `+duration` and `a < b` work. */
+    valueOf(): number {
+        return this.#ms;
+    }
+
+    /** @returns The duration formatted by `formatDurationMs` ("1h 30m"). */
+    toString(): string {
+        return formatDurationMs(this.#ms);
+    }
+
+    /** @returns The duration as an ISO 8601 string ("PT1H30M"), which `Duration.parse` and `Temporal.Duration.from` accept. */
+    toJSON(): string {
+        return toIsoDuration(this.#ms);
+    }
+}
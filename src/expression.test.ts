@@ -0,0 +1,232 @@
+import {describe, it, expect} from 'vitest';
+import {
+    parseDurationMs,
+    tryParseDurationMs,
+    createDurationParser,
+    DurationParseError,
+    type DurationErrorCode,
+} from './index.js';
+
+describe('parseDurationMs with expressions', () => {
+    const parse = (input: string) => parseDurationMs(input, {expression: true});
+
+    describe('values', () => {
+        const cases: {input: string; expected: number}[] = [
+            {input: '2h - 15m', expected: 6_300_000},
+            {input: '3 * 20m', expected: 3_600_000},
+            {input: '20m * 3', expected: 3_600_000},
+            {input: '(1h + 30m) / 2', expected: 2_700_000},
+            {input: '1d - 1ms', expected: 86_399_999},
+            {input: '1h 30m * 2', expected: 10_800_000},
+            {input: '1h30m + 15s', expected: 5_415_000},
+            {input: '1h + 30m * 2', expected: 7_200_000},
+            {input: '(1h + 30m) * 2', expected: 10_800_000},
+            {input: '2h - 30m - 15m', expected: 4_500_000},
+            {input: '1h / 4 / 3', expected: 300_000},
+            {input: '-(10m)', expected: -600_000},
+            {input: '-10m + 1h', expected: 3_000_000},
+            {input: '1h / (2 * 3)', expected: 600_000},
+            {input: '(1h / 30m) * 15s', expected: 30_000},
+            {input: '1.5h * 2', expected: 10_800_000},
+            {input: '10ms / 3', expected: 3},
+            {input: '1ms / 2', expected: 1},
+            {input: '((5m))', expected: 300_000},
+            {input: '01:30 * 2', expected: 10_800_000},
+            {input: '1:30:15.5 - 15.5s', expected: 5_400_000},
+            {input: 'PT1H - 15m', expected: 2_700_000},
+            {input: '-P1D / 2', expected: -43_200_000},
+            {input: '(PT1H30M + 01:30) / 3', expected: 3_600_000},
+            {input: 'pt-5m * 2', expected: -600_000},
+            {input: 'PT0.5S * 3', expected: 1_500},
+            // Plain durations parse as without the option
+            {input: '1h -30m', expected: 1_800_000},
+            {input: '1500', expected: 1_500},
+            {input: '01:30', expected: 5_400_000},
+            {input: 'PT1H', expected: 3_600_000},
+            {input: '', expected: 0},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}"`, () => {
+                expect(parse(input)).toBe(expected);
+            });
+        }
+    });
+
+    describe('errors', () => {
+        const cases: {input: string; code: DurationErrorCode; message: string; substring: string}[] = [
+            {
+                input: '1h * 2h',
+                code: 'TYPE_MISMATCH',
+                message: 'parseDurationMs: cannot multiply a duration by a duration in "1h * 2h"',
+                substring: '1h * 2h',
+            },
+            {
+                input: '5m + (2 / 1h)',
+                code: 'TYPE_MISMATCH',
+                message: 'parseDurationMs: cannot divide a number by a duration in "5m + (2 / 1h)"',
+                substring: '2 / 1h',
+            },
+            {
+                input: '1h + 5',
+                code: 'TYPE_MISMATCH',
+                message: 'parseDurationMs: cannot add a duration and a number in "1h + 5"',
+                substring: '1h + 5',
+            },
+            {
+                input: '1h - 5',
+                code: 'TYPE_MISMATCH',
+                message: 'parseDurationMs: cannot subtract a number from a duration in "1h - 5"',
+                substring: '1h - 5',
+            },
+            {
+                input: '2 * 3',
+                code: 'TYPE_MISMATCH',
+                message: 'parseDurationMs: expression "2 * 3" is a number, not a duration',
+                substring: '2 * 3',
+            },
+            {
+                input: '1h / 30m',
+                code: 'TYPE_MISMATCH',
+                message: 'parseDurationMs: expression "1h / 30m" is a number, not a duration',
+                substring: '1h / 30m',
+            },
+            {
+                input: '1h / (2 - 2)',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: division by zero in "1h / (2 - 2)"',
+                substring: '(2 - 2)',
+            },
+            {
+                input: '1h * * 2',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: unexpected "*" in "1h * * 2"',
+                substring: '*',
+            },
+            {
+                input: '1h +',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: unexpected end of expression in "1h +"',
+                substring: '',
+            },
+            {
+                input: '(1h + 30m',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: missing ")" in "(1h + 30m"',
+                substring: '(',
+            },
+            {
+                input: '1h + 30m)',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: unexpected ")" in "1h + 30m)"',
+                substring: ')',
+            },
+            {
+                input: '2 h * x',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: unexpected "x" in "2 h * x"',
+                substring: 'x',
+            },
+            {
+                input: '1h % 2',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: unexpected "%" in "1h % 2"',
+                substring: '%',
+            },
+            {
+                input: '2h - 10 foo',
+                code: 'UNKNOWN_UNIT',
+                message: 'parseDurationMs: unknown unit "foo" in "10 foo"',
+                substring: 'foo',
+            },
+            {
+                input: '2h * 1,5',
+                code: 'INVALID_EXPRESSION',
+                message: 'parseDurationMs: unexpected "1,5" in "2h * 1,5"',
+                substring: '1,5',
+            },
+            {
+                input: '1h + 01:99',
+                code: 'INVALID_CLOCK_RANGE',
+                message: 'parseDurationMs: invalid ":" duration "01:99"',
+                substring: '99',
+            },
+            {
+                input: '1h + PT1X',
+                code: 'INVALID_ISO_DURATION',
+                message: 'parseDurationMs: invalid ISO 8601 duration "PT1X"',
+                substring: 'PT1X',
+            },
+            {
+                input: '1h + 1mo',
+                code: 'CALENDAR_UNIT',
+                message:
+                    'parseDurationMs: calendar unit "mo" in "1mo" has no fixed length; ' +
+                    'set the "calendar" option to "fixed" or "average" to accept it',
+                substring: 'mo',
+            },
+        ];
+
+        for (const {input, code, message, substring} of cases) {
+            it(`"${input}" -> ${code}`, () => {
+                let caught: unknown;
+                try {
+                    parse(input);
+                } catch (err) {
+                    caught = err;
+                }
+                expect(caught).toBeInstanceOf(DurationParseError);
+                expect(caught).toMatchObject({code, message, input, substring});
+            });
+        }
+    });
+
+    it('is off by default', () => {
+        expect(tryParseDurationMs('2h - 15m')).toMatchObject({ok: false, error: {code: 'TRAILING_JUNK'}});
+        expect(tryParseDurationMs('2h - 15m', {expression: true})).toEqual({ok: true, ms: 6_300_000});
+    });
+
+    it('applies parsing options to each duration', () => {
+        expect(parseDurationMs('1mo / 2', {expression: true, calendar: 'fixed'})).toBe(1_296_000_000);
+        expect(parseDurationMs('2 Stunden - 30 Minuten', {expression: true, locale: 'de'})).toBe(5_400_000);
+    });
+
+    it('uses the locale decimal separator in every operand', () => {
+        const de = (input: string) => parseDurationMs(input, {expression: true, locale: 'de'});
+        expect(de('1,5h * 2')).toBe(10_800_000);
+        expect(de('2h * 1,5')).toBe(10_800_000);
+        expect(de('00:00:01,5 * 2')).toBe(3_000);
+        expect(de('PT1,5S * 2')).toBe(3_000);
+        expect(() => de('2h * 1.5')).toThrowError('parseDurationMs: unexpected "1.5" in "2h * 1.5"');
+        expect(() => parse('1,5h * 2')).toThrowError(DurationParseError);
+    });
+
+    it('uses the colon setting for colon operands', () => {
+        const parser = createDurationParser({colon: false});
+        expect(() => parser.parse('01:30 * 2', {expression: true})).toThrowError(DurationParseError);
+        expect(parser.parse('PT1M30S * 2', {expression: true})).toBe(180_000);
+    });
+
+    it('rounds the result once', () => {
+        expect(parse('1.4ms + 1.4ms')).toBe(3);
+        expect(parseDurationMs('5ms / 2', {expression: true, rounding: 'floor'})).toBe(2);
+        expect(parseDurationMs('-5ms / 2', {expression: true, rounding: 'half-even'})).toBe(-2);
+        expect(parseDurationMs('-5ms / 2', {expression: true, rounding: 'round'})).toBe(parseDurationMs('-5ms / 2', {expression: true}));
+        expect(parseDurationMs('-5ms / 2', {expression: true, rounding: 'half-away'})).toBe(-3);
+    });
+
+    it('applies unit rules to operands and bounds to the result', () => {
+        expect(() => parseDurationMs('1h 1h * 2', {expression: true, strict: true})).toThrowError(
+            expect.objectContaining({code: 'DUPLICATE_UNIT', start: 4, end: 5}),
+        );
+        expect(parseDurationMs('3h - 2h', {expression: true, strict: {max: '90m'}})).toBe(3_600_000);
+        expect(() => parseDurationMs('1h * 2', {expression: true, strict: {max: '90m'}})).toThrowError(
+            'parseDurationMs: duration "1h * 2" is greater than the maximum "90m"',
+        );
+    });
+
+    it('uses the parser unit table', () => {
+        const parser = createDurationParser({units: {tick: 50}});
+        expect(parser.parse('3 * 2tick', {expression: true})).toBe(300);
+    });
+});
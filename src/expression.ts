@@ -0,0 +1,137 @@
+/** Binary operators of duration expressions. */
+export type ExpressionOperator = '+' | '-' | '*' | '/';
+
+/** A parsed duration expression; offsets are into the input. */
+export type ExpressionNode =
+    | { kind: 'number'; value: number; start: number; end: number }
+    /** "<number> <unit>" tokens, a colon or an ISO 8601 duration, evaluated with the parser's grammar ("1h 30m", "01:30"). */
+    | { kind: 'duration'; start: number; end: number }
+    | { kind: 'group'; expression: ExpressionNode; start: number; end: number }
+    | { kind: 'unary'; operator: '+' | '-'; operand: ExpressionNode; start: number; end: number }
+    | { kind: 'binary'; operator: ExpressionOperator; left: ExpressionNode; right: ExpressionNode; start: number; end: number };
+
+/** Why an expression could not be parsed; offsets are into the input. */
+export interface ExpressionSyntaxError {
+    /** What is wrong, without the input ('unexpected "*"'). */
+    detail: string;
+    start: number;
+    end: number;
+}
+
+/** What `parseExpression` needs to know about the grammar of the parser. */
+export interface ExpressionGrammar {
+    /** Separator of fractional number operands; duration operands are checked by the parser. */
+    decimalSeparator: '.' | ',';
+}
+
+interface Lexeme {
+    kind: 'number' | 'word' | 'duration' | 'operator' | 'other';
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Colon durations ("1:30:15,5") and ISO 8601 durations ("PT1H", "PT-5M"), numbers with
+ * either decimal separator, unit words, operators and parentheses, and any other single character.
+ */
+const LEXEME_REG_EX =
+    /(\d+(?:[.,]\d+)?(?::\d+(?:[.,]\d+)?)+|[Pp](?=[Tt]?[-+]?\d)(?:[\dA-Za-z.,]|[-+](?=\d))*)|(\d+(?:[.,]\d+)?)|(\p{L}+)|([-+*/()])|(\S)/gu;
+
+const PRECEDENCE: Record<ExpressionOperator, number> = {'+': 1, '-': 1, '*': 2, '/': 2};
+
+/** Thrown inside `parseExpression` to unwind to its caller. */
+class SyntaxFailure {
+    constructor(readonly error: ExpressionSyntaxError) {}
+}
+
+/**
+ * Split an expression into lexemes; whitespace only separates them.
+ */
+function tokenize(input: string): Lexeme[] {
+    return [...input.matchAll(LEXEME_REG_EX)].map(match => {
+        const kind = match[1] !== undefined ? 'duration'
+            : match[2] !== undefined ? 'number'
+            : match[3] !== undefined ? 'word'
+            : match[4] !== undefined ? 'operator'
+            : 'other';
+        return {kind, text: match[0], start: match.index, end: match.index + match[0].length};
+    });
+}
+
+/**
+ * Parse a duration expression by precedence climbing.
+ *
+ * Grammar: `expression := unary (("+" | "-" | "*" | "/") unary)*` with the
+ * usual precedence and left associativity, `unary := ("+" | "-") unary | primary`,
+ * `primary := "(" expression ")" | number | (number unit)+ | clock | iso`. Adjacent
+ * "<number> <unit>" pairs form one duration operand, so "1h 30m * 2" is 3 hours.
+ *
+ * @param input The expression.
+ * @param grammar The decimal separator of the parser's locale.
+ * @returns The syntax tree, or where and why it is invalid.
+ */
+export function parseExpression(input: string, grammar: ExpressionGrammar): ExpressionNode | ExpressionSyntaxError {
+    const lexemes = tokenize(input);
+    let i = 0;
+
+    const unexpected = (lexeme: Lexeme | undefined): SyntaxFailure => new SyntaxFailure(lexeme
+        ? {detail: `unexpected "${lexeme.text}"`, start: lexeme.start, end: lexeme.end}
+        : {detail: 'unexpected end of expression', start: input.length, end: input.length});
+
+    const primary = (): ExpressionNode => {
+        const lexeme = lexemes[i];
+        if (lexeme?.text === '(') {
+            i++;
+            const inner = expression(1);
+            const close = lexemes[i];
+            if (close?.text !== ')') {
+                throw close ? unexpected(close) : new SyntaxFailure({detail: 'missing ")"', start: lexeme.start, end: lexeme.end});
+            }
+            i++;
+            return {kind: 'group', expression: inner, start: lexeme.start, end: close.end};
+        }
+        if (lexeme?.kind === 'duration') {
+            i++;
+            return {kind: 'duration', start: lexeme.start, end: lexeme.end};
+        }
+        if (lexeme?.kind !== 'number') throw unexpected(lexeme);
+        if (lexemes[i + 1]?.kind !== 'word') {
+            const separator = /[.,]/.exec(lexeme.text)?.[0];
+            if (separator !== undefined && separator !== grammar.decimalSeparator) throw unexpected(lexeme);
+            i++;
+            return {kind: 'number', value: Number(lexeme.text.replace(',', '.')), start: lexeme.start, end: lexeme.end};
+        }
+        while (lexemes[i]?.kind === 'number' && lexemes[i + 1]?.kind === 'word') i += 2;
+        return {kind: 'duration', start: lexeme.start, end: lexemes[i - 1]!.end};
+    };
+
+    const unary = (): ExpressionNode => {
+        const lexeme = lexemes[i];
+        if (lexeme?.text !== '+' && lexeme?.text !== '-') return primary();
+        i++;
+        const operand = unary();
+        return {kind: 'unary', operator: lexeme.text, operand, start: lexeme.start, end: operand.end};
+    };
+
+    const expression = (minPrecedence: number): ExpressionNode => {
+        let left = unary();
+        for (let lexeme = lexemes[i]; lexeme?.kind === 'operator' && lexeme.text in PRECEDENCE; lexeme = lexemes[i]) {
+            const operator = lexeme.text as ExpressionOperator;
+            if (PRECEDENCE[operator] < minPrecedence) break;
+            i++;
+            const right = expression(PRECEDENCE[operator] + 1);
+            left = {kind: 'binary', operator, left, right, start: left.start, end: right.end};
+        }
+        return left;
+    };
+
+    try {
+        const node = expression(1);
+        if (i < lexemes.length) throw unexpected(lexemes[i]);
+        return node;
+    } catch (err) {
+        if (err instanceof SyntaxFailure) return err.error;
+        throw err;
+    }
+}
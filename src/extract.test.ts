@@ -0,0 +1,125 @@
+import {describe, it, expect} from 'vitest';
+import {
+    extractDurations,
+    iterateDurations,
+    createDurationParser,
+    type DurationMatch,
+    type ExtractDurationsOptions,
+} from './index.js';
+
+/** The matched text and value of each duration. */
+const found = (text: string, options?: ExtractDurationsOptions) =>
+    extractDurations(text, options).map(({text, ms}) => [text, ms]);
+
+describe('extractDurations', () => {
+    describe('finds durations', () => {
+        const cases: {text: string; expected: [string, number][]}[] = [
+            {text: 'took 3.2s', expected: [['3.2s', 3_200]]},
+            {text: 'retry in 5 min', expected: [['5 min', 300_000]]},
+            {text: 'SLA 01:30:00', expected: [['01:30:00', 5_400_000]]},
+            {text: 'waited 1h 30m, then 45 seconds', expected: [['1h 30m', 5_400_000], ['45 seconds', 45_000]]},
+            {text: 'elapsed=1h30m15s.', expected: [['1h30m15s', 5_415_000]]},
+            {text: 'offset -5m applied', expected: [['-5m', -300_000]]},
+            {text: 'backoff (250ms) x3', expected: [['250ms', 250]]},
+            {text: 'window 5-10s', expected: [['10s', 10_000]]},
+            {text: 'waited 2h-3h', expected: [['2h', 7_200_000], ['3h', 10_800_000]]},
+            {text: 'between 1h30m-2h or 5m+10s', expected: [['1h30m', 5_400_000], ['2h', 7_200_000], ['5m', 300_000], ['10s', 10_000]]},
+            {text: 'shift 1h -30m', expected: [['1h -30m', 1_800_000]]},
+            {text: 'lap 00:45.5', expected: []},
+            {text: 'lap 00:00:45.5', expected: [['00:00:45.5', 45_500]]},
+            {text: '2 hours and 30 minutes', expected: [['2 hours', 7_200_000], ['30 minutes', 1_800_000]]},
+            {text: 'took 5s 3 retries', expected: [['5s', 5_000]]},
+            {text: 'took 1 hour\n5 apples', expected: [['1 hour', 3_600_000]]},
+        ];
+
+        for (const {text, expected} of cases) {
+            it(`${JSON.stringify(text)}`, () => {
+                expect(found(text)).toEqual(expected);
+            });
+        }
+    });
+
+    describe('skips false positives', () => {
+        const cases: string[] = [
+            'release v1.5s3',
+            'HTTP h2 and h3',
+            'build_5m and x5m',
+            'value 5s3 and 1h30',
+            'count: 5\nseconds later',
+            'ratio 16:9 and 1:2',
+            'at 2024-01-01T10:30:00Z',
+            'invalid 25:99',
+            'in 2 months',
+            'ship 3 apples',
+            'meet at 5pm',
+            'took 1,500ms total',
+            'key x-5s',
+        ];
+
+        for (const text of cases) {
+            it(`${JSON.stringify(text)}`, () => {
+                expect(found(text)).toEqual([]);
+            });
+        }
+    });
+
+    it('reports offsets into the text', () => {
+        const text = 'retry in 5 min, took 3.2s';
+        const matches = extractDurations(text);
+        expect(matches).toEqual<DurationMatch[]>([
+            {ms: 300_000, text: '5 min', start: 9, end: 14},
+            {ms: 3_200, text: '3.2s', start: 21, end: 25},
+        ]);
+        for (const {text: substring, start, end} of matches) {
+            expect(text.slice(start, end)).toBe(substring);
+        }
+    });
+
+    it('skips times of day when configured', () => {
+        const text = 'at 10:30, until 17:00, 09:15 pm, @ 08:00; SLA 01:30:00';
+        expect(found(text)).toHaveLength(5);
+        expect(found(text, {skipTimesOfDay: true})).toEqual([['01:30:00', 5_400_000]]);
+    });
+
+    it('applies parsing options', () => {
+        expect(found('in 2 months', {calendar: 'fixed'})).toEqual([['2 months', 5_184_000_000]]);
+        expect(found('lap 01:30', {clockLayout: 'm:s'})).toEqual([['01:30', 90_000]]);
+        expect(found('dauerte 1,5 Stunden und 10 Minuten', {locale: 'de'})).toEqual([['1,5 Stunden und 10 Minuten', 6_000_000]]);
+        expect(found('took 2 hours and 30 minutes', {locale: 'en'})).toEqual([['2 hours and 30 minutes', 9_000_000]]);
+        expect(() => extractDurations('1h', {locale: 'xx' as 'en'})).toThrowError('extractDurations: unknown locale "xx"');
+    });
+
+    it('ends a run at a rejected calendar unit', () => {
+        expect(found('1h 2mo')).toEqual([['1h', 3_600_000]]);
+    });
+
+    it('uses the parser unit table', () => {
+        const parser = createDurationParser({units: {tick: 50}, colon: false});
+        expect(parser.extract('wait 3 ticks or 4tick at 01:30').map(({text, ms}) => [text, ms])).toEqual([['4tick', 200]]);
+    });
+});
+
+describe('iterateDurations', () => {
+    it('finds durations lazily', () => {
+        const iterator = iterateDurations('a 1s b 2s c 3s');
+        expect(iterator.next().value).toMatchObject({text: '1s', start: 2});
+        expect(iterator.next().value).toMatchObject({text: '2s', start: 7});
+        expect([...iterator].map(match => match.text)).toEqual(['3s']);
+    });
+
+    it('checks the locale before iterating', () => {
+        expect(() => iterateDurations('1h', {locale: 'xx' as 'en'})).toThrowError('extractDurations: unknown locale "xx"');
+    });
+
+    it('scans large inputs', () => {
+        const text = 'job 42 took 1.5s; '.repeat(10_000);
+        let count = 0;
+        let total = 0;
+        for (const {ms} of iterateDurations(text)) {
+            count++;
+            total += ms;
+        }
+        expect(count).toBe(10_000);
+        expect(total).toBe(15_000_000);
+    });
+});
@@ -0,0 +1,150 @@
+/** A candidate duration found in text; offsets are into the text. */
+export interface TextSpan {
+    kind: 'tokens' | 'clock';
+    start: number;
+    end: number;
+}
+
+/** What `scanText` needs to know about the grammar of the parser. */
+export interface TextGrammar {
+    decimalSeparator: '.' | ',';
+    /** Lowercase words accepted between two tokens. */
+    conjunctions: ReadonlySet<string>;
+    /** Whether a word is an accepted unit spelling. */
+    isUnit: (word: string) => boolean;
+    /** Whether colon durations ("01:30") are looked for. */
+    colon: boolean;
+    /** Skip colon values that read as a time of day ("at 10:30", "10:30 pm"). */
+    skipTimesOfDay: boolean;
+}
+
+/** Compiled patterns for one decimal separator. */
+interface TextPatterns {
+    /**
+     * Where a duration may start: a digit or sign that does not continue a word, number or clock.
+     * A digit before "," is a grouped number ("1,500") and a letter before "-" is a word ("x-5s").
+     */
+    start: RegExp;
+    /** A "<number><unit>" token, on one line. */
+    token: RegExp;
+    /** A clock value with two-digit minutes and seconds, not followed by more of a word or number. */
+    clock: RegExp;
+}
+
+const PATTERNS: Record<TextGrammar['decimalSeparator'], TextPatterns> = {
+    '.': patterns('\\.'),
+    ',': patterns(','),
+};
+
+/** Horizontal whitespace, then a word and more whitespace (a conjunction candidate). */
+const SPACES_REG_EX = /[^\S\r\n]*/y;
+const WORD_REG_EX = /(\p{L}+)[^\S\r\n]+/uy;
+
+/** Anything that continues a word or number past the end of a duration. */
+const WORD_CHAR_REG_EX = /[\p{L}\p{N}_]/u;
+
+/** Words after which a colon value is a time of day. */
+const TIME_PREFIX_REG_EX = /(?:^|[^\p{L}])(?:at|by|until|till|from|to|since|before|after)[^\S\r\n]+$|@[^\S\r\n]*$/iu;
+
+/** "am"/"pm" after a colon value. */
+const TIME_SUFFIX_REG_EX = /^[^\S\r\n]*[ap]\.?m(?![\p{L}\p{N}])/iu;
+
+/**
+ * Compile the patterns for a decimal separator.
+ * @param separator The separator, escaped for a regular expression.
+ * @returns The patterns.
+ */
+function patterns(separator: string): TextPatterns {
+    const num = `[+-]?\\d+(?:${separator}\\d+)?`;
+    return {
+        start: new RegExp(`(?<![\\p{L}\\p{N}_.:]|\\d[,${separator}]|\\p{L}-)[+-]?\\d`, 'gu'),
+        token: new RegExp(`(${num})[^\\S\\r\\n]*(\\p{L}+)`, 'uy'),
+        clock: new RegExp(`[+-]?\\d+:\\d{2}(?::\\d{2}(?:${separator}\\d+)?)?(?![\\p{L}\\p{N}_:]|[.,]\\d)`, 'uy'),
+    };
+}
+
+/**
+ * Match a run of tokens separated by whitespace or conjunctions.
+ * @param text The text.
+ * @param start Where the first token starts.
+ * @param grammar The grammar.
+ * @param token The token pattern.
+ * @returns The end of the last token, or -1 if there is no token at `start`.
+ */
+function matchTokens(text: string, start: number, grammar: TextGrammar, token: RegExp): number {
+    let end = -1;
+    let pos = start;
+    for (;;) {
+        token.lastIndex = pos;
+        let match = token.exec(text);
+        if (!match && end >= 0) {
+            // A conjunction between two tokens ("2 Stunden und 30 Minuten")
+            WORD_REG_EX.lastIndex = pos;
+            const word = WORD_REG_EX.exec(text);
+            if (word && grammar.conjunctions.has(word[1]!.toLowerCase())) {
+                token.lastIndex = WORD_REG_EX.lastIndex;
+                match = token.exec(text);
+            }
+        }
+        if (!match || !grammar.isUnit(match[2]!)) return end;
+        // A sign right after a token joins two durations ("2h-3h") instead of signing the next one
+        if (match.index === end && /^[+-]/.test(match[1]!)) return end;
+        end = token.lastIndex;
+        SPACES_REG_EX.lastIndex = end;
+        SPACES_REG_EX.exec(text);
+        pos = SPACES_REG_EX.lastIndex;
+    }
+}
+
+/**
+ * Check if a colon value reads as a time of day.
+ * @param text The text.
+ * @param start Start of the value.
+ * @param end End of the value.
+ * @returns True if it follows "at", "until", "@", ... or is followed by "am"/"pm".
+ */
+function isTimeOfDay(text: string, start: number, end: number): boolean {
+    return TIME_PREFIX_REG_EX.test(text.slice(Math.max(0, start - 8), start)) ||
+        TIME_SUFFIX_REG_EX.test(text.slice(end, end + 6));
+}
+
+/**
+ * Find the spans of text that look like durations, without parsing them.
+ *
+ * A duration is a run of "<number><unit>" tokens separated by whitespace or
+ * conjunctions, or a colon value ("01:30", "01:30:15.5"). It must not start or
+ * end inside a word, number or identifier ("v1.5s3", "h2"), and it never spans
+ * lines. Tokens with unknown units end a run, as does a sign without whitespace
+ * before it, so "2h-3h" is two durations.
+ *
+ * @param text The text.
+ * @param grammar The grammar.
+ * @returns The spans, in text order.
+ */
+export function* scanText(text: string, grammar: TextGrammar): Generator<TextSpan, void, undefined> {
+    const {start: startRegEx, token, clock} = PATTERNS[grammar.decimalSeparator];
+    // Copied so that interleaved scans of the same grammar do not share `lastIndex`
+    const starts = new RegExp(startRegEx);
+    for (let match = starts.exec(text); match; match = starts.exec(text)) {
+        let start = match.index;
+
+        clock.lastIndex = start;
+        if (grammar.colon && clock.test(text)) {
+            const end = clock.lastIndex;
+            starts.lastIndex = end;
+            if (!grammar.skipTimesOfDay || !isTimeOfDay(text, start, end)) yield {kind: 'clock', start, end};
+            continue;
+        }
+
+        for (;;) {
+            const end = matchTokens(text, start, grammar, token);
+            if (end < 0) break;
+            starts.lastIndex = end;
+            if (WORD_CHAR_REG_EX.test(text.charAt(end))) break;
+            yield {kind: 'tokens', start, end};
+            // The next run starts after a joining sign ("2h-3h"), which `starts` skips as in "x-5s"
+            if (!/[+-]/.test(text.charAt(end))) break;
+            start = end + 1;
+        }
+    }
+}
@@ -1,5 +1,21 @@
 import {describe, it, expect} from 'vitest';
-import {parseDurationMs, isDurationUnit} from './index.js';
+import {
+    parseDurationMs,
+    isDurationUnit,
+    durationUnitMs,
+    calendarUnitMs,
+    formatDurationMs,
+    toIsoDuration,
+    tryParseDurationMs,
+    parseDurationParts,
+    parseDurationNs,
+    validateDuration,
+    DurationParseError,
+    createDurationParser,
+    type DurationErrorCode,
+    type FormatDurationOptions,
+    type ParseDurationOptions,
+} from './index.js';
 
 // Helper to build test tables tersely
 interface Case<I = string, O = number> {
@@ -118,12 +134,23 @@ describe('parseDurationMs', () => {
             {input: '-1d', expected: -86400000},
         ];
 
+        const weekCases: Case[] = [
+            {input: '1w', expected: 604800000},
+            {input: '2 wk', expected: 1209600000},
+            {input: '1 week', expected: 604800000},
+            {input: '3 weeks', expected: 1814400000},
+            {input: '1W', expected: 604800000},
+            {input: '0.5w', expected: 302400000},
+            {input: '-1w', expected: -604800000},
+        ];
+
         const allCases = [
             ...milliCases,
             ...secondCases,
             ...minuteCases,
             ...hourCases,
             ...dayCases,
+            ...weekCases,
         ];
 
         for (const {input, expected} of allCases) {
@@ -170,8 +197,8 @@ describe('parseDurationMs', () => {
             {input: '0.4ms', expected: 0},
             {input: '0.5ms', expected: 1},
             {input: '0.25ms 0.25ms', expected: 1},
-            // Math.round(-0.5) === -0 in JS
-            {input: '-0.5ms', expected: -0},
+            // Math.round(-0.5) === -0 in JS; normalized to 0
+            {input: '-0.5ms', expected: 0},
             {input: '1.2345ms', expected: 1},
             {input: '0.0005s', expected: 1}, // 0.5ms
         ];
@@ -183,6 +210,90 @@ describe('parseDurationMs', () => {
         }
     });
 
+    describe('rounding option', () => {
+        const cases: {input: string; options: ParseDurationOptions; expected: number}[] = [
+            {input: '2.5ms', options: {rounding: 'half-even'}, expected: 2},
+            {input: '3.5ms', options: {rounding: 'half-even'}, expected: 4},
+            {input: '-2.5ms', options: {rounding: 'half-even'}, expected: -2},
+            {input: '-0.5ms', options: {rounding: 'half-even'}, expected: 0},
+            {input: '-1.5ms', options: {rounding: 'round'}, expected: -1},
+            {input: '-1500.5ms', options: {rounding: 'round'}, expected: -1500},
+            {input: '1500.5ms', options: {rounding: 'round'}, expected: 1501},
+            {input: '-1.5ms', options: {rounding: 'half-away'}, expected: -2},
+            {input: '1.5ms', options: {rounding: 'half-away'}, expected: 2},
+            {input: '-1.6ms', options: {rounding: 'round'}, expected: -2},
+            {input: '1.9ms', options: {rounding: 'floor'}, expected: 1},
+            {input: '-1.1ms', options: {rounding: 'floor'}, expected: -2},
+            {input: '1.1ms', options: {rounding: 'ceil'}, expected: 2},
+            {input: '-1.9ms', options: {rounding: 'ceil'}, expected: -1},
+            {input: '-1.9ms', options: {rounding: 'trunc'}, expected: -1},
+            // Exact sums: no floating-point error pushes these across a tie
+            {input: '0.0025s', options: {rounding: 'half-even'}, expected: 2},
+            {input: '1.0005 s', options: {rounding: 'trunc'}, expected: 1000},
+            {input: '00:00:00.0015', options: {rounding: 'half-even'}, expected: 2},
+            {input: 'PT0.0005S', options: {rounding: 'round'}, expected: 1},
+        ];
+
+        for (const {input, options, expected} of cases) {
+            it(`"${input}" ${JSON.stringify(options)} -> ${expected}`, () => {
+                expect(parseDurationMs(input, options)).toBe(expected);
+            });
+        }
+    });
+
+    describe('calendar units (months and years)', () => {
+        const spellings = ['mo', 'mon', 'month', 'months', 'y', 'yr', 'yrs', 'year', 'years'];
+
+        for (const unit of spellings) {
+            it(`rejects "1${unit}" by default`, () => {
+                expect(() => parseDurationMs(`1${unit}`)).toThrowError(
+                    `parseDurationMs: calendar unit "${unit}" in "1${unit}" has no fixed length; ` +
+                    'set the "calendar" option to "fixed" or "average" to accept it',
+                );
+            });
+        }
+
+        const fixedCases: Case[] = [
+            {input: '1mo', expected: 30 * 86400000},
+            {input: '2 months', expected: 60 * 86400000},
+            {input: '1 Mon', expected: 30 * 86400000},
+            {input: '1y', expected: 365 * 86400000},
+            {input: '1 year 1 month', expected: 395 * 86400000},
+            {input: '1.5yrs', expected: 547.5 * 86400000},
+        ];
+
+        for (const {input, expected} of fixedCases) {
+            it(`fixed: "${input}" -> ${expected}`, () => {
+                expect(parseDurationMs(input, {calendar: 'fixed'})).toBe(expected);
+            });
+        }
+
+        const averageCases: Case[] = [
+            {input: '1mo', expected: 2629746000},
+            {input: '1 year', expected: 31556952000},
+            {input: '12 months', expected: 31556952000},
+        ];
+
+        for (const {input, expected} of averageCases) {
+            it(`average: "${input}" -> ${expected}`, () => {
+                expect(parseDurationMs(input, {calendar: 'average'})).toBe(expected);
+            });
+        }
+
+        it('keeps "m" as minutes', () => {
+            expect(parseDurationMs('1m', {calendar: 'fixed'})).toBe(60000);
+            expect(parseDurationMs('1M', {calendar: 'fixed'})).toBe(60000);
+            expect(parseDurationMs('1mo 1m', {calendar: 'fixed'})).toBe(30 * 86400000 + 60000);
+        });
+
+        it('points the error at the calendar unit', () => {
+            expect(tryParseDurationMs('1d 2 months')).toMatchObject({
+                ok: false,
+                error: {code: 'CALENDAR_UNIT', substring: 'months', start: 5, end: 11},
+            });
+        });
+    });
+
     describe('error conditions for token syntax', () => {
         describe('unknown units', () => {
             it('1x', () => {
@@ -364,6 +475,785 @@ describe('parseDurationMs', () => {
                 });
             }
         });
+
+        describe('clock layouts', () => {
+            const cases: {input: string; options: ParseDurationOptions; expected: number}[] = [
+                {input: '3:25', options: {clockLayout: 'm:s'}, expected: 205_000},
+                {input: '125:07.5', options: {clockLayout: 'm:s'}, expected: 7_507_500},
+                {input: '-0:30', options: {clockLayout: 'm:s'}, expected: -30_000},
+                {input: '01:30', options: {clockLayout: 'h:m'}, expected: 5_400_000},
+                {input: '01:30:15', options: {clockLayout: 'h:m:s'}, expected: 5_415_000},
+                {input: '1:02:03:04', options: {clockLayout: 'd:h:m:s'}, expected: 93_784_000},
+                {input: '-2:00:00:00.5', options: {clockLayout: 'd:h:m:s'}, expected: -172_800_500},
+                {input: '2.04:30:00', options: {clockLayout: 'd.h:m:s'}, expected: 189_000_000},
+                {input: '1.02:03:04.5', options: {clockLayout: 'd.h:m:s'}, expected: 93_784_500},
+                {input: '-1.00:00:00.0010000', options: {clockLayout: 'd.h:m:s'}, expected: -86_400_001},
+                {input: '04:30', options: {clockLayout: 'd.h:m:s'}, expected: 16_200_000},
+                {input: '23:59:59', options: {clockLayout: 'd.h:m:s'}, expected: 86_399_000},
+                {input: '0:90', options: {clockOverflow: 'carry'}, expected: 5_400_000},
+                {input: '00:00:75', options: {clockOverflow: 'carry'}, expected: 75_000},
+                {input: '1:25:00:00', options: {clockLayout: 'd:h:m:s', clockOverflow: 'carry'}, expected: 176_400_000},
+                {input: '90:00', options: {clockLayout: 'm:s'}, expected: 5_400_000},
+            ];
+
+            for (const {input, options, expected} of cases) {
+                it(`"${input}" ${JSON.stringify(options)} -> ${expected}`, () => {
+                    expect(parseDurationMs(input, options)).toBe(expected);
+                });
+            }
+
+            const invalids: {input: string; options: ParseDurationOptions; code: DurationErrorCode; substring: string}[] = [
+                {input: '01:30:15', options: {clockLayout: 'm:s'}, code: 'INVALID_CLOCK_FORMAT', substring: '01:30:15'},
+                {input: '01:30', options: {clockLayout: 'h:m:s'}, code: 'INVALID_CLOCK_FORMAT', substring: '01:30'},
+                {input: '01:30.5', options: {clockLayout: 'h:m'}, code: 'INVALID_CLOCK_FORMAT', substring: '30.5'},
+                {input: '3:60', options: {clockLayout: 'm:s'}, code: 'INVALID_CLOCK_RANGE', substring: '60'},
+                {input: '1:24:00:00', options: {clockLayout: 'd:h:m:s'}, code: 'INVALID_CLOCK_RANGE', substring: '24'},
+                {input: '24:00:00', options: {clockLayout: 'd.h:m:s'}, code: 'INVALID_CLOCK_RANGE', substring: '24'},
+                {input: '1.24:00', options: {clockLayout: 'd.h:m:s'}, code: 'INVALID_CLOCK_RANGE', substring: '24'},
+                {input: '1.2.3:00', options: {clockLayout: 'd.h:m:s'}, code: 'INVALID_CLOCK_FORMAT', substring: '2.3'},
+                {input: '1.02:03:04,5', options: {clockLayout: 'd.h:m:s', locale: 'de'}, code: 'INVALID_CLOCK_FORMAT', substring: '04,5'},
+                {input: '1.5:30', options: {}, code: 'INVALID_CLOCK_FORMAT', substring: '1.5'},
+                {input: '1:2:3:4', options: {}, code: 'INVALID_CLOCK_FORMAT', substring: '1:2:3:4'},
+            ];
+
+            for (const {input, options, code, substring} of invalids) {
+                it(`rejects "${input}" ${JSON.stringify(options)}`, () => {
+                    expect(tryParseDurationMs(input, options)).toMatchObject({ok: false, error: {code, substring}});
+                });
+            }
+
+            it('reports days and exact values', () => {
+                expect(parseDurationParts('1.02:03:04.5', {clockLayout: 'd.h:m:s'})).toMatchObject({
+                    kind: 'clock',
+                    days: 1,
+                    hours: 2,
+                    minutes: 3,
+                    seconds: 4.5,
+                });
+                expect(parseDurationNs('-1.00:00:00.0000001', {clockLayout: 'd.h:m:s'})).toBe(-86_400_000_000_100n);
+            });
+        });
+    });
+});
+
+describe('sub-millisecond units', () => {
+    const cases: Case[] = [
+        {input: '1500us', expected: 2},
+        {input: '1500 µs', expected: 2},
+        {input: '1500μs', expected: 2},
+        {input: '400 microseconds', expected: 0},
+        {input: '1 microsecond', expected: 0},
+        {input: '1500000ns', expected: 2},
+        {input: '2500000 nanoseconds', expected: 3},
+        {input: '1ms 500us', expected: 2},
+    ];
+
+    for (const {input, expected} of cases) {
+        it(`"${input}" -> ${expected}`, () => {
+            expect(parseDurationMs(input)).toBe(expected);
+        });
+    }
+});
+
+describe('parseDurationNs', () => {
+    const cases: Case<string, bigint>[] = [
+        {input: '', expected: 0n},
+        {input: '250ns', expected: 250n},
+        {input: '1.5us', expected: 1_500n},
+        {input: '1ms 250us', expected: 1_250_000n},
+        {input: '0.4ms', expected: 400_000n},
+        {input: '-0.5ms', expected: -500_000n},
+        {input: '0.1s 0.2s', expected: 300_000_000n},
+        {input: '1h 30m', expected: 5_400_000_000_000n},
+        {input: '1500', expected: 1_500_000_000n},
+        {input: '-01:30:15.123456789', expected: -5_415_123_456_789n},
+        {input: 'PT0.000000001S', expected: 1n},
+        {input: '-P1DT0,5S', expected: -86_400_500_000_000n},
+        {input: 'PT-1M1S', expected: -59_000_000_000n},
+        // Beyond Number.MAX_SAFE_INTEGER milliseconds
+        {input: '9007199254740993d', expected: 9_007_199_254_740_993n * 86_400_000_000_000n},
+        {input: '0.333333333333333333333s', expected: 333_333_333n},
+    ];
+
+    for (const {input, expected} of cases) {
+        it(`"${input}" -> ${expected}n`, () => {
+            expect(parseDurationNs(input)).toBe(expected);
+        });
+    }
+
+    it('rounds fractions of a nanosecond', () => {
+        expect(parseDurationNs('1.5ns')).toBe(2n);
+        expect(parseDurationNs('2.5ns')).toBe(2n);
+        expect(parseDurationNs('2.5ns', {rounding: 'round'})).toBe(3n);
+        expect(parseDurationNs('-2.5ns', {rounding: 'round'})).toBe(-2n);
+        expect(parseDurationNs('-2.5ns', {rounding: 'half-away'})).toBe(-3n);
+        expect(parseDurationNs('-1.5ns', {rounding: 'floor'})).toBe(-2n);
+        expect(parseDurationNs('-1.5ns', {rounding: 'ceil'})).toBe(-1n);
+        expect(parseDurationNs('1.9ns', {rounding: 'trunc'})).toBe(1n);
+    });
+
+    it('applies the calendar and strict options', () => {
+        expect(() => parseDurationNs('1mo')).toThrowError(DurationParseError);
+        expect(parseDurationNs('1mo', {calendar: 'fixed'})).toBe(2_592_000_000_000_000n);
+        expect(parseDurationNs('1y', {calendar: 'average'})).toBe(31_556_952_000_000_000n);
+        expect(() => parseDurationNs('1h 1h', {strict: true})).toThrowError(DurationParseError);
+    });
+
+    it('throws the same errors as parseDurationMs', () => {
+        expect(() => parseDurationNs('10 foo')).toThrowError('parseDurationMs: unknown unit "foo" in "10 foo"');
+    });
+
+    it('uses custom unit sizes as written', () => {
+        const parser = createDurationParser({units: {tick: 0.1}});
+        expect(parser.parseNs('3 tick')).toBe(300_000n);
+    });
+});
+
+describe('ISO 8601 durations', () => {
+    describe('parseDurationMs', () => {
+        const cases: Case[] = [
+            {input: 'PT1H30M', expected: 5400000},
+            {input: 'PT1H30M15.5S', expected: 5415500},
+            {input: 'PT1H30M15,5S', expected: 5415500},
+            {input: 'P2DT3H', expected: 2 * 86400000 + 3 * 3600000},
+            {input: 'P3DT4H', expected: 3 * 86400000 + 4 * 3600000},
+            {input: 'P2W', expected: 14 * 86400000},
+            {input: 'P1W2D', expected: 9 * 86400000},
+            {input: 'P1D', expected: 86400000},
+            {input: 'PT0S', expected: 0},
+            {input: 'PT0.001S', expected: 1},
+            {input: 'PT1.5H', expected: 5400000},
+            {input: 'P0.5D', expected: 43200000},
+            {input: 'PT1H30.5M', expected: 5430000},
+            {input: 'P1DT0.5H', expected: 86400000 + 1800000},
+            {input: '-PT5M', expected: -300000},
+            {input: '+PT5M', expected: 300000},
+            {input: 'PT-5M', expected: -300000},
+            {input: 'PT-1H-30M', expected: -5400000},
+            {input: '-PT-5M', expected: 300000},
+            {input: 'pt1h30m', expected: 5400000},
+            {input: '  PT1M  ', expected: 60000},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}" -> ${expected}`, () => {
+                expect(parseDurationMs(input)).toBe(expected);
+            });
+        }
+
+        describe('invalid ISO 8601 durations', () => {
+            const invalids = ['P', 'PT', '-P', 'P1H', 'PT1D', 'PT1H1H', 'P1DT', 'P1.S', 'PT1S2M', 'P 1D', 'P1D junk', 'PT1.5H30M', 'P1.5DT2H', 'PT1,5M0S', 'P0.5W1D'];
+
+            for (const input of invalids) {
+                it(input, () => {
+                    expect(() => parseDurationMs(input)).toThrowError(
+                        `parseDurationMs: invalid ISO 8601 duration "${input}"`,
+                    );
+                });
+            }
+        });
+
+        describe('calendar units', () => {
+            it('rejects years and months by default', () => {
+                expect(() => parseDurationMs('P1M')).toThrowError(
+                    'parseDurationMs: ISO 8601 duration "P1M" has calendar units (years/months); ' +
+                    'set the "calendar" option to "fixed" or "average" to accept them',
+                );
+                expect(() => parseDurationMs('P1Y')).toThrowError('has calendar units');
+                expect(() => parseDurationMs('P1Y2M3DT4H', {calendar: 'reject'})).toThrowError('has calendar units');
+            });
+
+            it('does not confuse time minutes with months', () => {
+                expect(parseDurationMs('PT1M')).toBe(60000);
+                expect(parseDurationMs('P0MT1M')).toBe(60000);
+            });
+
+            it('accepts fixed 30-day months and 365-day years', () => {
+                expect(parseDurationMs('P1M', {calendar: 'fixed'})).toBe(30 * 86400000);
+                expect(parseDurationMs('P1Y', {calendar: 'fixed'})).toBe(365 * 86400000);
+                expect(parseDurationMs('-P1Y2M', {calendar: 'fixed'})).toBe(-425 * 86400000);
+            });
+
+            it('accepts average Gregorian months and years', () => {
+                expect(parseDurationMs('P1M', {calendar: 'average'})).toBe(2629746000);
+                expect(parseDurationMs('P1Y', {calendar: 'average'})).toBe(31556952000);
+            });
+        });
+    });
+
+    describe('toIsoDuration', () => {
+        const cases: Case<number, string>[] = [
+            {input: 0, expected: 'PT0S'},
+            {input: -0, expected: 'PT0S'},
+            {input: 1, expected: 'PT0.001S'},
+            {input: 500, expected: 'PT0.5S'},
+            {input: 5400000, expected: 'PT1H30M'},
+            {input: 5415500, expected: 'PT1H30M15.5S'},
+            {input: 86400000, expected: 'P1D'},
+            {input: 2 * 86400000 + 3 * 3600000, expected: 'P2DT3H'},
+            {input: 93784005, expected: 'P1DT2H3M4.005S'},
+            {input: -300000, expected: '-PT5M'},
+            {input: 1.6, expected: 'PT0.002S'},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`${input} -> "${expected}"`, () => {
+                expect(toIsoDuration(input)).toBe(expected);
+            });
+        }
+
+        it('rejects non-finite durations', () => {
+            expect(() => toIsoDuration(NaN)).toThrowError('toIsoDuration: invalid duration "NaN"');
+        });
+
+        it('round-trips through parseDurationMs', () => {
+            for (const value of [0, 1, 999, 5415250, 86400001, -93784005, 9007199254740991]) {
+                expect(parseDurationMs(toIsoDuration(value))).toBe(value);
+            }
+        });
+    });
+});
+
+describe('tryParseDurationMs', () => {
+    it('returns ok results for valid inputs', () => {
+        expect(tryParseDurationMs('1h 30m')).toEqual({ok: true, ms: 5400000});
+        expect(tryParseDurationMs('01:30')).toEqual({ok: true, ms: 5400000});
+        expect(tryParseDurationMs('PT1M')).toEqual({ok: true, ms: 60000});
+        expect(tryParseDurationMs('  ')).toEqual({ok: true, ms: 0});
+        expect(tryParseDurationMs('P1Y', {calendar: 'fixed'})).toEqual({ok: true, ms: 31536000000});
+    });
+
+    describe('error codes and locations', () => {
+        const cases: {input: string; code: DurationErrorCode; substring: string; start: number}[] = [
+            {input: '10 foo', code: 'UNKNOWN_UNIT', substring: 'foo', start: 3},
+            {input: '  1h 2x', code: 'UNKNOWN_UNIT', substring: 'x', start: 6},
+            {input: '1h abc', code: 'TRAILING_JUNK', substring: 'abc', start: 3},
+            {input: '1h30', code: 'TRAILING_JUNK', substring: '30', start: 2},
+            {input: 'abc', code: 'TRAILING_JUNK', substring: 'abc', start: 0},
+            {input: 'x 1h', code: 'TRAILING_JUNK', substring: 'x', start: 0},
+            {input: '1..5h', code: 'TRAILING_JUNK', substring: '1..', start: 0},
+            {input: ' 1h, 2m', code: 'TRAILING_JUNK', substring: ',', start: 3},
+            {input: `${'9'.repeat(400)}h`, code: 'INVALID_NUMBER', substring: '9'.repeat(400), start: 0},
+            {input: '9'.repeat(400), code: 'INVALID_NUMBER', substring: '9'.repeat(400), start: 0},
+            {input: '01:60', code: 'INVALID_CLOCK_RANGE', substring: '60', start: 3},
+            {input: ' 00:00:60.5', code: 'INVALID_CLOCK_RANGE', substring: '60.5', start: 7},
+            {input: '01:3a', code: 'INVALID_CLOCK_FORMAT', substring: '3a', start: 3},
+            {input: '1.5:30', code: 'INVALID_CLOCK_FORMAT', substring: '1.5', start: 0},
+            {input: '1:2:3:4', code: 'INVALID_CLOCK_FORMAT', substring: '1:2:3:4', start: 0},
+            {input: ':30', code: 'INVALID_CLOCK_FORMAT', substring: '', start: 0},
+            {input: 'PT1D', code: 'INVALID_ISO_DURATION', substring: 'PT1D', start: 0},
+            {input: 'P1Y2M', code: 'CALENDAR_UNIT', substring: '1Y', start: 1},
+            {input: ' -P0Y2MT1H', code: 'CALENDAR_UNIT', substring: '2M', start: 5},
+        ];
+
+        for (const {input, code, substring, start} of cases) {
+            it(`${input.length > 20 ? `${input.slice(0, 20)}...` : input} -> ${code}`, () => {
+                const result = tryParseDurationMs(input);
+                expect(result.ok).toBe(false);
+                if (result.ok) return;
+                expect(result.error).toMatchObject({code, substring, start, end: start + substring.length, input});
+                expect(input.slice(result.error.start, result.error.end)).toBe(substring);
+            });
+        }
+    });
+
+    it('reports the same message parseDurationMs throws', () => {
+        const result = tryParseDurationMs('1h abc');
+        expect(result).toMatchObject({ok: false, error: {message: 'parseDurationMs: could not fully parse "1h abc"'}});
+    });
+});
+
+describe('DurationParseError', () => {
+    it('is thrown by parseDurationMs with the structured fields', () => {
+        let caught: unknown;
+        try {
+            parseDurationMs('1h 10 foo');
+        } catch (err) {
+            caught = err;
+        }
+        expect(caught).toBeInstanceOf(DurationParseError);
+        expect(caught).toBeInstanceOf(Error);
+        expect(caught).toMatchObject({
+            name: 'DurationParseError',
+            message: 'parseDurationMs: unknown unit "foo" in "1h 10 foo"',
+            code: 'UNKNOWN_UNIT',
+            input: '1h 10 foo',
+            substring: 'foo',
+            start: 6,
+            end: 9,
+        });
+    });
+
+    it('is thrown for invalid colon durations', () => {
+        expect(() => parseDurationMs('00:00:60')).toThrowError(DurationParseError);
+    });
+});
+
+describe('parseDurationParts', () => {
+    const tokensOf = (input: string, options?: Parameters<typeof parseDurationParts>[1]) => {
+        const parts = parseDurationParts(input, options);
+        if (parts.kind !== 'tokens') throw new Error(`expected tokens, got ${parts.kind}`);
+        return parts.tokens;
+    };
+
+    it('reports tokens with canonical units, spellings and offsets', () => {
+        expect(parseDurationParts(' 1 hour 30m')).toEqual({
+            kind: 'tokens',
+            ms: 5400000,
+            start: 1,
+            end: 11,
+            tokens: [
+                {value: 1, unit: 'h', spelling: 'hour', ms: 3600000, start: 1, valueEnd: 2, unitStart: 3, end: 7},
+                {value: 30, unit: 'm', spelling: 'm', ms: 1800000, start: 8, valueEnd: 10, unitStart: 10, end: 11},
+            ],
+        });
+    });
+
+    it('canonicalizes every spelling of a unit', () => {
+        const units = tokensOf('1ms 1 Seconds 1 mins 2 HRS 1 day 1 weeks 1 months 1 yrs', {calendar: 'fixed'}).map(t => t.unit);
+        expect(units).toEqual(['ms', 's', 'm', 'h', 'd', 'w', 'mo', 'y']);
+    });
+
+    it('keeps signs, fractions and unrounded contributions', () => {
+        expect(parseDurationParts('1h -0.0005s').ms).toBe(3600000);
+        const tokens = tokensOf('1h -0.0005s');
+        expect(tokens.map(t => [t.value, t.ms])).toEqual([[1, 3600000], [-0.0005, -0.5]]);
+        expect(tokens[1]).toMatchObject({start: 3, valueEnd: 10, unitStart: 10, end: 11});
+    });
+
+    it('reports clock fields', () => {
+        expect(parseDurationParts('-01:30:15.5')).toEqual({
+            kind: 'clock',
+            ms: -5415500,
+            start: 0,
+            end: 11,
+            sign: -1,
+            days: 0,
+            hours: 1,
+            minutes: 30,
+            seconds: 15.5,
+        });
+    });
+
+    it('reports ISO 8601 components', () => {
+        expect(parseDurationParts('PT1H30M')).toMatchObject({
+            kind: 'iso',
+            ms: 5400000,
+            components: {days: 0, hours: 1, minutes: 30, seconds: 0},
+        });
+    });
+
+    it('reports unitless and empty inputs', () => {
+        expect(parseDurationParts('1500')).toEqual({kind: 'unitless', ms: 1500, start: 0, end: 4, value: 1500, unit: 'ms'});
+        expect(parseDurationParts('  ')).toMatchObject({kind: 'empty', ms: 0});
+    });
+
+    it('applies the calendar option', () => {
+        expect(() => parseDurationParts('1mo')).toThrowError(DurationParseError);
+        expect(tokensOf('1mo', {calendar: 'fixed'})[0]).toMatchObject({unit: 'mo', ms: 2592000000});
+    });
+
+    it('totals match parseDurationMs', () => {
+        for (const input of ['1.5h', '0.1s 0.2s', '1h 1h -30m', '2w 3d', 'P1DT0.0005S', '1.0005']) {
+            expect(parseDurationParts(input).ms).toBe(parseDurationMs(input));
+        }
+    });
+
+    it('throws the same errors as parseDurationMs', () => {
+        expect(() => parseDurationParts('10 foo')).toThrowError('parseDurationMs: unknown unit "foo" in "10 foo"');
+    });
+});
+
+describe('validateDuration', () => {
+    it('accepts well-formed durations', () => {
+        for (const input of ['1h 30m', '2d 3h 4m 5s 6ms', '-1h -30m', '1h 1.5m', '01:30', 'PT1H', '1500', '']) {
+            expect(validateDuration(input)).toEqual([]);
+        }
+    });
+
+    describe('rule violations', () => {
+        const cases: {input: string; code: DurationErrorCode; substring: string; start: number; message: string}[] = [
+            {
+                input: '1h 1h',
+                code: 'DUPLICATE_UNIT',
+                substring: 'h',
+                start: 4,
+                message: 'parseDurationMs: duplicate unit "h" in "1h 1h"',
+            },
+            {
+                input: '1 hour 1h',
+                code: 'DUPLICATE_UNIT',
+                substring: 'h',
+                start: 8,
+                message: 'parseDurationMs: duplicate unit "h" in "1 hour 1h"',
+            },
+            {
+                input: '30m 2h',
+                code: 'UNIT_ORDER',
+                substring: 'h',
+                start: 5,
+                message: 'parseDurationMs: unit "h" in "30m 2h" must come before "m"',
+            },
+            {
+                input: '1h -30m',
+                code: 'MIXED_SIGNS',
+                substring: '-30m',
+                start: 3,
+                message: 'parseDurationMs: mixed signs in "1h -30m"',
+            },
+            {
+                input: '-1h +30m',
+                code: 'MIXED_SIGNS',
+                substring: '+30m',
+                start: 4,
+                message: 'parseDurationMs: mixed signs in "-1h +30m"',
+            },
+            {
+                input: '1.5h 30m',
+                code: 'FRACTIONAL_UNIT',
+                substring: '1.5',
+                start: 0,
+                message: 'parseDurationMs: fractional value "1.5" in "1.5h 30m" is only allowed on the last unit',
+            },
+        ];
+
+        for (const {input, code, substring, start, message} of cases) {
+            it(`"${input}" -> ${code}`, () => {
+                expect(validateDuration(input)).toEqual([
+                    {code, message, input, substring, start, end: start + substring.length},
+                ]);
+            });
+        }
+    });
+
+    it('reports every violation in input order', () => {
+        expect(validateDuration('30m 1.5h 1h -2s').map(issue => issue.code)).toEqual([
+            'UNIT_ORDER',
+            'FRACTIONAL_UNIT',
+            'DUPLICATE_UNIT',
+            'MIXED_SIGNS',
+        ]);
+    });
+
+    it('only applies the rules it is given', () => {
+        expect(validateDuration('30m 1h 1h', {noDuplicateUnits: true}).map(issue => issue.code)).toEqual(['DUPLICATE_UNIT']);
+        expect(validateDuration('30m 1h 1h', {})).toEqual([]);
+    });
+
+    it('orders calendar units by their length', () => {
+        expect(validateDuration('1y 2mo 3w', undefined, {calendar: 'fixed'})).toEqual([]);
+        expect(validateDuration('1w 1mo', undefined, {calendar: 'fixed'})[0]?.code).toBe('UNIT_ORDER');
+    });
+
+    describe('bounds', () => {
+        it('accepts durations within inclusive bounds', () => {
+            expect(validateDuration('10s', {min: '10s', max: 60_000})).toEqual([]);
+            expect(validateDuration('1m', {min: '10s', max: 60_000})).toEqual([]);
+        });
+
+        it('rejects durations below the minimum', () => {
+            expect(validateDuration(' 5s ', {min: '10s'})).toEqual([{
+                code: 'OUT_OF_RANGE',
+                message: 'parseDurationMs: duration " 5s " is less than the minimum "10s"',
+                input: ' 5s ',
+                substring: '5s',
+                start: 1,
+                end: 3,
+            }]);
+        });
+
+        it('rejects durations above the maximum', () => {
+            expect(validateDuration('01:30', {max: 3_600_000})).toMatchObject([{
+                code: 'OUT_OF_RANGE',
+                message: 'parseDurationMs: duration "01:30" is greater than the maximum "3600000ms"',
+            }]);
+        });
+
+        it('throws for invalid bounds', () => {
+            expect(() => validateDuration('1h', {min: 'soon'})).toThrowError('parseDurationMs: invalid min "soon"');
+            expect(() => validateDuration('1h', {max: NaN})).toThrowError('parseDurationMs: invalid max "NaN"');
+        });
+    });
+
+    it('reports syntax errors as the only issue', () => {
+        expect(validateDuration('1h 1h 2 foo')).toMatchObject([{code: 'UNKNOWN_UNIT', substring: 'foo'}]);
+    });
+});
+
+describe('strict option', () => {
+    it('is off by default', () => {
+        expect(parseDurationMs('30m 1h')).toBe(5_400_000);
+        expect(parseDurationMs('1h 1h')).toBe(7_200_000);
+        expect(parseDurationMs('1h -30m')).toBe(1_800_000);
+    });
+
+    it('throws the first violation', () => {
+        expect(() => parseDurationMs('30m 1h 1h', {strict: true})).toThrowError(
+            'parseDurationMs: unit "h" in "30m 1h 1h" must come before "m"',
+        );
+        expect(tryParseDurationMs('1h -30m', {strict: true})).toMatchObject({ok: false, error: {code: 'MIXED_SIGNS'}});
+        expect(() => parseDurationParts('1h 1h', {strict: true})).toThrowError(DurationParseError);
+    });
+
+    it('accepts custom rules', () => {
+        expect(parseDurationMs('30m 1h', {strict: {noMixedSigns: true}})).toBe(5_400_000);
+        expect(tryParseDurationMs('2h', {strict: {max: '1h'}})).toMatchObject({ok: false, error: {code: 'OUT_OF_RANGE'}});
+    });
+
+    it('passes well-formed durations through', () => {
+        expect(parseDurationMs('1h 30m', {strict: true})).toBe(5_400_000);
+    });
+});
+
+describe('createDurationParser', () => {
+    describe('default configuration', () => {
+        const parser = createDurationParser();
+
+        it('behaves like parseDurationMs', () => {
+            for (const input of ['1h 30m', '01:30:15.250', '1500.5', 'PT1M', '-1d']) {
+                expect(parser.parse(input)).toBe(parseDurationMs(input));
+            }
+            expect(() => parser.parse('10 foo')).toThrowError('parseDurationMs: unknown unit "foo" in "10 foo"');
+            expect(parser.tryParse('1h abc')).toEqual(tryParseDurationMs('1h abc'));
+        });
+
+        it('behaves like isDurationUnit and formatDurationMs', () => {
+            expect(parser.isUnit('ms')).toBe(true);
+            expect(parser.isUnit('MS')).toBe(false);
+            expect(parser.format(5415250, {style: 'long'})).toBe(formatDurationMs(5415250, {style: 'long'}));
+        });
+    });
+
+    describe('custom units and aliases', () => {
+        const parser = createDurationParser({
+            units: {
+                w: 604_800_000,
+                week: 'w',
+                weeks: 'week',
+                sprint: 1_209_600_000,
+                sprints: 'sprint',
+                shift: 8 * 3_600_000,
+                µs: 0.001,
+            },
+        });
+
+        const cases: Case[] = [
+            {input: '2w', expected: 1_209_600_000},
+            {input: '1 week 2 days', expected: 777_600_000},
+            {input: '3 Weeks', expected: 1_814_400_000},
+            {input: '1 sprint', expected: 1_209_600_000},
+            {input: '2 sprints 1h', expected: 2_422_800_000},
+            {input: '1.5 shift', expected: 43_200_000},
+            {input: '1500µs', expected: 2},
+            {input: '1h 30m', expected: 5_400_000},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}" -> ${expected}`, () => {
+                expect(parser.parse(input)).toBe(expected);
+            });
+        }
+
+        it('recognizes custom units in isUnit', () => {
+            expect(parser.isUnit('sprint')).toBe(true);
+            expect(parser.isUnit('weeks')).toBe(true);
+            expect(parser.isUnit('h')).toBe(true);
+            expect(parser.isUnit('fortnight')).toBe(false);
+        });
+
+        it('reports aliases by the unit they resolve to in parseParts', () => {
+            const parts = parser.parseParts('3 Weeks 2 sprints');
+            expect(parts.kind === 'tokens' && parts.tokens.map(t => [t.unit, t.spelling])).toEqual([
+                ['w', 'Weeks'],
+                ['sprint', 'sprints'],
+            ]);
+        });
+
+        it('still reports unknown units', () => {
+            expect(() => parser.parse('1 fortnight')).toThrowError(
+                'parseDurationMs: unknown unit "fortnight" in "1 fortnight"',
+            );
+        });
+
+        it('lets custom spellings override built-in ones', () => {
+            const override = createDurationParser({units: {m: 'mo', mo: 2_592_000_000}});
+            expect(override.parse('1m')).toBe(2_592_000_000);
+            expect(override.parse('1min')).toBe(60_000);
+        });
+
+        it('reports non-ASCII unknown units as unknown units', () => {
+            expect(tryParseDurationMs('1ñs')).toMatchObject({ok: false, error: {code: 'UNKNOWN_UNIT', substring: 'ñs'}});
+        });
+    });
+
+    describe('replacing the default units', () => {
+        const parser = createDurationParser({
+            units: {tick: 50, ticks: 'tick', beat: 500, beats: 'beat'},
+            includeDefaults: false,
+            unitless: 'tick',
+        });
+
+        it('only knows the custom units', () => {
+            expect(parser.parse('2 beats 3 ticks')).toBe(1150);
+            expect(parser.isUnit('ms')).toBe(false);
+            expect(() => parser.parse('1s')).toThrowError('parseDurationMs: unknown unit "s" in "1s"');
+        });
+
+        it('interprets bare numbers in the unitless unit', () => {
+            expect(parser.parse('4')).toBe(200);
+        });
+
+        it('formats with the first spelling of each unit size', () => {
+            expect(parser.format(1150)).toBe('2beat 3tick');
+            expect(parser.format(1150, {style: 'long'})).toBe('2 beat 3 tick');
+        });
+    });
+
+    describe('grammar options', () => {
+        it('can match units case-sensitively', () => {
+            const parser = createDurationParser({units: {M: 2_592_000_000}, caseSensitive: true});
+            expect(parser.parse('1M')).toBe(2_592_000_000);
+            expect(parser.parse('1m')).toBe(60_000);
+            expect(() => parser.parse('1H')).toThrowError('parseDurationMs: unknown unit "H" in "1H"');
+        });
+
+        it('rejects case-insensitive collisions', () => {
+            expect(() => createDurationParser({units: {M: 2_592_000_000}})).toThrowError(
+                'createDurationParser: units "m" and "M" collide when matched case-insensitively',
+            );
+        });
+
+        it('can reject bare numbers', () => {
+            const parser = createDurationParser({unitless: false});
+            expect(parser.parse('5s')).toBe(5000);
+            expect(parser.tryParse('1500')).toMatchObject({ok: false, error: {code: 'TRAILING_JUNK', substring: '1500'}});
+        });
+
+        it('can give bare numbers another unit', () => {
+            const parser = createDurationParser({unitless: 's'});
+            expect(parser.parse('1.5')).toBe(1500);
+        });
+
+        it('can set a default calendar policy', () => {
+            const parser = createDurationParser({calendar: 'fixed'});
+            expect(parser.parse('1mo')).toBe(30 * 86400000);
+            expect(parser.parse('P1Y')).toBe(365 * 86400000);
+            expect(parser.parse('1y', {calendar: 'average'})).toBe(31556952000);
+            expect(() => parser.parse('1y', {calendar: 'reject'})).toThrowError('has no fixed length');
+        });
+
+        it('resolves aliases of calendar units', () => {
+            const parser = createDurationParser({units: {quarterly: 'mo'}, calendar: 'fixed'});
+            expect(parser.parse('1 quarterly')).toBe(30 * 86400000);
+        });
+
+        it('rejects calendar units where a fixed length is needed', () => {
+            expect(() => createDurationParser({unitless: 'mo'})).toThrowError(
+                'createDurationParser: unitless unit "mo" has no fixed length',
+            );
+            expect(() => createDurationParser({formatUnits: [{short: 'y'}]})).toThrowError(
+                'createDurationParser: format unit "y" has no fixed length',
+            );
+            expect(() => formatDurationMs(1, {smallestUnit: 'month'})).toThrowError(
+                'formatDurationMs: calendar unit "month" has no fixed length',
+            );
+        });
+
+        it('can reject the colon form', () => {
+            const parser = createDurationParser({colon: false});
+            expect(() => parser.parse('01:30')).toThrowError('parseDurationMs: could not fully parse "01:30"');
+        });
+    });
+
+    describe('formatting', () => {
+        const parser = createDurationParser({
+            units: {w: 604_800_000, week: 'w', weeks: 'w'},
+            formatUnits: [
+                {short: 'h', singular: 'hour', plural: 'hours'},
+                {short: 'w', singular: 'week', plural: 'weeks'},
+                {short: 'd', singular: 'day', plural: 'days'},
+            ],
+        });
+
+        it('uses the configured format units', () => {
+            expect(parser.format(777_600_000 + 3_600_000)).toBe('1w 2d 1h');
+            expect(parser.format(604_800_000, {style: 'long'})).toBe('1 week');
+            expect(parser.format(1_209_600_000, {style: 'long'})).toBe('2 weeks');
+        });
+
+        it('rounds to the smallest format unit by default', () => {
+            expect(parser.format(5_400_000)).toBe('2h');
+        });
+
+        it('round-trips through parse', () => {
+            const value = 3 * 604_800_000 + 86_400_000 + 7_200_000;
+            expect(parser.parse(parser.format(value))).toBe(value);
+            expect(parser.parse(parser.format(value, {style: 'long'}))).toBe(value);
+        });
+
+        it('rejects a smallest unit larger than every format unit', () => {
+            const custom = createDurationParser({units: {month: 2_592_000_000}});
+            expect(() => custom.format(1, {smallestUnit: 'month'})).toThrowError(
+                'formatDurationMs: no format unit is at least as large as "month"',
+            );
+        });
+    });
+
+    describe('invalid configurations', () => {
+        const cases: {name: string; create: () => unknown; message: string}[] = [
+            {
+                name: 'unknown alias target',
+                create: () => createDurationParser({units: {a: 'zzz' as never}}),
+                message: 'createDurationParser: unknown unit "zzz" for alias "a"',
+            },
+            {
+                name: 'circular aliases',
+                create: () => createDurationParser({units: {a: 'b', b: 'a'}}),
+                message: 'createDurationParser: circular alias "a" -> "b" -> "a"',
+            },
+            {
+                name: 'non-positive size',
+                create: () => createDurationParser({units: {zero: 0}}),
+                message: 'createDurationParser: invalid size 0 for unit "zero"',
+            },
+            {
+                name: 'unknown unitless unit',
+                create: () => createDurationParser({units: {a: 1}, includeDefaults: false, unitless: 'ms' as never}),
+                message: 'createDurationParser: unknown unitless unit "ms"',
+            },
+            {
+                name: 'unknown format unit',
+                create: () => createDurationParser({formatUnits: [{short: 'x' as never}]}),
+                message: 'createDurationParser: unknown format unit "x"',
+            },
+            {
+                name: 'no units',
+                create: () => createDurationParser({includeDefaults: false}),
+                message: 'createDurationParser: no units defined',
+            },
+        ];
+
+        for (const {name, create, message} of cases) {
+            it(name, () => {
+                expect(create).toThrowError(message);
+            });
+        }
+    });
+});
+
+describe('unit tables', () => {
+    it('match the parser', () => {
+        for (const [unit, ms] of Object.entries(durationUnitMs)) {
+            expect(ms, unit).toBe(parseDurationMs(`1000000${unit}`) / 1_000_000);
+        }
+        expect(calendarUnitMs.fixed.month).toBe(parseDurationMs('1mo', {calendar: 'fixed'}));
+        expect(calendarUnitMs.average.year).toBe(parseDurationMs('1y', {calendar: 'average'}));
+    });
+
+    it('leave out calendar units and cannot be changed', () => {
+        expect(Object.hasOwn(durationUnitMs, 'mo')).toBe(false);
+        expect(Object.isFrozen(durationUnitMs)).toBe(true);
+        expect(Object.isFrozen(calendarUnitMs.fixed)).toBe(true);
     });
 });
 
@@ -375,6 +1265,11 @@ describe('isDurationUnit', () => {
             'm', 'min', 'mins', 'minute', 'minutes',
             'h', 'hr', 'hrs', 'hour', 'hours',
             'd', 'day', 'days',
+            'w', 'wk', 'week', 'weeks',
+            'mo', 'mon', 'month', 'months',
+            'y', 'yr', 'yrs', 'year', 'years',
+            'us', 'µs', 'μs', 'microsecond', 'microseconds',
+            'ns', 'nanosecond', 'nanoseconds',
         ] as const;
 
         for (const u of validUnits) {
@@ -407,3 +1302,164 @@ describe('isDurationUnit', () => {
         }
     });
 });
+
+describe('formatDurationMs', () => {
+    describe('styles', () => {
+        const cases: {input: number; options?: FormatDurationOptions; expected: string}[] = [
+            {input: 5415000, expected: '1h 30m 15s'},
+            {input: 5415250, expected: '1h 30m 15s 250ms'},
+            {input: 2 * 86400000 + 3 * 3600000 + 6, expected: '2d 3h 6ms'},
+            {input: 0, expected: '0ms'},
+            {input: -0, expected: '0ms'},
+            {input: 5400000, options: {style: 'long'}, expected: '1 hour 30 minutes'},
+            {input: 86400000 + 1000 + 1, options: {style: 'long'}, expected: '1 day 1 second 1 millisecond'},
+            {input: 0, options: {style: 'long'}, expected: '0 milliseconds'},
+            {input: 5415250, options: {style: 'clock'}, expected: '01:30:15.250'},
+            {input: 5415000, options: {style: 'clock'}, expected: '01:30:15'},
+            {input: 0, options: {style: 'clock'}, expected: '00:00:00'},
+            {input: 2 * 86400000 + 5, options: {style: 'clock'}, expected: '48:00:00.005'},
+        ];
+
+        for (const {input, options, expected} of cases) {
+            it(`${input} ${JSON.stringify(options ?? {})} -> "${expected}"`, () => {
+                expect(formatDurationMs(input, options)).toBe(expected);
+            });
+        }
+    });
+
+    describe('maxUnits and smallestUnit', () => {
+        const cases: {input: number; options: FormatDurationOptions; expected: string}[] = [
+            {input: 5415250, options: {maxUnits: 2}, expected: '1h 30m'},
+            {input: 5445000, options: {maxUnits: 2}, expected: '1h 31m'},
+            {input: 3600000 + 5000, options: {maxUnits: 2}, expected: '1h'},
+            {input: 7199999, options: {maxUnits: 1}, expected: '2h'},
+            {input: 1500, options: {maxUnits: 1}, expected: '2s'},
+            {input: 5415250, options: {smallestUnit: 's'}, expected: '1h 30m 15s'},
+            {input: 5415500, options: {smallestUnit: 'seconds'}, expected: '1h 30m 16s'},
+            {input: 400, options: {smallestUnit: 's'}, expected: '0s'},
+            {input: 400, options: {smallestUnit: 's', style: 'long'}, expected: '0 seconds'},
+            {input: 5415250, options: {smallestUnit: 'm', style: 'clock'}, expected: '01:30'},
+            {input: 5415250, options: {maxUnits: 1, style: 'clock'}, expected: '01:30:15.250'},
+        ];
+
+        for (const {input, options, expected} of cases) {
+            it(`${input} ${JSON.stringify(options)} -> "${expected}"`, () => {
+                expect(formatDurationMs(input, options)).toBe(expected);
+            });
+        }
+    });
+
+    describe('rounding modes', () => {
+        const cases: {input: number; options: FormatDurationOptions; expected: string}[] = [
+            {input: 1500, options: {smallestUnit: 's'}, expected: '2s'},
+            {input: -1500, options: {smallestUnit: 's'}, expected: '-2s'},
+            {input: -1500, options: {smallestUnit: 's', rounding: 'half-away'}, expected: '-2s'},
+            {input: -1500, options: {smallestUnit: 's', rounding: 'round'}, expected: '-1s'},
+            {input: 1500, options: {smallestUnit: 's', rounding: 'round'}, expected: '2s'},
+            {input: 1500, options: {smallestUnit: 's', rounding: 'floor'}, expected: '1s'},
+            {input: -1500, options: {smallestUnit: 's', rounding: 'floor'}, expected: '-2s'},
+            {input: 1200, options: {smallestUnit: 's', rounding: 'ceil'}, expected: '2s'},
+            {input: -1200, options: {smallestUnit: 's', rounding: 'ceil'}, expected: '-1s'},
+            {input: 1999, options: {smallestUnit: 's', rounding: 'trunc'}, expected: '1s'},
+            {input: -1999, options: {smallestUnit: 's', rounding: 'trunc'}, expected: '-1s'},
+            {input: -400, options: {smallestUnit: 's'}, expected: '0s'},
+            {input: 1.5, options: {}, expected: '2ms'},
+            {input: 2500, options: {smallestUnit: 's', rounding: 'half-even'}, expected: '2s'},
+            {input: 3500, options: {smallestUnit: 's', rounding: 'half-even'}, expected: '4s'},
+            {input: -2500, options: {smallestUnit: 's', rounding: 'half-even'}, expected: '-2s'},
+            {input: 2600, options: {smallestUnit: 's', rounding: 'half-even'}, expected: '3s'},
+        ];
+
+        for (const {input, options, expected} of cases) {
+            it(`${input} ${JSON.stringify(options)} -> "${expected}"`, () => {
+                expect(formatDurationMs(input, options)).toBe(expected);
+            });
+        }
+    });
+
+    describe('sign handling', () => {
+        const cases: {input: number; options: FormatDurationOptions; expected: string}[] = [
+            {input: -5400000, options: {}, expected: '-1h -30m'},
+            {input: -5400000, options: {style: 'long'}, expected: '-1 hour -30 minutes'},
+            {input: -5400000, options: {style: 'clock'}, expected: '-01:30:00'},
+            {input: -5400000, options: {sign: 'never'}, expected: '1h 30m'},
+            {input: 5400000, options: {sign: 'always'}, expected: '+1h +30m'},
+            {input: 5400000, options: {sign: 'always', style: 'clock'}, expected: '+01:30:00'},
+            {input: 0, options: {sign: 'always'}, expected: '0ms'},
+        ];
+
+        for (const {input, options, expected} of cases) {
+            it(`${input} ${JSON.stringify(options)} -> "${expected}"`, () => {
+                expect(formatDurationMs(input, options)).toBe(expected);
+            });
+        }
+    });
+
+    describe('clock layouts', () => {
+        const value = 93_784_500; // 1 day 2h 3m 4.5s
+        const cases: {input: number; options: FormatDurationOptions; expected: string}[] = [
+            {input: value, options: {style: 'clock', clockLayout: 'h:m:s'}, expected: '26:03:04.500'},
+            {input: value, options: {style: 'clock', clockLayout: 'h:m'}, expected: '26:03'},
+            {input: value, options: {style: 'clock', clockLayout: 'm:s'}, expected: '1563:04.500'},
+            {input: 205_000, options: {style: 'clock', clockLayout: 'm:s'}, expected: '03:25'},
+            {input: value, options: {style: 'clock', clockLayout: 'd:h:m:s'}, expected: '01:02:03:04.500'},
+            {input: value, options: {style: 'clock', clockLayout: 'd.h:m:s'}, expected: '1.02:03:04.5000000'},
+            {input: 16_200_000, options: {style: 'clock', clockLayout: 'd.h:m:s'}, expected: '04:30:00'},
+            {input: -value, options: {style: 'clock', clockLayout: 'd.h:m:s'}, expected: '-1.02:03:04.5000000'},
+            {input: 0, options: {style: 'clock', clockLayout: 'h:m:s', smallestUnit: 'm'}, expected: '00:00:00'},
+        ];
+
+        for (const {input, options, expected} of cases) {
+            it(`${input} ${JSON.stringify(options)} -> "${expected}"`, () => {
+                expect(formatDurationMs(input, options)).toBe(expected);
+            });
+        }
+
+        it('round-trips through parseDurationMs with the same layout', () => {
+            const layouts = ['auto', 'h:m:s', 'm:s', 'd:h:m:s', 'd.h:m:s'] as const;
+            for (const clockLayout of layouts) {
+                for (const ms of [0, 999, 61_000, 5_415_250, value, -value, 400 * 86_400_000]) {
+                    expect(parseDurationMs(formatDurationMs(ms, {style: 'clock', clockLayout}), {clockLayout})).toBe(ms);
+                }
+            }
+        });
+    });
+
+    describe('invalid inputs', () => {
+        it('rejects non-finite durations', () => {
+            expect(() => formatDurationMs(NaN)).toThrowError('formatDurationMs: invalid duration "NaN"');
+            expect(() => formatDurationMs(Infinity)).toThrowError('formatDurationMs: invalid duration "Infinity"');
+        });
+
+        it('rejects unknown smallest units', () => {
+            expect(() => formatDurationMs(1, {smallestUnit: 'x' as never})).toThrowError(
+                'formatDurationMs: unknown unit "x"',
+            );
+        });
+
+        it('rejects maxUnits below 1', () => {
+            expect(() => formatDurationMs(1, {maxUnits: 0})).toThrowError('formatDurationMs: invalid maxUnits "0"');
+        });
+    });
+
+    describe('round-trips through parseDurationMs', () => {
+        const values = [
+            0, 1, 999, 1000, 1001, 59999, 60000, 5415250, 86399999, 86400000,
+            2 * 86400000 + 3 * 3600000 + 4 * 60000 + 5 * 1000 + 6,
+            -1, -1500, -5415250, -86400001,
+            9007199254740991,
+        ];
+        const styles = ['compact', 'long', 'clock'] as const;
+
+        for (const style of styles) {
+            for (const value of values) {
+                it(`${style}: ${value}`, () => {
+                    expect(parseDurationMs(formatDurationMs(value, {style}))).toBe(value);
+                });
+            }
+            it(`${style}: sign "always"`, () => {
+                expect(parseDurationMs(formatDurationMs(5415250, {style, sign: 'always'}))).toBe(5415250);
+            });
+        }
+    });
+});
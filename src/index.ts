@@ -1,16 +1,54 @@
+import {add, decimal, fromNumber, multiply, negate, roundDecimal, shift, ZERO, type Decimal} from './decimal.js';
+import {
+    durationLocales,
+    type DurationLocale,
+    type DurationLocaleCode,
+    type DurationLocaleUnitNames,
+} from './locales.js';
+import {scanNatural, type DurationIgnoredWord} from './natural.js';
+import {scanText} from './extract.js';
+import {compileUnits, scanTotal, type UnitTrie} from './scanner.js';
+import {LruCache} from './lru.js';
+import {formatDialect, scanDialect, type DurationDialect} from './dialects.js';
+import {splitRange, type DurationRange, type RangeSpan} from './range.js';
+import {splitRelative} from './relative.js';
+import {parseExpression, type ExpressionNode} from './expression.js';
+import {parseConfig, type DurationConfig, type DurationConfigSchema} from './config.js';
+
+/** Calendar unit spellings: months and years have no fixed length (see `CalendarUnitPolicy`). */
+export type CalendarDurationUnit =
+    | 'mo' | 'mon' | 'month' | 'months'
+    | 'y' | 'yr' | 'yrs' | 'year' | 'years';
+
 /** All accepted unit spellings (case-insensitive at runtime; types use lowercase). */
 export type DurationUnit =
+    | CalendarDurationUnit
+    | 'w' | 'wk' | 'week' | 'weeks'
     | 'd' | 'day' | 'days'
     | 'h' | 'hr' | 'hrs' | 'hour' | 'hours'
     | 'm' | 'min' | 'mins' | 'minute' | 'minutes'
     | 's' | 'sec' | 'secs' | 'second' | 'seconds'
-    | 'ms' | 'msec' | 'msecs' | 'millisecond' | 'milliseconds';
+    | 'ms' | 'msec' | 'msecs' | 'millisecond' | 'milliseconds'
+    | 'us' | 'µs' | 'μs' | 'microsecond' | 'microseconds'
+    | 'ns' | 'nanosecond' | 'nanoseconds';
 
 
 /**
- * Mapping of duration units to their equivalent in milliseconds.
+ * Mapping of fixed-length duration units to their equivalent in milliseconds.
  */
-const UNIT_MS: Record<DurationUnit, number> = {
+const UNIT_MS: Record<Exclude<DurationUnit, CalendarDurationUnit>, number> = {
+
+    // nanoseconds
+    ns: 0.000_001,
+    nanosecond: 0.000_001,
+    nanoseconds: 0.000_001,
+
+    // microseconds ("µ" is the micro sign, "μ" the Greek letter mu)
+    us: 0.001,
+    µs: 0.001,
+    μs: 0.001,
+    microsecond: 0.001,
+    microseconds: 0.001,
 
     // milliseconds
     ms: 1,
@@ -44,104 +82,2426 @@ const UNIT_MS: Record<DurationUnit, number> = {
     d: 86_400_000,
     day: 86_400_000,
     days: 86_400_000,
+
+    // weeks
+    w: 604_800_000,
+    wk: 604_800_000,
+    week: 604_800_000,
+    weeks: 604_800_000,
+};
+
+/** The two kinds of calendar unit. */
+type CalendarUnitKind = 'month' | 'year';
+
+/** Size of a unit: milliseconds, or a calendar unit resolved per call by the `calendar` option. */
+type UnitSize = number | CalendarUnitKind;
+
+/** A resolved unit spelling. */
+interface UnitEntry {
+    size: UnitSize;
+    /** The spelling reported for it by `parseDurationParts` ("hours" => "h"). */
+    canonical: string;
+}
+
+/**
+ * Mapping of calendar units to their kind; their length depends on the `calendar` option.
+ */
+const CALENDAR_UNITS: Record<CalendarDurationUnit, CalendarUnitKind> = {
+
+    // months ("m" is minutes)
+    mo: 'month',
+    mon: 'month',
+    month: 'month',
+    months: 'month',
+
+    // years
+    y: 'year',
+    yr: 'year',
+    yrs: 'year',
+    year: 'year',
+    years: 'year',
+};
+const TOKEN_REG_EX = /([+-]?\d+(?:\.\d+)?)\s*(\p{L}+)/dgu;
+
+/** A bare number. */
+const NUMBER_REG_EX = /^[+-]?\d+(?:\.\d+)?$/;
+
+/** A single ISO 8601 component value: optionally signed, "." or "," as decimal separator. */
+const ISO_NUM = '([+-]?\\d+(?:[.,]\\d+)?)';
+
+/**
+ * ISO 8601 duration: [+-]P[nY][nM][nW][nD][T[nH][nM][nS]], case-insensitive.
+ * Components may carry their own sign ("PT-5M", as emitted by Java and Postgres).
+ * Only the smallest component present may have a fraction (checked by `parseIsoDuration`).
+ */
+const ISO_REG_EX = new RegExp(
+    `^([+-])?P(?:${ISO_NUM}Y)?(?:${ISO_NUM}M)?(?:${ISO_NUM}W)?(?:${ISO_NUM}D)?` +
+    `(?:T(?=[+-]?\\d)(?:${ISO_NUM}H)?(?:${ISO_NUM}M)?(?:${ISO_NUM}S)?)?$`,
+    'di',
+);
+
+/**
+ * How calendar units (months, years) are converted to milliseconds.
+ * - reject:  throw an error (default)
+ * - fixed:   1 month = 30 days, 1 year = 365 days
+ * - average: average Gregorian month/year (30.436875 / 365.2425 days)
+ */
+export type CalendarUnitPolicy = 'reject' | 'fixed' | 'average';
+
+/**
+ * Built-in units; the canonical spelling of each is the first one declared with the same size.
+ */
+const BUILTIN_UNITS: ReadonlyMap<string, UnitEntry> = new Map(
+    [...Object.entries(UNIT_MS), ...Object.entries(CALENDAR_UNITS)].map(([name, size], _i, all) => [
+        name,
+        {size, canonical: all.find(([, other]) => other === size)![0]},
+    ]),
+);
+
+/**
+ * Milliseconds per month/year for each calendar policy that accepts them.
+ */
+const CALENDAR_MS: Record<Exclude<CalendarUnitPolicy, 'reject'>, Record<CalendarUnitKind, number>> = {
+    fixed: {month: 30 * 86_400_000, year: 365 * 86_400_000},
+    average: {month: 30.436875 * 86_400_000, year: 365.2425 * 86_400_000},
+};
+
+/** Milliseconds per fixed-length unit spelling ("h" => 3_600_000). */
+export const durationUnitMs: Readonly<Record<Exclude<DurationUnit, CalendarDurationUnit>, number>> = Object.freeze({...UNIT_MS});
+
+/** Milliseconds per month and year under the "fixed" and "average" calendar policies. */
+export const calendarUnitMs: Readonly<Record<Exclude<CalendarUnitPolicy, 'reject'>, Readonly<Record<CalendarUnitKind, number>>>> =
+    Object.freeze({fixed: Object.freeze({...CALENDAR_MS.fixed}), average: Object.freeze({...CALENDAR_MS.average})});
+
+/**
+ * Layouts of colon durations, by field: days, hours, minutes, seconds. "d.h:m:s" is
+ * the .NET `TimeSpan` format "[d.]hh:mm[:ss[.fffffff]]".
+ */
+export type DurationClockLayout = 'auto' | 'h:m' | 'm:s' | 'h:m:s' | 'd:h:m:s' | 'd.h:m:s';
+
+/** What to do with clock fields past their range ("01:75"). */
+export type DurationClockOverflow = 'reject' | 'carry';
+
+/** Fields of each fixed clock layout; "d.h:m:s" lists them with the optional days written. */
+const CLOCK_LAYOUTS: Record<Exclude<DurationClockLayout, 'auto'>, readonly ClockField[]> = {
+    'h:m': ['hours', 'minutes'],
+    'm:s': ['minutes', 'seconds'],
+    'h:m:s': ['hours', 'minutes', 'seconds'],
+    'd:h:m:s': ['days', 'hours', 'minutes', 'seconds'],
+    'd.h:m:s': ['days', 'hours', 'minutes', 'seconds'],
+};
+
+/** Exclusive upper bound of each clock field, unless it leads. */
+const CLOCK_LIMITS: Record<ClockField, number> = {days: Infinity, hours: 24, minutes: 60, seconds: 60};
+
+/**
+ * Options for `parseDurationMs`.
+ */
+export interface ParseDurationOptions {
+    /** How months and years ("1mo", "2 years", ISO 8601 "P1M") are handled (default: "reject", or the parser's `calendar`). */
+    calendar?: CalendarUnitPolicy;
+    /** Validation rules to apply; `true` enables every rule except the bounds (default: none). */
+    strict?: boolean | DurationRules;
+    /** Locale pack (or built-in locale code) whose unit words, decimal separator and conjunctions are accepted. */
+    locale?: DurationLocale | DurationLocaleCode;
+    /**
+     * Round the exact decimal total with this mode. Without it, `parseDurationMs` sums in
+     * floating point and rounds ties toward +Infinity like `Math.round`, which "round" does
+     * on the exact total; `parseDurationNs` always sums exactly and defaults to "half-even".
+     */
+    rounding?: DurationRounding;
+    /**
+     * Fields of colon durations. "auto" (default) reads "HH:MM" and "HH:MM:SS" by segment
+     * count; the others fix the layout, e.g. "m:s" for media timestamps ("3:25") or
+     * "d.h:m:s" for .NET `TimeSpan` strings ("1.02:03:04.5").
+     */
+    clockLayout?: DurationClockLayout;
+    /**
+     * Minutes or seconds of 60 or more, and hours of 24 or more after days: "reject" them
+     * (default) or "carry" them into the larger field ("0:90" is 90 minutes). The leading
+     * field is never limited.
+     */
+    clockOverflow?: DurationClockOverflow;
+    /**
+     * Parse with another ecosystem's duration syntax instead of this library's.
+     * The dialect brings its own units and rules; the parser's units, unitless
+     * and colon settings, and `locale`, do not apply.
+     */
+    dialect?: DurationDialect;
+    /**
+     * Also accept arithmetic on durations: "2h - 15m", "3 * 20m", "(1h + 30m) / 2".
+     * Operands are numbers and durations in any format the parser accepts, with the
+     * locale's decimal separator ("1h 30m", "01:30", "PT1H"); a duration can be added to
+     * or subtracted from a duration, multiplied or divided by a number, or divided by a
+     * duration. Input that is a plain duration parses as without it. Only `parseDurationMs`
+     * and `tryParseDurationMs` evaluate expressions; `strict` bounds apply to the result.
+     */
+    expression?: boolean;
+}
+
+/**
+ * Validation rules for `validateDuration` and the `strict` option.
+ *
+ * The unit rules apply to "<number> <unit>" tokens; colon and ISO 8601
+ * durations are ordered and single-signed by their syntax. Bounds apply to
+ * every format and are inclusive.
+ */
+export interface DurationRules {
+    /** Reject a unit that appears more than once, under any spelling ("1h 1 hour"). Code: `DUPLICATE_UNIT`. */
+    noDuplicateUnits?: boolean;
+    /** Require larger units before smaller ones ("30m 1h" is rejected). Code: `UNIT_ORDER`. */
+    descendingOrder?: boolean;
+    /** Reject tokens whose signs differ ("1h -30m"). Code: `MIXED_SIGNS`. */
+    noMixedSigns?: boolean;
+    /** Only allow a fractional value on the last token ("1.5h 30m" is rejected). Code: `FRACTIONAL_UNIT`. */
+    fractionalLastOnly?: boolean;
+    /** Smallest accepted duration, in milliseconds or as a duration string. Code: `OUT_OF_RANGE`. */
+    min?: number | string;
+    /** Largest accepted duration, in milliseconds or as a duration string. Code: `OUT_OF_RANGE`. */
+    max?: number | string;
+}
+
+/** The rules `strict: true` enables. */
+const STRICT_RULES: DurationRules = {
+    noDuplicateUnits: true,
+    descendingOrder: true,
+    noMixedSigns: true,
+    fractionalLastOnly: true,
+};
+
+/** Machine-readable reasons why a duration string could not be parsed. */
+export type DurationErrorCode =
+    | 'INVALID_NUMBER'
+    | 'UNKNOWN_UNIT'
+    | 'TRAILING_JUNK'
+    | 'INVALID_CLOCK_FORMAT'
+    | 'INVALID_CLOCK_RANGE'
+    | 'INVALID_ISO_DURATION'
+    | 'CALENDAR_UNIT'
+    | 'DUPLICATE_UNIT'
+    | 'UNIT_ORDER'
+    | 'MIXED_SIGNS'
+    | 'FRACTIONAL_UNIT'
+    | 'OUT_OF_RANGE'
+    | 'DIALECT_SYNTAX'
+    | 'INVALID_RANGE'
+    | 'INVALID_EXPRESSION'
+    | 'TYPE_MISMATCH';
+
+/**
+ * Details about why a duration string could not be parsed.
+ */
+export interface DurationParseIssue {
+    /** Machine-readable error code. */
+    code: DurationErrorCode;
+    /** Human-readable message (the same one `parseDurationMs` throws). */
+    message: string;
+    /** The original, unmodified input. */
+    input: string;
+    /** The offending part of the input (`input.slice(start, end)`). */
+    substring: string;
+    /** Start offset of the offending part in `input`. */
+    start: number;
+    /** End offset (exclusive) of the offending part in `input`. */
+    end: number;
+}
+
+/** Result of `parseNaturalDuration`. */
+export interface NaturalDurationResult {
+    /** The duration in milliseconds. */
+    ms: number;
+    /** Words that were skipped, in input order; empty if the whole phrase was understood. */
+    ignored: DurationIgnoredWord[];
+}
+
+/** Result of `parseRelativeDuration`. */
+export interface RelativeDurationResult {
+    /** The signed offset in milliseconds: positive in the future, negative in the past. */
+    ms: number;
+    /** `now` plus the offset. */
+    date: Date;
+}
+
+/**
+ * Options for `parseRelativeDuration`; the parsing options apply to the duration.
+ */
+export interface RelativeDurationOptions extends ParseDurationOptions {
+    /** The instant the offset is relative to (default: `Date.now()` at call time). */
+    now?: Date | number;
+}
+
+/**
+ * Options for `formatRelativeDuration`.
+ */
+export interface FormatRelativeDurationOptions {
+    /** Locale(s) passed to `Intl.RelativeTimeFormat` (default: the runtime's locale). */
+    locale?: Intl.LocalesArgument;
+    /** "long" => "in 5 minutes", "short" => "in 5 min.", "narrow" (default: "long"). */
+    style?: Intl.RelativeTimeFormatStyle;
+    /** "always" => "in 1 day", "auto" => "tomorrow" (default: "always"). */
+    numeric?: Intl.RelativeTimeFormatNumeric;
+    /** How the value is rounded to a whole number of the chosen unit (default: "half-away"). */
+    rounding?: DurationRounding;
+}
+
+/** A duration found by `extractDurations`. */
+export interface DurationMatch {
+    /** The duration in milliseconds. */
+    ms: number;
+    /** The duration as written (`text.slice(start, end)`). */
+    text: string;
+    /** Start offset in the text. */
+    start: number;
+    /** End offset (exclusive) in the text. */
+    end: number;
+}
+
+/**
+ * Options for `extractDurations`.
+ */
+export interface ExtractDurationsOptions extends Pick<ParseDurationOptions, 'calendar' | 'locale' | 'rounding' | 'clockLayout' | 'clockOverflow'> {
+    /** Skip colon values that read as a time of day: "at 10:30", "until 17:00", "10:30 pm" (default: false). */
+    skipTimesOfDay?: boolean;
+}
+
+/** Result of `tryParseDurationMs`. */
+export type DurationParseResult =
+    | { ok: true; ms: number }
+    | { ok: false; error: DurationParseIssue };
+
+/**
+ * Error thrown by `parseDurationMs`, carrying the same fields as `DurationParseIssue`.
+ */
+export class DurationParseError extends Error implements DurationParseIssue {
+    readonly code: DurationErrorCode;
+    readonly input: string;
+    readonly substring: string;
+    readonly start: number;
+    readonly end: number;
+
+    constructor(issue: DurationParseIssue) {
+        super(issue.message);
+        this.name = 'DurationParseError';
+        this.code = issue.code;
+        this.input = issue.input;
+        this.substring = issue.substring;
+        this.start = issue.start;
+        this.end = issue.end;
+    }
+}
+
+/**
+ * Failure reported by the format-specific parsers; offsets are relative to the string they were given.
+ */
+interface ParseFailure {
+    code: DurationErrorCode;
+    start: number;
+    end: number;
+}
+
+/**
+ * A duration broken down per unit instead of summed, as returned by `parseDurationComponents`.
+ * Each field carries its own sign; `"1h -30m"` is `{hours: 1, minutes: -30, ...}`.
+ */
+export interface DurationComponents {
+    years: number;
+    months: number;
+    weeks: number;
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+    milliseconds: number;
+}
+
+/** All-zero components. */
+const ZERO_COMPONENTS: Readonly<DurationComponents> = {
+    years: 0,
+    months: 0,
+    weeks: 0,
+    days: 0,
+    hours: 0,
+    minutes: 0,
+    seconds: 0,
+    milliseconds: 0,
 };
-const TOKEN_REG_EX = /([+-]?\d+(?:\.\d+)?)\s*([a-zA-Z]+)/g;
+
+/** Component that fixed-length units of a given size are counted in. */
+const COMPONENT_BY_MS: ReadonlyMap<number, keyof DurationComponents> = new Map([
+    [UNIT_MS.w, 'weeks'],
+    [UNIT_MS.d, 'days'],
+    [UNIT_MS.h, 'hours'],
+    [UNIT_MS.m, 'minutes'],
+    [UNIT_MS.s, 'seconds'],
+    [UNIT_MS.ms, 'milliseconds'],
+]);
+
+/** Fields of a colon duration, largest first. */
+type ClockField = 'days' | 'hours' | 'minutes' | 'seconds';
+
+/** Clock components as parsed from "HH:MM(:SS(.sss))" or another layout; the sign applies to all of them. */
+interface ClockParts extends Record<ClockField, number> {
+    sign: 1 | -1;
+    /** Each field as written, without the sign ("0" if the layout has no such field). */
+    text: Record<ClockField, string>;
+}
+
+/** A unit token as matched by `TOKEN_REG_EX`; offsets are into the original input. */
+interface ScannedToken extends UnitEntry {
+    value: number;
+    /** The number as written, with its sign. */
+    text: string;
+    /** The unit as written in the input. */
+    unit: string;
+    start: number;
+    valueEnd: number;
+    unitStart: number;
+    end: number;
+}
+
+/** A syntactically valid duration string, split by format. */
+type DurationScan =
+    | { kind: 'empty' }
+    | { kind: 'unitless'; value: number; text: string; size: number; canonical: string }
+    | ({ kind: 'clock' } & ClockParts)
+    | { kind: 'iso'; parts: IsoDurationParts }
+    | { kind: 'tokens'; tokens: ScannedToken[] };
+
+/** Result of `scanWith`; `start`/`end` delimit the input without surrounding whitespace. */
+type ScanResult =
+    | { ok: true; input: string; start: number; end: number; scan: DurationScan }
+    | { ok: false; error: DurationParseIssue };
+
+/** How a duration string is written, as reported by `parseDurationParts`. */
+export type DurationSyntax = 'empty' | 'unitless' | 'tokens' | 'clock' | 'iso';
+
+/**
+ * A "<number> <unit>" token, as reported by `parseDurationParts`. Offsets are into the original input.
+ */
+export interface DurationToken<U extends string = DurationUnit> {
+    /** The signed number. */
+    value: number;
+    /** Canonical spelling of the unit ("hours" => "h"). */
+    unit: U;
+    /** The unit as written in the input. */
+    spelling: string;
+    /** Contribution to the total in milliseconds (not rounded). */
+    ms: number;
+    /** Start of the number (including its sign). */
+    start: number;
+    /** End of the number. */
+    valueEnd: number;
+    /** Start of the unit. */
+    unitStart: number;
+    /** End of the unit, and of the token. */
+    end: number;
+}
+
+/**
+ * The structure of a parsed duration string, as returned by `parseDurationParts`.
+ * `ms` is the same total `parseDurationMs` returns; `start`/`end` delimit the
+ * duration in the input without surrounding whitespace.
+ */
+export type DurationParts<U extends string = DurationUnit> = { ms: number; start: number; end: number } & (
+    | { kind: 'empty' }
+    | { kind: 'unitless'; value: number; unit: U }
+    | { kind: 'tokens'; tokens: DurationToken<U>[] }
+    | { kind: 'clock'; sign: 1 | -1; days: number; hours: number; minutes: number; seconds: number }
+    | { kind: 'iso'; components: DurationComponents }
+);
+
+/** A unit as emitted by `format`: compact spelling plus singular/plural long spellings. */
+export interface DurationFormatUnit<U extends string = DurationUnit> {
+    /** Used by the "compact" style ("1h"). */
+    short: U;
+    /** Used by the "long" style for a count of 1 (default: `short`). */
+    singular?: U;
+    /** Used by the "long" style for other counts (default: `singular`). */
+    plural?: U;
+}
+
+/**
+ * Configuration for `createDurationParser`.
+ */
+export interface DurationParserConfig<U extends string = never> {
+    /** Custom unit spellings: milliseconds per unit, or the name of another unit it aliases. */
+    units?: { [K in U]: number | NoInfer<U> | DurationUnit };
+    /** Keep the built-in units alongside `units`; custom spellings win on conflict (default: true). */
+    includeDefaults?: boolean;
+    /** Match unit spellings in the input case-sensitively (default: false). */
+    caseSensitive?: boolean;
+    /** Unit of bare numbers like "1500", or false to reject them (default: "ms"). */
+    unitless?: NoInfer<U> | DurationUnit | false;
+    /** Accept colon durations like "01:30" (default: true). */
+    colon?: boolean;
+    /** Default handling of months and years, overridable per call (default: "reject"). */
+    calendar?: CalendarUnitPolicy;
+    /**
+     * Units used by `format`, in any order. Defaults to d/h/m/s/ms when the built-in
+     * units are included, otherwise to the first spelling of each distinct unit size.
+     */
+    formatUnits?: readonly DurationFormatUnit<NoInfer<U> | DurationUnit>[];
+    /**
+     * Sum valid blank strings, unitless numbers and ASCII token lists with the single-pass
+     * scanner; other formats and invalid input still go to the general scanner, which reports
+     * the errors. False always uses the general scanner (default: true). Results are the same.
+     */
+    singlePass?: boolean;
+    /** Remember the results of up to this many inputs parsed without options, dropping the least recently used (default: 0, no cache). */
+    cacheSize?: number;
+}
+
+/**
+ * Functions returned by `createDurationParser`, bound to its unit table.
+ */
+export interface DurationParser<U extends string = DurationUnit> {
+    /** Like `parseDurationMs`. */
+    parse(input: string, options?: ParseDurationOptions): number;
+    /** Like `tryParseDurationMs`. */
+    tryParse(input: string, options?: ParseDurationOptions): DurationParseResult;
+    /** Like `parseDurationComponents`. */
+    parseComponents(input: string): DurationComponents;
+    /** Like `parseDurationNs`. */
+    parseNs(input: string, options?: ParseDurationOptions): bigint;
+    /** Like `parseNaturalDuration`. */
+    parseNatural(input: string, options?: ParseDurationOptions): NaturalDurationResult;
+    /** Like `parseDurationRange`. */
+    parseRange(input: string, options?: ParseDurationOptions): DurationRange;
+    /** Like `parseRelativeDuration`. */
+    parseRelative(input: string, options?: RelativeDurationOptions): RelativeDurationResult;
+    /** Like `formatRelativeDuration`, choosing among the parser's format units. */
+    formatRelative(ms: number, options?: FormatRelativeDurationOptions): string;
+    /** Like `extractDurations`. */
+    extract(text: string, options?: ExtractDurationsOptions): DurationMatch[];
+    /** Like `iterateDurations`. */
+    iterate(text: string, options?: ExtractDurationsOptions): IterableIterator<DurationMatch>;
+    /** Like `parseDurationConfig`. */
+    parseConfig<S extends DurationConfigSchema>(source: unknown, schema: S, options?: ParseDurationOptions): DurationConfig<S>;
+    /** Like `parseDurationParts`. */
+    parseParts(input: string, options?: ParseDurationOptions): DurationParts<U>;
+    /** Like `validateDuration`. */
+    validate(input: string, rules?: DurationRules, options?: ParseDurationOptions): DurationParseIssue[];
+    /** Like `isDurationUnit`: true if `unit` is exactly one of the configured spellings. */
+    isUnit(unit: string): unit is U;
+    /** Like `formatDurationMs`. */
+    format(ms: number, options?: FormatDurationOptions<U>): string;
+}
+
+/**
+ * Compiled parser configuration.
+ */
+interface ParserSettings {
+    /** Configured unit spellings, as declared. */
+    units: ReadonlyMap<string, UnitEntry>;
+    /** Unit spellings as matched in the input (lowercased unless case-sensitive). */
+    lookup: ReadonlyMap<string, UnitEntry>;
+    caseSensitive: boolean;
+    /** Unit of bare numbers, or null if they are rejected. */
+    unitless: (UnitEntry & { size: number }) | null;
+    colon: boolean;
+    calendar: CalendarUnitPolicy;
+    /** Units emitted by `format`, largest first. */
+    formatUnits: readonly (Required<DurationFormatUnit<string>> & { ms: number })[];
+    /** `lookup` compiled for the single-pass scanner, or null if it is disabled. */
+    trie: UnitTrie | null;
+}
+
+/**
+ * Components of an ISO 8601 duration, each already multiplied by the leading sign.
+ */
+interface IsoDurationParts {
+    years: number;
+    months: number;
+    weeks: number;
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+    /** The leading sign. */
+    sign: 1 | -1;
+    /** Components as written, without the leading sign ("0" if absent). */
+    text: Record<IsoComponent, string>;
+    /** Span of the first non-zero calendar component (years/months) in the input, if any. */
+    calendarSpan: [number, number] | null;
+}
+
+/** Components of an ISO 8601 duration, in order. */
+const ISO_COMPONENTS = ['years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds'] as const;
+
+type IsoComponent = typeof ISO_COMPONENTS[number];
+
+/**
+ * Parse an ISO 8601 duration string (e.g. "PT1H30M", "P2W", "-P1DT12H") into its components.
+ * @param s The input string.
+ * @returns The components, or null if invalid.
+ */
+function parseIsoDuration(s: string): IsoDurationParts | null {
+    const match = ISO_REG_EX.exec(s);
+    if (!match || match.slice(2).every(v => v === undefined)) return null;
+    // Only the smallest component may have a fraction ("PT1H30.5M", not "PT1.5H30M")
+    const smallest = match.findLastIndex(v => v !== undefined);
+    if (match.slice(2, smallest).some(v => v !== undefined && /[.,]/.test(v))) return null;
+    const sign = match[1] === '-' ? -1 : 1;
+    const [years, months, weeks, days, hours, minutes, seconds] = match.slice(2).map(v =>
+        v === undefined ? 0 : Number(v.replace(',', '.')) * sign,
+    ) as [number, number, number, number, number, number, number];
+    const calendarGroup = years !== 0 ? 2 : months !== 0 ? 3 : null;
+    const groupSpan = calendarGroup != null ? match.indices![calendarGroup]! : null;
+    const calendarSpan: [number, number] | null = groupSpan ? [groupSpan[0], groupSpan[1] + 1] : null;
+    const text = Object.fromEntries(ISO_COMPONENTS.map((c, i) => [c, match[i + 2] ?? '0'])) as Record<IsoComponent, string>;
+    return {years, months, weeks, days, hours, minutes, seconds, sign, text, calendarSpan};
+}
 
 /**
- * Parse a colon-delimited time string (HH:MM or HH:MM:SS(.sss)) into milliseconds.
+ * Parse a colon-delimited time string (HH:MM or HH:MM:SS(.sss) by default) into its components.
  * @param s The input string.
- * @returns The duration in milliseconds, or null if invalid.
- */
-function parseColonTimeToMs(s: string): number | null {
-    const parts = s.split(':');
-    if (parts.length !== 2 && parts.length !== 3) return null;
-    const hStr = parts[0]?.trim();
-    const mStr = parts[1]?.trim();
-    const sStr = parts.length === 3 ? parts[2]!.trim() : undefined;
-
-    // Hours can be fractional? We'll keep it strict-ish: hours integer for ":" format.
-    if (!hStr || !mStr) return null;
-    if (!/^[+-]?\d+$/.test(hStr)) return null;
-    if (!/^\d+$/.test(mStr)) return null;
-    if (sStr != null && !/^\d+(?:\.\d+)?$/.test(sStr)) return null;
-    const sign = hStr.startsWith('-') ? -1 : 1;
-    const hours = Math.abs(Number(hStr));
-    const minutes = Number(mStr);
-    const seconds = sStr != null ? Number(sStr) : 0;
+ * @param options The decimal separator of fractional seconds, the clock layout and overflow handling.
+ * @returns The clock components, or the reason they are invalid.
+ */
+function parseColonTime(
+    s: string,
+    options: { decimalSeparator?: '.' | ','; layout?: DurationClockLayout; overflow?: DurationClockOverflow } = {},
+): ClockParts | ParseFailure {
+    const {layout = 'auto', overflow = 'reject'} = options;
+    // .NET is culture-invariant
+    const decimalSeparator = layout === 'd.h:m:s' ? '.' : options.decimalSeparator ?? '.';
+
+    // Trimmed segments, with their offsets within s
+    const segments: { text: string; start: number; end: number }[] = [];
+    let pos = 0;
+    for (const part of s.split(':')) {
+        const start = pos + part.length - part.trimStart().length;
+        segments.push({text: part.trim(), start, end: start + part.trim().length});
+        pos += part.length + 1;
+    }
+    const whole: ParseFailure = {code: 'INVALID_CLOCK_FORMAT', start: 0, end: s.length};
+
+    let fields: readonly ClockField[];
+    if (layout === 'auto' || layout === 'd.h:m:s') {
+        if (segments.length !== 2 && segments.length !== 3) return whole;
+        fields = CLOCK_LAYOUTS['h:m:s'].slice(0, segments.length);
+        // .NET: days go before a "." in the first segment ("1.02:03")
+        const first = segments[0]!;
+        const dot = first.text.indexOf('.');
+        if (layout === 'd.h:m:s' && dot >= 0) {
+            segments.splice(
+                0,
+                1,
+                {text: first.text.slice(0, dot), start: first.start, end: first.start + dot},
+                {text: first.text.slice(dot + 1), start: first.start + dot + 1, end: first.end},
+            );
+            fields = ['days', ...fields];
+        }
+    } else {
+        fields = CLOCK_LAYOUTS[layout];
+        if (segments.length !== fields.length) return whole;
+    }
+    // .NET hours are limited even without days
+    const leading = layout === 'd.h:m:s' ? 'days' : fields[0]!;
+    const failAt = (code: DurationErrorCode, i: number): ParseFailure => ({code, start: segments[i]!.start, end: segments[i]!.end});
+
+    // Only the first field is signed, and only seconds can be fractional
+    const secondsRegEx = decimalSeparator === ',' ? /^\d+(?:,\d+)?$/ : /^\d+(?:\.\d+)?$/;
+    const texts = segments.map(segment => segment.text);
+    const sign = texts[0]!.startsWith('-') ? -1 : 1;
+    texts[0] = texts[0]!.replace(/^[+-]/, '');
+    for (const [i, field] of fields.entries()) {
+        if (!(field === 'seconds' ? secondsRegEx : /^\d+$/).test(texts[i]!)) return failAt('INVALID_CLOCK_FORMAT', i);
+    }
+    const values = texts.map(text => Number(text.replace(',', '.')));
 
     // Validate ranges
-    if (!Number.isFinite(hours) || !Number.isFinite(minutes) || !Number.isFinite(seconds)) return null;
-    if (minutes < 0 || minutes >= 60) return null;
-    if (seconds < 0 || seconds >= 60) return null;
+    const invalid = values.findIndex(value => !Number.isFinite(value));
+    if (invalid >= 0) return failAt('INVALID_NUMBER', invalid);
+    if (overflow === 'reject') {
+        const outOfRange = fields.findIndex((field, i) => field !== leading && values[i]! >= CLOCK_LIMITS[field]);
+        if (outOfRange >= 0) return failAt('INVALID_CLOCK_RANGE', outOfRange);
+    }
+
+    const clock: ClockParts = {
+        sign,
+        days: 0,
+        hours: 0,
+        minutes: 0,
+        seconds: 0,
+        text: {days: '0', hours: '0', minutes: '0', seconds: '0'},
+    };
+    for (const [i, field] of fields.entries()) {
+        clock[field] = values[i]!;
+        clock.text[field] = texts[i]!;
+    }
+    return clock;
+}
+
+/** Locale-dependent parts of the grammar. */
+interface LocaleSyntax {
+    /** Lowercase unit words mapped to the built-in unit they spell. */
+    words: ReadonlyMap<string, string>;
+    /** Lowercase words accepted between tokens. */
+    conjunctions: ReadonlySet<string>;
+    decimalSeparator: '.' | ',';
+    tokenRegEx: RegExp;
+    numberRegEx: RegExp;
+}
+
+/** The grammar without a locale. */
+const DEFAULT_SYNTAX: LocaleSyntax = {
+    words: new Map(),
+    conjunctions: new Set(),
+    decimalSeparator: '.',
+    tokenRegEx: TOKEN_REG_EX,
+    numberRegEx: NUMBER_REG_EX,
+};
+
+/** Compiled grammar per locale pack. */
+const LOCALE_SYNTAX = new WeakMap<DurationLocale, LocaleSyntax>();
 
-    // Compute total
-    const total = (hours * 3_600_000 + minutes * 60_000 + seconds * 1_000) * sign;
-    return Math.round(total);
+/**
+ * Resolve the `locale` option to a locale pack.
+ * @param locale A locale pack, a built-in locale code, or undefined.
+ * @param caller Function name for error messages.
+ * @returns The pack, or undefined if none was given.
+ * @throws Error If the code is not a built-in locale.
+ */
+function resolveLocale(locale: DurationLocale | DurationLocaleCode | undefined, caller: string): DurationLocale | undefined {
+    if (typeof locale !== 'string') return locale;
+    if (!Object.hasOwn(durationLocales, locale)) throw new Error(`${caller}: unknown locale "${locale}"`);
+    return durationLocales[locale];
 }
 
 /**
- * Parse a duration string into milliseconds.
+ * Get the grammar for a locale, compiling it on first use.
+ * @throws Error If the locale is unknown or maps a word to an unknown unit.
+ */
+function localeSyntax(locale: DurationLocale | DurationLocaleCode | undefined, caller: string): LocaleSyntax {
+    const pack = resolveLocale(locale, caller);
+    if (!pack) return DEFAULT_SYNTAX;
+    let syntax = LOCALE_SYNTAX.get(pack);
+    if (!syntax) {
+        const words = new Map<string, string>();
+        for (const [word, unit] of Object.entries(pack.units)) {
+            if (!BUILTIN_UNITS.has(unit)) throw new Error(`${caller}: unknown unit "${unit}" for locale word "${word}"`);
+            words.set(word.toLowerCase(), unit);
+        }
+        const {decimalSeparator = '.'} = pack;
+        const num = decimalSeparator === ',' ? '[+-]?\\d+(?:,\\d+)?' : '[+-]?\\d+(?:\\.\\d+)?';
+        syntax = {
+            words,
+            conjunctions: new Set(pack.conjunctions?.map(word => word.toLowerCase())),
+            decimalSeparator,
+            tokenRegEx: new RegExp(`(${num})\\s*(\\p{L}+)`, 'dgu'),
+            numberRegEx: new RegExp(`^${num}$`),
+        };
+        LOCALE_SYNTAX.set(pack, syntax);
+    }
+    return syntax;
+}
+
+/**
+ * Split a duration string into its format and raw components against a parser's settings.
  *
- * Supported:
- * - Tokens: "23 h 30 min", "1.5h", "10 seconds", "500ms"
- * - Colon:  "01:30" (HH:MM), "01:30:15.250" (HH:MM:SS(.sss))
- * - Unitless: "1500" => 1500ms
+ * Reports every syntax error; calendar units are kept as-is and only checked when summing.
  *
+ * @param settings The parser settings.
  * @param input The input duration string.
- * @returns The duration in milliseconds.
- * @throws Error If the input is invalid.
+ * @param options The `locale` whose words are accepted in addition to the parser's units, the
+ * clock layout and overflow handling, or the `dialect` to use instead.
+ * @returns The scanned duration, or the reason it is invalid.
  */
-export function parseDurationMs(input: string): number {
+function scanWith(
+    settings: ParserSettings,
+    input: string,
+    options: Pick<ParseDurationOptions, 'locale' | 'dialect' | 'clockLayout' | 'clockOverflow'> = {},
+): ScanResult {
+    const syntax = localeSyntax(options.locale, 'parseDurationMs');
     const raw = String(input);
     const trimmed = raw.trim();
-    if (!trimmed) return 0;
+
+    // Offsets below are relative to `trimmed`; shift them back onto `raw`
+    const offset = raw.length - raw.trimStart().length;
+    const fail = (code: DurationErrorCode, message: string, start: number, end: number): ScanResult => ({
+        ok: false,
+        error: makeIssue(code, message, raw, offset + start, offset + end),
+    });
+    const done = (scan: DurationScan): ScanResult => ({ok: true, input: raw, start: offset, end: offset + trimmed.length, scan});
+
+    // Another ecosystem's syntax; none of them accepts an empty string
+    if (options.dialect) {
+        const {dialect} = options;
+        const scanned = scanDialect(trimmed, dialect);
+        if (!Array.isArray(scanned)) {
+            const {code, start, end} = scanned;
+            const substring = trimmed.slice(start, end);
+            const messages: Record<typeof code, string> = {
+                DIALECT_SYNTAX: `parseDurationMs: invalid ${dialect} duration "${raw}"`,
+                UNKNOWN_UNIT: `parseDurationMs: unknown ${dialect} unit "${substring}" in "${raw}"`,
+                INVALID_NUMBER: `parseDurationMs: invalid number "${substring}" in "${raw}"`,
+                OUT_OF_RANGE: `parseDurationMs: ${dialect} duration "${raw}" is out of range`,
+            };
+            return fail(code, messages[code], start, end);
+        }
+        const tokens = scanned.map(token => ({
+            ...token,
+            start: offset + token.start,
+            valueEnd: offset + token.valueEnd,
+            unitStart: offset + token.unitStart,
+            end: offset + token.end,
+        }));
+        return done({kind: 'tokens', tokens});
+    }
+
+    if (!trimmed) return done({kind: 'empty'});
 
     // ":" delimiter
-    if (trimmed.includes(':')) {
-        const ms = parseColonTimeToMs(trimmed);
-        if (ms == null) throw new Error(`parseDurationMs: invalid ":" duration "${raw}"`);
-        return ms;
+    if (settings.colon && trimmed.includes(':')) {
+        const clock = parseColonTime(trimmed, {
+            decimalSeparator: syntax.decimalSeparator,
+            layout: options.clockLayout,
+            overflow: options.clockOverflow,
+        });
+        if ('code' in clock) {
+            return fail(clock.code, `parseDurationMs: invalid ":" duration "${raw}"`, clock.start, clock.end);
+        }
+        return done({kind: 'clock', ...clock});
+    }
+
+    // ISO 8601 ("P..." / "-P...")
+    if (/^[+-]?P/i.test(trimmed)) {
+        const parts = parseIsoDuration(trimmed);
+        if (parts == null) {
+            return fail('INVALID_ISO_DURATION', `parseDurationMs: invalid ISO 8601 duration "${raw}"`, 0, trimmed.length);
+        }
+        const span = parts.calendarSpan;
+        return done({kind: 'iso', parts: {...parts, calendarSpan: span && [offset + span[0], offset + span[1]]}});
     }
 
-    // Unitless => ms (fractional allowed; rounded to integer ms)
-    if (/^[+-]?\d+(?:\.\d+)?$/.test(trimmed)) {
-        const n = Number(trimmed);
-        if (!Number.isFinite(n)) throw new Error(`parseDurationMs: invalid number "${raw}"`);
-        return Math.round(n);
+    // Unitless => ms by default (fractional allowed; rounded to integer ms)
+    if (settings.unitless != null && syntax.numberRegEx.test(trimmed)) {
+        const n = Number(trimmed.replace(',', '.'));
+        if (!Number.isFinite(n)) {
+            return fail('INVALID_NUMBER', `parseDurationMs: invalid number "${raw}"`, 0, trimmed.length);
+        }
+        return done({kind: 'unitless', value: n, text: trimmed, ...settings.unitless});
     }
 
     // Token list
-    let total = 0;
-    let matchedAny = false;
-    for (const match of trimmed.matchAll(TOKEN_REG_EX)) {
-        matchedAny = true;
-        const value = Number(match[1]);
-        const unit = match[2].toLowerCase();
+    const tokens: ScannedToken[] = [];
+    let lastEnd = 0;
+    let junk: [number, number] | null = null;
+    for (const match of trimmed.matchAll(syntax.tokenRegEx)) {
+        const [numStart, numEnd] = match.indices![1]!;
+        const [unitStart, unitEnd] = match.indices![2]!;
+        const value = Number(match[1].replace(',', '.'));
+        const lower = match[2].toLowerCase();
+        const word = syntax.words.get(lower);
+        const entry = (word !== undefined ? settings.units.get(word) ?? BUILTIN_UNITS.get(word) : undefined) ??
+            settings.lookup.get(settings.caseSensitive ? match[2] : lower);
         if (!Number.isFinite(value)) {
-            throw new Error(`parseDurationMs: invalid number "${match[1]}" in "${raw}"`);
+            return fail('INVALID_NUMBER', `parseDurationMs: invalid number "${match[1]}" in "${raw}"`, numStart, numEnd);
         }
-        if (!isDurationUnit(unit)) {
-            throw new Error(`parseDurationMs: unknown unit "${match[2]}" in "${raw}"`);
+        if (entry === undefined) {
+            return fail('UNKNOWN_UNIT', `parseDurationMs: unknown unit "${match[2]}" in "${raw}"`, unitStart, unitEnd);
         }
-        const msPer = UNIT_MS[unit];
-        total += value * msPer;
+        junk ??= findJunk(trimmed, lastEnd, match.index, tokens.length > 0 ? syntax.conjunctions : undefined);
+        lastEnd = unitEnd;
+        tokens.push({
+            ...entry,
+            value,
+            text: match[1],
+            unit: match[2],
+            start: offset + numStart,
+            valueEnd: offset + numEnd,
+            unitStart: offset + unitStart,
+            end: offset + unitEnd,
+        });
     }
 
     // Ensure we didn't ignore junk
-    const remainder = trimmed.replace(TOKEN_REG_EX, '').trim();
-    if (!matchedAny || remainder.length > 0) {
-        throw new Error(`parseDurationMs: could not fully parse "${raw}"`);
+    junk ??= findJunk(trimmed, lastEnd, trimmed.length);
+    if (junk) {
+        return fail('TRAILING_JUNK', `parseDurationMs: could not fully parse "${raw}"`, ...junk);
     }
+    return done({kind: 'tokens', tokens});
+}
+
+/**
+ * Sum a scanned duration into milliseconds.
+ * @param scan The scanned duration.
+ * @param raw The original input (for error messages).
+ * @param calendar How months and years are converted.
+ * @returns `{ ok: true, ms }` or `{ ok: false, error }` if calendar units are rejected.
+ */
+function scanToMs(scan: DurationScan, raw: string, calendar: CalendarUnitPolicy): DurationParseResult {
+    switch (scan.kind) {
+        case 'empty':
+            return {ok: true, ms: 0};
+
+        case 'unitless':
+            return {ok: true, ms: Math.round(scan.value * scan.size) + 0};
 
-    // Final rounding
-    return Math.round(total);
+        case 'clock': {
+            const total = (scan.days * UNIT_MS.d + scan.hours * UNIT_MS.h + scan.minutes * UNIT_MS.m + scan.seconds * UNIT_MS.s) *
+                scan.sign;
+            return {ok: true, ms: Math.round(total) + 0};
+        }
+
+        case 'iso': {
+            const {parts} = scan;
+            if (parts.calendarSpan && calendar === 'reject') {
+                return {
+                    ok: false,
+                    error: makeIssue(
+                        'CALENDAR_UNIT',
+                        `parseDurationMs: ISO 8601 duration "${raw}" has calendar units (years/months); ` +
+                        'set the "calendar" option to "fixed" or "average" to accept them',
+                        raw,
+                        ...parts.calendarSpan,
+                    ),
+                };
+            }
+            const cal = calendar === 'reject' ? CALENDAR_MS.fixed : CALENDAR_MS[calendar];
+            const total =
+                parts.years * cal.year +
+                parts.months * cal.month +
+                parts.weeks * UNIT_MS.w +
+                parts.days * UNIT_MS.d +
+                parts.hours * UNIT_MS.h +
+                parts.minutes * UNIT_MS.m +
+                parts.seconds * UNIT_MS.s;
+            return {ok: true, ms: Math.round(total) + 0};
+        }
+
+        case 'tokens': {
+            let total = 0;
+            for (const token of scan.tokens) {
+                const ms = tokenMs(token, calendar);
+                if (ms == null) {
+                    return {
+                        ok: false,
+                        error: makeIssue(
+                            'CALENDAR_UNIT',
+                            `parseDurationMs: calendar unit "${token.unit}" in "${raw}" has no fixed length; ` +
+                            'set the "calendar" option to "fixed" or "average" to accept it',
+                            raw,
+                            token.unitStart,
+                            token.end,
+                        ),
+                    };
+                }
+                total += ms;
+            }
+
+            // Final rounding; "+ 0" turns Math.round(-0.5) === -0 into 0
+            return {ok: true, ms: Math.round(total) + 0};
+        }
+    }
 }
 
 /**
- * Check if a string is a valid duration unit.
- * @param unit The unit string to check.
- * @returns True if valid, false otherwise.
+ * Sum a scanned duration in milliseconds using exact decimal arithmetic.
+ *
+ * Numbers are taken as written in the input, and unit sizes as the decimals
+ * their shortest string form denotes, so nothing is rounded. Call only after
+ * `scanToMs` accepted the scan, so calendar units are known to be allowed.
+ *
+ * @param scanned The scan result.
+ * @param calendar How months and years are converted.
+ * @returns The exact total in milliseconds.
  */
-export function isDurationUnit(unit: string): unit is DurationUnit {
-    return unit in UNIT_MS;
+function scanToExactMs(scanned: Extract<ScanResult, { ok: true }>, calendar: CalendarUnitPolicy): Decimal {
+    const {scan} = scanned;
+    // With "reject", calendar units only get here as zero ISO 8601 components
+    const cal = calendar === 'reject' ? CALENDAR_MS.fixed : CALENDAR_MS[calendar];
+    const times = (text: string, ms: number) => multiply(decimal(text), fromNumber(ms));
+    switch (scan.kind) {
+        case 'empty':
+            return ZERO;
+
+        case 'unitless':
+            return times(scan.text, scan.size);
+
+        case 'clock': {
+            const {days, hours, minutes, seconds} = scan.text;
+            const total = [times(days, UNIT_MS.d), times(hours, UNIT_MS.h), times(minutes, UNIT_MS.m), times(seconds, UNIT_MS.s)]
+                .reduce(add);
+            return scan.sign < 0 ? negate(total) : total;
+        }
+
+        case 'iso': {
+            const {text, sign} = scan.parts;
+            const sizes: Record<IsoComponent, number> = {
+                years: cal.year,
+                months: cal.month,
+                weeks: UNIT_MS.w,
+                days: UNIT_MS.d,
+                hours: UNIT_MS.h,
+                minutes: UNIT_MS.m,
+                seconds: UNIT_MS.s,
+            };
+            const total = ISO_COMPONENTS.reduce((sum, c) => add(sum, times(text[c], sizes[c])), ZERO);
+            return sign < 0 ? negate(total) : total;
+        }
+
+        case 'tokens':
+            return scan.tokens.reduce((sum, token) => {
+                const size = typeof token.size === 'number' ? token.size : cal[token.size];
+                return add(sum, times(token.text, size));
+            }, ZERO);
+    }
+}
+
+/**
+ * Get a token's contribution in milliseconds.
+ * @param token The scanned token.
+ * @param calendar How months and years are converted.
+ * @returns The contribution, or null if it is a calendar unit and those are rejected.
+ */
+function tokenMs(token: ScannedToken, calendar: CalendarUnitPolicy): number | null {
+    if (typeof token.size === 'number') return token.value * token.size;
+    if (calendar === 'reject') return null;
+    return token.value * CALENDAR_MS[calendar][token.size];
+}
+
+/**
+ * Break a scanned duration down into per-unit components without summing them.
+ * @param scan The scanned duration.
+ * @returns The components; units outside the standard set are added to `milliseconds`.
+ */
+function scanToComponents(scan: DurationScan): DurationComponents {
+    const c: DurationComponents = {...ZERO_COMPONENTS};
+    switch (scan.kind) {
+        case 'empty':
+            break;
+
+        case 'unitless':
+            c.milliseconds = scan.value * scan.size;
+            break;
+
+        case 'clock':
+            // Most layouts have no days; keep them 0, not -0
+            c.days = scan.days * scan.sign + 0;
+            c.hours = scan.hours * scan.sign;
+            c.minutes = scan.minutes * scan.sign;
+            c.seconds = scan.seconds * scan.sign;
+            break;
+
+        case 'iso': {
+            const {years, months, weeks, days, hours, minutes, seconds} = scan.parts;
+            Object.assign(c, {years, months, weeks, days, hours, minutes, seconds});
+            break;
+        }
+
+        case 'tokens':
+            for (const {value, size} of scan.tokens) {
+                if (typeof size !== 'number') {
+                    c[`${size}s`] += value;
+                    continue;
+                }
+                const component = COMPONENT_BY_MS.get(size);
+                if (component) {
+                    c[component] += value;
+                } else {
+                    c.milliseconds += value * size;
+                }
+            }
+            break;
+    }
+    return c;
+}
+
+/**
+ * Parse a duration string against a parser's settings without throwing.
+ * @param settings The parser settings.
+ * @param input The input duration string.
+ * @param options Parsing options.
+ * @returns `{ ok: true, ms }` or `{ ok: false, error }`.
+ */
+function tryParseWith(settings: ParserSettings, input: string, options: ParseDurationOptions): DurationParseResult {
+    // Valid common inputs in one pass; the general scanner parses the rest again and reports every error
+    if (settings.trie && !options.strict && !options.rounding && !options.locale && !options.dialect) {
+        const calendar = options.calendar ?? settings.calendar;
+        const ms = scanTotal(
+            typeof input === 'string' ? input : String(input),
+            settings.trie,
+            settings.caseSensitive,
+            settings.unitless && settings.unitless.size,
+            calendar === 'reject' ? null : CALENDAR_MS[calendar],
+        );
+        if (!Number.isNaN(ms)) return {ok: true, ms};
+    }
+
+    const scanned = scanWith(settings, input, options);
+    if (!scanned.ok) return options.expression ? tryExpressionWith(settings, scanned.error.input, options) : scanned;
+    const calendar = options.calendar ?? settings.calendar;
+    let total = scanToMs(scanned.scan, scanned.input, calendar);
+    if (!total.ok) return total;
+    // systemd's "infinity" has no exact decimal value
+    if (options.rounding && Number.isFinite(total.ms)) {
+        total = {ok: true, ms: Number(roundDecimal(scanToExactMs(scanned, calendar), options.rounding))};
+    }
+    const issue = strictIssue(settings, scanned, total.ms, options);
+    return issue ? {ok: false, error: issue} : total;
+}
+
+/** A value while evaluating an expression: durations are in unrounded milliseconds. */
+interface ExpressionValue {
+    type: 'duration' | 'number';
+    value: number;
+}
+
+/**
+ * Evaluate an arithmetic duration expression against a parser's settings without throwing.
+ *
+ * Each duration operand (tokens, colon or ISO 8601) is parsed with the parser's grammar,
+ * the options and the unit rules of `strict`; the result is rounded once and checked
+ * against the bounds.
+ *
+ * @param settings The parser settings.
+ * @param raw The expression.
+ * @param options Parsing options.
+ * @returns `{ ok: true, ms }` or `{ ok: false, error }` with offsets into the expression.
+ */
+function tryExpressionWith(settings: ParserSettings, raw: string, options: ParseDurationOptions): DurationParseResult {
+    const fail = (code: DurationErrorCode, message: string, node: { start: number; end: number }): DurationParseResult => ({
+        ok: false,
+        error: makeIssue(code, `parseDurationMs: ${message}`, raw, node.start, node.end),
+    });
+    const tree = parseExpression(raw, localeSyntax(options.locale, 'parseDurationMs'));
+    if (!('kind' in tree)) return fail('INVALID_EXPRESSION', `${tree.detail} in "${raw}"`, tree);
+
+    // Bounds apply to the result, not to each operand
+    const rules = options.strict === true ? STRICT_RULES : options.strict || undefined;
+    const literalOptions: ParseDurationOptions = {
+        ...options,
+        expression: false,
+        rounding: undefined,
+        strict: rules && {...rules, min: undefined, max: undefined},
+    };
+    const describe = ({type}: ExpressionValue) => `a ${type}`;
+
+    const evaluate = (node: ExpressionNode): ExpressionValue | DurationParseResult => {
+        switch (node.kind) {
+            case 'number':
+                return {type: 'number', value: node.value};
+
+            case 'duration': {
+                const text = raw.slice(node.start, node.end);
+                const calendar = literalOptions.calendar ?? settings.calendar;
+                const shifted = ({code, message, start, end}: DurationParseIssue): DurationParseResult => ({
+                    ok: false,
+                    error: makeIssue(code, message, raw, node.start + start, node.start + end),
+                });
+                const scanned = scanWith(settings, text, literalOptions);
+                if (!scanned.ok) return shifted(scanned.error);
+                const total = scanToMs(scanned.scan, text, calendar);
+                if (!total.ok) return shifted(total.error);
+                const issue = strictIssue(settings, scanned, total.ms, literalOptions);
+                if (issue) return shifted(issue);
+                // Sum without rounding; the result is rounded once
+                const {scan} = scanned;
+                const value = scan.kind === 'tokens' ? scan.tokens.reduce((sum, token) => sum + tokenMs(token, calendar)!, 0) : total.ms;
+                return {type: 'duration', value};
+            }
+
+            case 'group':
+                return evaluate(node.expression);
+
+            case 'unary': {
+                const operand = evaluate(node.operand);
+                if (!('type' in operand)) return operand;
+                return {type: operand.type, value: node.operator === '-' ? -operand.value : operand.value};
+            }
+
+            case 'binary': {
+                const left = evaluate(node.left);
+                if (!('type' in left)) return left;
+                const right = evaluate(node.right);
+                if (!('type' in right)) return right;
+                const mismatch = (message: string) => fail('TYPE_MISMATCH', `${message} in "${raw}"`, node);
+                switch (node.operator) {
+                    case '+':
+                        if (left.type !== right.type) return mismatch(`cannot add ${describe(left)} and ${describe(right)}`);
+                        return {type: left.type, value: left.value + right.value};
+                    case '-':
+                        if (left.type !== right.type) return mismatch(`cannot subtract ${describe(right)} from ${describe(left)}`);
+                        return {type: left.type, value: left.value - right.value};
+                    case '*':
+                        if (left.type === 'duration' && right.type === 'duration') {
+                            return mismatch('cannot multiply a duration by a duration');
+                        }
+                        return {type: left.type === 'duration' ? left.type : right.type, value: left.value * right.value};
+                    case '/':
+                        if (left.type === 'number' && right.type === 'duration') {
+                            return mismatch('cannot divide a number by a duration');
+                        }
+                        if (right.value === 0) {
+                            return fail('INVALID_EXPRESSION', `division by zero in "${raw}"`, node.right);
+                        }
+                        return {type: left.type === right.type ? 'number' : 'duration', value: left.value / right.value};
+                }
+            }
+        }
+    };
+
+    const result = evaluate(tree);
+    if (!('type' in result)) return result;
+    if (result.type !== 'duration') {
+        return fail('TYPE_MISMATCH', `expression "${raw}" is a number, not a duration`, tree);
+    }
+    if (!Number.isFinite(result.value)) {
+        return fail('INVALID_NUMBER', `expression "${raw}" is out of range`, tree);
+    }
+    const ms = options.rounding ? roundToStep(result.value, 1, options.rounding) : Math.round(result.value) + 0;
+    const issue = strictIssue(settings, {ok: true, input: raw, start: tree.start, end: tree.end, scan: {kind: 'empty'}}, ms, options);
+    return issue ? {ok: false, error: issue} : {ok: true, ms};
+}
+
+/**
+ * Parse a duration string into exact nanoseconds against a parser's settings.
+ * @param settings The parser settings.
+ * @param input The input duration string.
+ * @param options Parsing options.
+ * @returns The duration in nanoseconds.
+ * @throws DurationParseError If the input is invalid.
+ */
+function parseNsWith(settings: ParserSettings, input: string, options: ParseDurationOptions): bigint {
+    const scanned = scanWith(settings, input, options);
+    if (!scanned.ok) throw new DurationParseError(scanned.error);
+    const calendar = options.calendar ?? settings.calendar;
+    const total = scanToMs(scanned.scan, scanned.input, calendar);
+    if (!total.ok) throw new DurationParseError(total.error);
+    const issue = strictIssue(settings, scanned, total.ms, options);
+    if (issue) throw new DurationParseError(issue);
+    if (!Number.isFinite(total.ms)) {
+        throw new DurationParseError(makeIssue(
+            'OUT_OF_RANGE',
+            `parseDurationNs: infinite duration "${scanned.input}" has no nanosecond value`,
+            scanned.input,
+            scanned.start,
+            scanned.end,
+        ));
+    }
+    return roundDecimal(shift(scanToExactMs(scanned, calendar), 6), options.rounding ?? 'half-even');
+}
+
+/**
+ * Parse an English duration phrase against a parser's settings.
+ * @param settings The parser settings.
+ * @param input The phrase.
+ * @param options Parsing options (`calendar` applies; the grammar is English only).
+ * @returns The duration and the words that were skipped.
+ * @throws DurationParseError If no duration is found, or calendar units are rejected.
+ */
+function parseNaturalWith(settings: ParserSettings, input: string, options: ParseDurationOptions): NaturalDurationResult {
+    const calendar = options.calendar ?? settings.calendar;
+    const exact = tryParseWith(settings, input, {calendar});
+    if (exact.ok) return {ms: exact.ms, ignored: []};
+    if (exact.error.code === 'CALENDAR_UNIT' || exact.error.code === 'INVALID_NUMBER') {
+        throw new DurationParseError(exact.error);
+    }
+
+    const raw = String(input);
+    const unitOf = (word: string) => settings.lookup.get(settings.caseSensitive ? word : word.toLowerCase());
+    const {terms, ignored} = scanNatural(raw, word => unitOf(word) !== undefined);
+    if (terms.length === 0) {
+        throw new DurationParseError(makeIssue(
+            'TRAILING_JUNK',
+            `parseNaturalDuration: no duration found in "${raw}"`,
+            raw,
+            raw.length - raw.trimStart().length,
+            raw.trimEnd().length,
+        ));
+    }
+    const tokens: ScannedToken[] = terms.map(term => ({
+        ...unitOf(term.unit)!,
+        value: term.value,
+        text: String(term.value),
+        unit: term.unit,
+        start: term.start,
+        valueEnd: term.unitStart,
+        unitStart: term.unitStart,
+        end: term.end,
+    }));
+    const total = scanToMs({kind: 'tokens', tokens}, raw, calendar);
+    if (!total.ok) throw new DurationParseError(total.error);
+    return {ms: total.ms, ignored};
 }
+
+/**
+ * Parse a relative-time phrase against a parser's settings.
+ * @param settings The parser settings.
+ * @param input The phrase.
+ * @param options The instant the offset is relative to, and parsing options for the duration.
+ * @returns The signed offset and the date it points to.
+ * @throws DurationParseError If no duration is found or it is invalid.
+ * @throws Error If `now` is not a valid date.
+ */
+function parseRelativeWith(settings: ParserSettings, input: string, options: RelativeDurationOptions): RelativeDurationResult {
+    const raw = String(input);
+    const {now = Date.now(), ...parseOptions} = options;
+    const nowMs = typeof now === 'number' ? now : now.getTime();
+    if (!Number.isFinite(nowMs)) {
+        throw new Error(`parseRelativeDuration: invalid now "${String(now)}"`);
+    }
+    const syntax = splitRelative(raw);
+    if (syntax.kind === 'now') return {ms: 0, date: new Date(nowMs)};
+
+    // Errors point into the whole phrase
+    const [start, end] = syntax.span;
+    const text = raw.slice(start, end);
+    if (!text.trim()) {
+        throw new DurationParseError(makeIssue('TRAILING_JUNK', `parseRelativeDuration: no duration found in "${raw}"`, raw, start, end));
+    }
+    const result = tryParseWith(settings, text, parseOptions);
+    if (!result.ok) {
+        const {code, message, start: from, end: to} = result.error;
+        // Quote the whole phrase, which the offsets index into
+        const quoted = `"${text.trim()}"`;
+        const at = message.lastIndexOf(quoted);
+        const whole = at < 0 ? message : `${message.slice(0, at)}"${raw}"${message.slice(at + quoted.length)}`;
+        throw new DurationParseError(makeIssue(
+            code,
+            whole.replace(/^parseDurationMs:/, 'parseRelativeDuration:'),
+            raw,
+            start + from,
+            start + to,
+        ));
+    }
+    const ms = syntax.sign * result.ms + 0;
+    return {ms, date: new Date(nowMs + ms)};
+}
+
+/** `Intl.RelativeTimeFormat` units, by their length in milliseconds. */
+const RELATIVE_UNITS: ReadonlyMap<number, Intl.RelativeTimeFormatUnitSingular> = new Map([
+    [UNIT_MS.w, 'week'],
+    [UNIT_MS.d, 'day'],
+    [UNIT_MS.h, 'hour'],
+    [UNIT_MS.m, 'minute'],
+    [UNIT_MS.s, 'second'],
+]);
+
+/**
+ * Format a signed offset as a relative-time phrase against a parser's settings.
+ *
+ * The unit is the largest of the parser's format units that `Intl.RelativeTimeFormat`
+ * can name and that fits the offset; shorter offsets are in seconds.
+ *
+ * @param settings The parser settings.
+ * @param ms The offset in milliseconds: positive in the future, negative in the past.
+ * @param options The locale, style, numeric display and rounding.
+ * @returns The phrase.
+ * @throws Error If the offset is not finite.
+ * @throws RangeError If the locale or an option is invalid.
+ */
+function formatRelativeWith(settings: ParserSettings, ms: number, options: FormatRelativeDurationOptions): string {
+    if (typeof ms !== 'number' || !Number.isFinite(ms)) {
+        throw new Error(`formatRelativeDuration: invalid duration "${ms}"`);
+    }
+    const {locale, style, numeric, rounding = 'half-away'} = options;
+    const sizes = settings.formatUnits.map(unit => unit.ms).filter(size => RELATIVE_UNITS.has(size));
+    if (!sizes.includes(UNIT_MS.s)) sizes.push(UNIT_MS.s);
+    let index = sizes.findIndex(size => Math.abs(ms) >= size);
+    if (index < 0) index = sizes.length - 1;
+    let rounded = roundToStep(ms, sizes[index]!, rounding);
+    // Rounding up can reach the next unit ("59.9s" is "1 minute", not "60 seconds")
+    if (index > 0 && Math.abs(rounded) >= sizes[index - 1]!) {
+        index--;
+        rounded = roundToStep(ms, sizes[index]!, rounding);
+    }
+    const size = sizes[index]!;
+    return new Intl.RelativeTimeFormat(locale, {style, numeric}).format(rounded / size, RELATIVE_UNITS.get(size)!);
+}
+
+/**
+ * Find the durations in free text against a parser's settings.
+ * @param settings The parser settings.
+ * @param text The text.
+ * @param options Parsing options for each duration, and whether to skip times of day.
+ * @returns The durations, lazily, in text order.
+ * @throws Error If the locale is unknown (before iterating).
+ */
+function iterateWith(settings: ParserSettings, text: string, options: ExtractDurationsOptions): IterableIterator<DurationMatch> {
+    const syntax = localeSyntax(options.locale, 'extractDurations');
+    const {skipTimesOfDay = false, ...parseOptions} = options;
+    const calendar = options.calendar ?? settings.calendar;
+    const isUnit = (word: string) => {
+        const lower = word.toLowerCase();
+        const builtin = syntax.words.get(lower);
+        const entry = (builtin !== undefined ? settings.units.get(builtin) ?? BUILTIN_UNITS.get(builtin) : undefined) ??
+            settings.lookup.get(settings.caseSensitive ? word : lower);
+        // Rejected months and years are not units here, so they end a run instead of failing it
+        return entry !== undefined && (calendar !== 'reject' || typeof entry.size === 'number');
+    };
+    const raw = String(text);
+    const spans = scanText(raw, {
+        decimalSeparator: syntax.decimalSeparator,
+        conjunctions: syntax.conjunctions,
+        isUnit,
+        colon: settings.colon,
+        skipTimesOfDay,
+    });
+    return (function* () {
+        for (const {start, end} of spans) {
+            const substring = raw.slice(start, end);
+            // Clock values out of range ("25:99") are not durations
+            const result = tryParseWith(settings, substring, parseOptions);
+            if (result.ok) yield {ms: result.ms, text: substring, start, end};
+        }
+    })();
+}
+
+/**
+ * Parse a duration range or jitter expression against a parser's settings.
+ * @param settings The parser settings.
+ * @param input The range expression.
+ * @param options Parsing options, applied to each duration.
+ * @returns The inclusive bounds.
+ * @throws DurationParseError If a duration is invalid, a bound is missing, the jitter is negative or larger than the center, or min > max.
+ */
+function parseRangeWith(settings: ParserSettings, input: string, options: ParseDurationOptions): DurationRange {
+    const raw = String(input);
+    const syntax = splitRange(raw);
+    const fail = (message: string, start: number, end: number) =>
+        new DurationParseError(makeIssue('INVALID_RANGE', `parseDurationRange: ${message}`, raw, start, end));
+
+    // Parse one part; errors point into the whole expression
+    const parse = ([start, end]: RangeSpan): number => {
+        const text = raw.slice(start, end);
+        if (syntax.kind !== 'single' && !text.trim()) throw fail(`missing duration in "${raw}"`, start, end);
+        const result = tryParseWith(settings, text, options);
+        if (result.ok) return result.ms;
+        const {code, message, start: from, end: to} = result.error;
+        throw new DurationParseError(makeIssue(
+            code,
+            message.replace(/^parseDurationMs:/, 'parseDurationRange:'),
+            raw,
+            start + from,
+            start + to,
+        ));
+    };
+    const trimmed = (span: RangeSpan) => raw.slice(...span).trim();
+    const whole: RangeSpan = [raw.length - raw.trimStart().length, raw.trimEnd().length];
+
+    switch (syntax.kind) {
+        case 'single': {
+            const ms = parse([0, raw.length]);
+            return {minMs: ms, maxMs: ms};
+        }
+
+        case 'bounds': {
+            const minMs = parse(syntax.min);
+            const maxMs = parse(syntax.max);
+            if (minMs > maxMs) {
+                throw fail(
+                    `minimum "${trimmed(syntax.min)}" is greater than maximum "${trimmed(syntax.max)}" in "${raw}"`,
+                    ...whole,
+                );
+            }
+            return {minMs, maxMs};
+        }
+
+        case 'jitter': {
+            const center = parse(syntax.center);
+            // "±10%" is relative to the center
+            const percent = /^(\d+(?:\.\d+)?)\s*%$/.exec(trimmed(syntax.jitter));
+            const jitter = percent ? Math.round(Math.abs(center) * Number(percent[1]) / 100) : parse(syntax.jitter);
+            if (jitter < 0) throw fail(`negative jitter "${trimmed(syntax.jitter)}" in "${raw}"`, ...syntax.jitter);
+            // A jitter larger than the center would flip the sign of a bound
+            if (jitter > Math.abs(center)) {
+                throw fail(
+                    `jitter "${trimmed(syntax.jitter)}" is larger than center "${trimmed(syntax.center)}" in "${raw}"`,
+                    ...syntax.jitter,
+                );
+            }
+            return {minMs: center - jitter + 0, maxMs: center + jitter};
+        }
+    }
+}
+
+/**
+ * Parse a duration string into per-unit components against a parser's settings.
+ * @param settings The parser settings.
+ * @param input The input duration string.
+ * @returns The components.
+ * @throws DurationParseError If the input is invalid.
+ */
+function parseComponentsWith(settings: ParserSettings, input: string): DurationComponents {
+    const scanned = scanWith(settings, input);
+    if (!scanned.ok) throw new DurationParseError(scanned.error);
+    return scanToComponents(scanned.scan);
+}
+
+/**
+ * Parse a duration string into its structure against a parser's settings.
+ * @param settings The parser settings.
+ * @param input The input duration string.
+ * @param options Parsing options.
+ * @returns The parts.
+ * @throws DurationParseError If the input is invalid.
+ */
+function parsePartsWith(settings: ParserSettings, input: string, options: ParseDurationOptions): DurationParts<string> {
+    const calendar = options.calendar ?? settings.calendar;
+    const scanned = scanWith(settings, input, options);
+    if (!scanned.ok) throw new DurationParseError(scanned.error);
+    const total = scanToMs(scanned.scan, scanned.input, calendar);
+    if (!total.ok) throw new DurationParseError(total.error);
+    const issue = strictIssue(settings, scanned, total.ms, options);
+    if (issue) throw new DurationParseError(issue);
+
+    const {scan} = scanned;
+    const base = {ms: total.ms, start: scanned.start, end: scanned.end};
+    switch (scan.kind) {
+        case 'empty':
+            return {...base, kind: 'empty'};
+        case 'unitless':
+            return {...base, kind: 'unitless', value: scan.value, unit: scan.canonical};
+        case 'clock':
+            return {
+                ...base,
+                kind: 'clock',
+                sign: scan.sign,
+                days: scan.days,
+                hours: scan.hours,
+                minutes: scan.minutes,
+                seconds: scan.seconds,
+            };
+        case 'iso':
+            return {...base, kind: 'iso', components: scanToComponents(scan)};
+        case 'tokens':
+            return {
+                ...base,
+                kind: 'tokens',
+                tokens: scan.tokens.map(token => ({
+                    value: token.value,
+                    unit: token.canonical,
+                    spelling: token.unit,
+                    ms: tokenMs(token, calendar)!,
+                    start: token.start,
+                    valueEnd: token.valueEnd,
+                    unitStart: token.unitStart,
+                    end: token.end,
+                })),
+            };
+    }
+}
+
+/**
+ * Validate a duration string against a parser's settings, collecting every rule violation.
+ * @param settings The parser settings.
+ * @param input The input duration string.
+ * @param rules The rules to apply.
+ * @param options Parsing options.
+ * @returns The issues, in input order; empty if the input is valid.
+ */
+function validateWith(
+    settings: ParserSettings,
+    input: string,
+    rules: DurationRules,
+    options: ParseDurationOptions,
+): DurationParseIssue[] {
+    const scanned = scanWith(settings, input, options);
+    if (!scanned.ok) return [scanned.error];
+    const total = scanToMs(scanned.scan, scanned.input, options.calendar ?? settings.calendar);
+    if (!total.ok) return [total.error];
+    return checkRules(settings, scanned, total.ms, rules, options);
+}
+
+/**
+ * Apply the `strict` option to a successfully scanned duration.
+ * @returns The first violation, if any.
+ */
+function strictIssue(
+    settings: ParserSettings,
+    scanned: Extract<ScanResult, { ok: true }>,
+    ms: number,
+    options: ParseDurationOptions,
+): DurationParseIssue | undefined {
+    if (!options.strict) return undefined;
+    const rules = options.strict === true ? STRICT_RULES : options.strict;
+    return checkRules(settings, scanned, ms, rules, options)[0];
+}
+
+/**
+ * Check a successfully scanned duration against validation rules.
+ * @param settings The parser settings (used to parse string bounds).
+ * @param scanned The scan result.
+ * @param ms The duration's total in milliseconds.
+ * @param rules The rules to apply.
+ * @param options Parsing options (used to parse string bounds).
+ * @returns The violations, in input order.
+ * @throws Error If a bound is invalid.
+ */
+function checkRules(
+    settings: ParserSettings,
+    scanned: Extract<ScanResult, { ok: true }>,
+    ms: number,
+    rules: DurationRules,
+    options: ParseDurationOptions,
+): DurationParseIssue[] {
+    const {input: raw, scan} = scanned;
+    const issues: DurationParseIssue[] = [];
+
+    if (scan.kind === 'tokens') {
+        const seen = new Set<string>();
+        const first = scan.tokens[0];
+        for (const [i, token] of scan.tokens.entries()) {
+            const previous = scan.tokens[i - 1];
+            if (rules.noDuplicateUnits && seen.has(token.canonical)) {
+                issues.push(makeIssue(
+                    'DUPLICATE_UNIT',
+                    `parseDurationMs: duplicate unit "${token.unit}" in "${raw}"`,
+                    raw,
+                    token.unitStart,
+                    token.end,
+                ));
+            }
+            seen.add(token.canonical);
+            if (rules.descendingOrder && previous && sizeMs(token.size) > sizeMs(previous.size)) {
+                issues.push(makeIssue(
+                    'UNIT_ORDER',
+                    `parseDurationMs: unit "${token.unit}" in "${raw}" must come before "${previous.unit}"`,
+                    raw,
+                    token.unitStart,
+                    token.end,
+                ));
+            }
+            if (rules.noMixedSigns && first && token.text.startsWith('-') !== first.text.startsWith('-')) {
+                issues.push(makeIssue(
+                    'MIXED_SIGNS',
+                    `parseDurationMs: mixed signs in "${raw}"`,
+                    raw,
+                    token.start,
+                    token.end,
+                ));
+            }
+            if (rules.fractionalLastOnly && i < scan.tokens.length - 1 && !Number.isInteger(token.value)) {
+                issues.push(makeIssue(
+                    'FRACTIONAL_UNIT',
+                    `parseDurationMs: fractional value "${token.text}" in "${raw}" ` +
+                    'is only allowed on the last unit',
+                    raw,
+                    token.start,
+                    token.valueEnd,
+                ));
+            }
+        }
+    }
+
+    const outOfRange = (bound: number | string, relation: string): DurationParseIssue => makeIssue(
+        'OUT_OF_RANGE',
+        `parseDurationMs: duration "${raw}" is ${relation} "${typeof bound === 'number' ? `${bound}ms` : bound}"`,
+        raw,
+        scanned.start,
+        scanned.end,
+    );
+    if (rules.min !== undefined && ms < boundMs(settings, rules.min, 'min', options)) {
+        issues.push(outOfRange(rules.min, 'less than the minimum'));
+    }
+    if (rules.max !== undefined && ms > boundMs(settings, rules.max, 'max', options)) {
+        issues.push(outOfRange(rules.max, 'greater than the maximum'));
+    }
+    return issues;
+}
+
+/**
+ * Get a unit's size in milliseconds for ordering; calendar units use their average length.
+ */
+function sizeMs(size: UnitSize): number {
+    return typeof size === 'number' ? size : CALENDAR_MS.average[size];
+}
+
+/**
+ * Convert a `min`/`max` rule to milliseconds.
+ * @throws Error If the bound is not a finite number or a valid duration string.
+ */
+function boundMs(settings: ParserSettings, bound: number | string, name: string, options: ParseDurationOptions): number {
+    if (typeof bound === 'number') {
+        if (Number.isNaN(bound)) throw new Error(`parseDurationMs: invalid ${name} "${bound}"`);
+        return bound;
+    }
+    const result = tryParseWith(settings, bound, {calendar: options.calendar});
+    if (!result.ok) throw new Error(`parseDurationMs: invalid ${name} "${bound}": ${result.error.message}`);
+    return result.ms;
+}
+
+/**
+ * Build a `DurationParseIssue` for a span of the original input.
+ */
+function makeIssue(code: DurationErrorCode, message: string, input: string, start: number, end: number): DurationParseIssue {
+    return {code, message, input, substring: input.slice(start, end), start, end};
+}
+
+/**
+ * Find non-whitespace text between two offsets.
+ * @param s The input string.
+ * @param from Start offset.
+ * @param to End offset (exclusive).
+ * @param allowed Lowercase words that may fill the gap on their own (conjunctions between tokens).
+ * @returns The span of the trimmed text, or null if there is only whitespace or an allowed word.
+ */
+function findJunk(s: string, from: number, to: number, allowed?: ReadonlySet<string>): [number, number] | null {
+    const gap = s.slice(from, to);
+    const text = gap.trim();
+    if (!text || allowed?.has(text.toLowerCase())) return null;
+    const start = from + gap.length - gap.trimStart().length;
+    return [start, start + text.length];
+}
+
+/** Output styles supported by `formatDurationMs`. */
+export type DurationFormatStyle = 'compact' | 'long' | 'clock';
+
+/**
+ * Rounding modes: "round" rounds half toward +Infinity like `Math.round`, "half-away" half
+ * away from zero, "half-even" half to the even neighbour.
+ */
+export type DurationRounding = 'round' | 'half-away' | 'half-even' | 'floor' | 'ceil' | 'trunc';
+
+/** Sign handling for `formatDurationMs`. */
+export type DurationSignDisplay = 'auto' | 'always' | 'never';
+
+/**
+ * Options for `formatDurationMs`.
+ */
+export interface FormatDurationOptions<U extends string = DurationUnit> {
+    /** "compact" => "1h 30m", "long" => "1 hour 30 minutes", "clock" => "01:30:00" (default: "compact"). */
+    style?: DurationFormatStyle;
+    /** Maximum number of consecutive units to emit, starting at the largest non-zero one (ignored by "clock"). */
+    maxUnits?: number;
+    /** Smallest unit to emit; any remainder is rounded to a multiple of it (default: the smallest format unit, "ms"). */
+    smallestUnit?: U;
+    /** How the remainder is rounded (default: "half-away", i.e. half away from zero). */
+    rounding?: DurationRounding;
+    /** "auto" => "-" for negatives, "always" => also "+" for positives, "never" => absolute value (default: "auto"). */
+    sign?: DurationSignDisplay;
+    /** Locale pack (or built-in locale code) whose unit names and decimal separator are used. */
+    locale?: DurationLocale | DurationLocaleCode;
+    /**
+     * Fields of the "clock" style. "auto" (default) writes "HH:MM:SS(.sss)", dropping seconds
+     * when `smallestUnit` is larger; "d.h:m:s" writes .NET's "[d.]hh:mm:ss[.fffffff]".
+     */
+    clockLayout?: DurationClockLayout;
+    /** Write the duration the way another ecosystem does ("1h2m3.5s" for "go"); the other options are then ignored. */
+    dialect?: DurationDialect;
+}
+
+/**
+ * Canonical units used for formatting by the default parser, largest first.
+ */
+const FORMAT_UNITS: readonly Required<DurationFormatUnit>[] = [
+    {short: 'd', singular: 'day', plural: 'days'},
+    {short: 'h', singular: 'hour', plural: 'hours'},
+    {short: 'm', singular: 'minute', plural: 'minutes'},
+    {short: 's', singular: 'second', plural: 'seconds'},
+    {short: 'ms', singular: 'millisecond', plural: 'milliseconds'},
+];
+
+/**
+ * Round a value to a multiple of `step` using the given rounding mode.
+ * @param value The value in milliseconds.
+ * @param step The step size in milliseconds.
+ * @param mode The rounding mode.
+ * @returns The rounded value (never -0).
+ */
+function roundToStep(value: number, step: number, mode: DurationRounding): number {
+    const q = value / step;
+    let n: number;
+    switch (mode) {
+        case 'floor':
+            n = Math.floor(q);
+            break;
+        case 'ceil':
+            n = Math.ceil(q);
+            break;
+        case 'trunc':
+            n = Math.trunc(q);
+            break;
+        case 'half-even':
+            n = Math.abs(q % 1) === 0.5 ? 2 * Math.round(q / 2) : Math.round(q);
+            break;
+        case 'round':
+            n = Math.round(q);
+            break;
+        default:
+            n = Math.sign(q) * Math.round(Math.abs(q));
+    }
+    return n * step + 0;
+}
+
+/**
+ * Left-pad a non-negative integer with zeros.
+ */
+function pad(n: number, width: number): string {
+    return String(n).padStart(width, '0');
+}
+
+/**
+ * Write a non-negative duration in a clock layout.
+ * @param ms The duration in milliseconds, already rounded.
+ * @param layout The clock layout.
+ * @param smallestMs Size of the smallest unit to emit; "auto" drops seconds when it is larger.
+ * @param decimalSeparator Separator of fractional seconds (.NET always uses ".").
+ * @returns The clock string, without a sign.
+ */
+function formatClock(ms: number, layout: DurationClockLayout, smallestMs: number, decimalSeparator: '.' | ','): string {
+    const days = Math.floor(ms / UNIT_MS.d);
+    const hours = Math.floor((ms % UNIT_MS.d) / UNIT_MS.h);
+    const minutes = Math.floor((ms % UNIT_MS.h) / UNIT_MS.m);
+    const seconds = Math.floor((ms % UNIT_MS.m) / UNIT_MS.s);
+    const millis = ms % UNIT_MS.s;
+    const fraction = millis > 0 ? `${decimalSeparator}${pad(millis, 3)}` : '';
+    // The leading field holds everything larger
+    const totalHours = days * 24 + hours;
+    const hms = `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}`;
+    switch (layout) {
+        case 'h:m':
+            return `${pad(totalHours, 2)}:${pad(minutes, 2)}`;
+        case 'm:s':
+            return `${pad(totalHours * 60 + minutes, 2)}:${pad(seconds, 2)}${fraction}`;
+        case 'h:m:s':
+            return `${pad(totalHours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${fraction}`;
+        case 'd:h:m:s':
+            return `${pad(days, 2)}:${hms}${fraction}`;
+        case 'd.h:m:s': {
+            // 100ns ticks, as .NET writes them
+            const ticks = Math.round(millis * 10_000);
+            return `${days > 0 ? `${days}.` : ''}${hms}${ticks > 0 ? `.${pad(ticks, 7)}` : ''}`;
+        }
+        default:
+            return `${pad(totalHours, 2)}:${pad(minutes, 2)}${smallestMs <= UNIT_MS.s ? `:${pad(seconds, 2)}` : ''}${fraction}`;
+    }
+}
+
+/**
+ * Format a duration against a parser's settings.
+ * @param settings The parser settings.
+ * @param ms The duration in milliseconds.
+ * @param options Formatting options.
+ * @returns The formatted duration.
+ */
+function formatWith(settings: ParserSettings, ms: number, options: FormatDurationOptions<string>): string {
+    if (options.dialect) return formatDialect(ms, options.dialect);
+    const {style = 'compact', maxUnits = Infinity, smallestUnit, rounding = 'half-away', sign = 'auto', clockLayout = 'auto'} = options;
+    if (typeof ms !== 'number' || !Number.isFinite(ms)) {
+        throw new Error(`formatDurationMs: invalid duration "${ms}"`);
+    }
+    const locale = resolveLocale(options.locale, 'formatDurationMs');
+    const localNames: Readonly<Partial<Record<string, DurationLocaleUnitNames>>> = locale?.formatUnits ?? {};
+    const namesOf = (unit: DurationLocaleUnitNames) => localNames[settings.units.get(unit.short)!.canonical] ?? unit;
+    const smallestMs = smallestUnit === undefined
+        ? settings.formatUnits[settings.formatUnits.length - 1]!.ms
+        : settings.units.get(smallestUnit)?.size;
+    if (smallestMs === undefined) {
+        throw new Error(`formatDurationMs: unknown unit "${smallestUnit}"`);
+    }
+    if (typeof smallestMs !== 'number') {
+        throw new Error(`formatDurationMs: calendar unit "${smallestUnit}" has no fixed length`);
+    }
+    if (!(maxUnits >= 1)) {
+        throw new Error(`formatDurationMs: invalid maxUnits "${maxUnits}"`);
+    }
+
+    let units = settings.formatUnits.filter(u => u.ms >= smallestMs);
+    if (units.length === 0) {
+        throw new Error(`formatDurationMs: no format unit is at least as large as "${smallestUnit}"`);
+    }
+    // "h:m" has no seconds to round into
+    let total = roundToStep(ms, style === 'clock' && clockLayout === 'h:m' ? Math.max(smallestMs, UNIT_MS.m) : smallestMs, rounding);
+
+    // Limit the number of units, re-rounding the original value into the last one kept
+    if (style !== 'clock') {
+        const first = units.findIndex(u => Math.abs(total) >= u.ms);
+        if (first !== -1 && first + maxUnits < units.length) {
+            units = units.slice(0, first + maxUnits);
+            total = roundToStep(ms, Math.max(units[units.length - 1]!.ms, smallestMs), rounding);
+        }
+    }
+
+    const negative = total < 0 && sign !== 'never';
+    const prefix = negative ? '-' : sign === 'always' && total > 0 ? '+' : '';
+    let rest = Math.abs(total);
+
+    if (style === 'clock') {
+        return prefix + formatClock(rest, clockLayout, smallestMs, locale?.decimalSeparator ?? '.');
+    }
+
+    const parts: string[] = [];
+    for (const unit of units) {
+        const count = Math.floor(rest / unit.ms);
+        rest -= count * unit.ms;
+        if (count === 0) continue;
+        const names = namesOf(unit);
+        parts.push(style === 'long'
+            ? `${prefix}${count} ${count === 1 ? names.singular : names.plural}`
+            : `${prefix}${count}${names.short}`);
+    }
+    if (parts.length === 0) {
+        const names = namesOf(units[units.length - 1]!);
+        return style === 'long' ? `0 ${names.plural}` : `0${names.short}`;
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Resolve a unit (or a chain of aliases) to its size and canonical spelling.
+ * @param declared Custom unit spellings mapped to milliseconds or the name of another unit.
+ * @param builtins Built-in units available to resolve against.
+ * @param name The unit to resolve.
+ * @param chain Aliases followed so far (for error messages and cycle detection).
+ * @returns The resolved unit; aliases share the entry of the unit they point to.
+ * @throws Error If the unit is unknown, has an invalid size or aliases form a cycle.
+ */
+function resolveUnit(
+    declared: Record<string, number | string>,
+    builtins: ReadonlyMap<string, UnitEntry>,
+    name: string,
+    chain: string[] = [],
+): UnitEntry {
+    if (!Object.hasOwn(declared, name)) {
+        const builtin = builtins.get(name);
+        if (builtin !== undefined) return builtin;
+        const alias = chain.length > 0 ? ` for alias "${chain[0]}"` : '';
+        throw new Error(`createDurationParser: unknown unit "${name}"${alias}`);
+    }
+    const value = declared[name]!;
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value) || value <= 0) {
+            throw new Error(`createDurationParser: invalid size ${value} for unit "${name}"`);
+        }
+        return {size: value, canonical: name};
+    }
+    if (chain.includes(name)) {
+        throw new Error(`createDurationParser: circular alias "${[...chain, name].join('" -> "')}"`);
+    }
+    return resolveUnit(declared, builtins, value, [...chain, name]);
+}
+
+/**
+ * Create a duration parser bound to its own unit table and grammar options.
+ *
+ * `parseDurationMs`, `tryParseDurationMs`, `formatDurationMs` and `isDurationUnit`
+ * are the default instance: `createDurationParser()`.
+ *
+ * @example
+ * const parser = createDurationParser({
+ *     units: {w: 604_800_000, week: 'w', weeks: 'w', sprint: 1_209_600_000},
+ * });
+ * parser.parse('1 sprint 2d'); // 1382400000
+ *
+ * @param config The parser configuration.
+ * @returns The bound `parse`, `tryParse`, `parseNs`, `parseNatural`, `parseRange`, `parseConfig`, `parseComponents`,
+ * `parseParts`, `validate`, `isUnit` and `format` functions.
+ * @throws Error If the configuration is invalid.
+ */
+export function createDurationParser<const U extends string = never>(
+    config?: DurationParserConfig<U> & { includeDefaults?: true },
+): DurationParser<U | DurationUnit>;
+export function createDurationParser<const U extends string = never>(
+    config: DurationParserConfig<U> & { includeDefaults: false },
+): DurationParser<U>;
+export function createDurationParser(config: DurationParserConfig<string> = {}): DurationParser<string> {
+    const {
+        units = {},
+        includeDefaults = true,
+        caseSensitive = false,
+        unitless = 'ms',
+        colon = true,
+        calendar = 'reject',
+        singlePass = true,
+        cacheSize = 0,
+    } = config;
+    if (!Number.isSafeInteger(cacheSize) || cacheSize < 0) {
+        throw new Error(`createDurationParser: invalid cacheSize "${cacheSize}"`);
+    }
+    const declared: Record<string, number | string> = units;
+    const builtins: ReadonlyMap<string, UnitEntry> = includeDefaults ? BUILTIN_UNITS : new Map();
+
+    // Resolve aliases and build the lookup used while matching input
+    const table = new Map<string, UnitEntry>();
+    const lookup = new Map<string, UnitEntry>();
+    const lookupOwner = new Map<string, string>();
+    for (const name of new Set([...builtins.keys(), ...Object.keys(declared)])) {
+        const entry = resolveUnit(declared, builtins, name);
+        const key = caseSensitive ? name : name.toLowerCase();
+        const other = lookupOwner.get(key);
+        if (other !== undefined && lookup.get(key)!.size !== entry.size) {
+            throw new Error(`createDurationParser: units "${other}" and "${name}" collide when matched case-insensitively`);
+        }
+        table.set(name, entry);
+        lookup.set(key, entry);
+        lookupOwner.set(key, name);
+    }
+    if (table.size === 0) {
+        throw new Error('createDurationParser: no units defined');
+    }
+
+    // Bare numbers
+    let unitlessUnit: ParserSettings['unitless'] = null;
+    if (unitless !== false) {
+        const entry = table.get(unitless);
+        if (entry === undefined) throw new Error(`createDurationParser: unknown unitless unit "${unitless}"`);
+        const {size, canonical} = entry;
+        if (typeof size !== 'number') throw new Error(`createDurationParser: unitless unit "${unitless}" has no fixed length`);
+        unitlessUnit = {size, canonical};
+    }
+
+    // Units emitted by format, largest first
+    let formatDefs: readonly DurationFormatUnit<string>[];
+    if (config.formatUnits) {
+        formatDefs = config.formatUnits;
+    } else if (includeDefaults) {
+        formatDefs = FORMAT_UNITS;
+    } else {
+        const seen = new Set<UnitSize>();
+        formatDefs = [...table]
+            .filter(([, {size}]) => typeof size === 'number' && !seen.has(size) && seen.add(size))
+            .map(([short]) => ({short}));
+    }
+    const formatUnits = formatDefs.map(({short, singular = short, plural = singular}) => {
+        for (const name of [short, singular, plural]) {
+            if (!table.has(name)) throw new Error(`createDurationParser: unknown format unit "${name}"`);
+        }
+        const ms = table.get(short)!.size;
+        if (typeof ms !== 'number') throw new Error(`createDurationParser: format unit "${short}" has no fixed length`);
+        return {ms, short, singular, plural};
+    }).sort((a, b) => b.ms - a.ms);
+    if (formatUnits.length === 0) {
+        throw new Error('createDurationParser: no format units defined');
+    }
+
+    const settings: ParserSettings = {
+        units: table,
+        lookup,
+        caseSensitive,
+        unitless: unitlessUnit,
+        colon,
+        calendar,
+        formatUnits,
+        trie: singlePass ? compileUnits([...lookup].map(([spelling, {size}]) => [spelling, size])) : null,
+    };
+
+    // Only calls without options are cached, so the input is the whole key
+    const cache = cacheSize > 0 ? new LruCache<string, DurationParseResult>(cacheSize) : null;
+    const tryParse = (input: string, options: ParseDurationOptions = {}): DurationParseResult => {
+        if (!cache || !isDefault(options)) return tryParseWith(settings, input, options);
+        const key = String(input);
+        let result = cache.get(key);
+        if (result === undefined) {
+            result = tryParseWith(settings, key, options);
+            cache.set(key, result);
+        }
+        // Each caller gets its own copy, so changing it cannot affect later hits
+        return result.ok ? {ok: true, ms: result.ms} : {ok: false, error: {...result.error}};
+    };
+    return {
+        parse(input, options) {
+            const result = tryParse(input, options);
+            if (!result.ok) throw new DurationParseError(result.error);
+            return result.ms;
+        },
+        tryParse,
+        parseComponents: (input: string) => parseComponentsWith(settings, input),
+        parseNs: (input, options = {}) => parseNsWith(settings, input, options),
+        parseNatural: (input, options = {}) => parseNaturalWith(settings, input, options),
+        parseRange: (input, options = {}) => parseRangeWith(settings, input, options),
+        parseRelative: (input, options = {}) => parseRelativeWith(settings, input, options),
+        formatRelative: (ms, options = {}) => formatRelativeWith(settings, ms, options),
+        extract: (text, options = {}) => [...iterateWith(settings, text, options)],
+        iterate: (text, options = {}) => iterateWith(settings, text, options),
+        parseConfig: (source, schema, options = {}) => parseConfig('parseDurationConfig', tryParse, source, schema, options),
+        parseParts: (input, options = {}) => parsePartsWith(settings, input, options),
+        validate: (input, rules = STRICT_RULES, options = {}) => validateWith(settings, input, rules, options),
+        isUnit: (unit: string): unit is string => table.has(unit),
+        format: (ms, options = {}) => formatWith(settings, ms, options),
+    };
+}
+
+/**
+ * Check if parsing options are all left at their defaults.
+ * @param options The options.
+ * @returns True if no option is set.
+ */
+function isDefault(options: ParseDurationOptions): boolean {
+    for (const key in options) {
+        if (options[key as keyof ParseDurationOptions] !== undefined) return false;
+    }
+    return true;
+}
+
+/** The parser behind `parseDurationMs` and friends. */
+const DEFAULT_PARSER = createDurationParser();
+
+/**
+ * Parse a duration string into milliseconds without throwing.
+ *
+ * Accepts the same inputs as `parseDurationMs`. On failure the result carries a
+ * machine-readable code and the location of the offending part of the input.
+ *
+ * @param input The input duration string.
+ * @param options Parsing options.
+ * @returns `{ ok: true, ms }` or `{ ok: false, error }`.
+ */
+export function tryParseDurationMs(input: string, options: ParseDurationOptions = {}): DurationParseResult {
+    return DEFAULT_PARSER.tryParse(input, options);
+}
+
+/**
+ * Parse a duration string into milliseconds.
+ *
+ * Supported:
+ * - Tokens: "23 h 30 min", "1.5h", "10 seconds", "500ms", "2w"; months/years per the `calendar` option
+ * - Colon:  "01:30" (HH:MM), "01:30:15.250" (HH:MM:SS(.sss))
+ * - ISO 8601: "PT1H30M15.5S", "P2DT3H", "P2W", "-PT5M"
+ * - Unitless: "1500" => 1500ms
+ *
+ * @param input The input duration string.
+ * @param options Parsing options.
+ * @returns The duration in milliseconds.
+ * @throws DurationParseError If the input is invalid.
+ */
+export function parseDurationMs(input: string, options: ParseDurationOptions = {}): number {
+    return DEFAULT_PARSER.parse(input, options);
+}
+
+/**
+ * Parse a duration string into nanoseconds, exactly.
+ *
+ * Accepts the same inputs as `parseDurationMs`, but sums the numbers as written
+ * with exact decimal arithmetic instead of floating point, so sub-millisecond
+ * values ("1.5us", "250ns") and totals beyond `Number.MAX_SAFE_INTEGER` are kept.
+ * Only fractions of a nanosecond are rounded, per the `rounding` option
+ * (default: "half-even").
+ *
+ * @example
+ * parseDurationNs('1ms 250us'); // 1250000n
+ *
+ * @param input The input duration string.
+ * @param options Parsing options.
+ * @returns The duration in nanoseconds.
+ * @throws DurationParseError If the input is invalid.
+ */
+export function parseDurationNs(input: string, options: ParseDurationOptions = {}): bigint {
+    return DEFAULT_PARSER.parseNs(input, options);
+}
+
+/**
+ * Parse a duration range ("5s..30s", "1m-5m") or a center with jitter ("10s ± 2s", "30s ±10%").
+ *
+ * Each duration uses the same grammar and options as `parseDurationMs`. A "-"
+ * after the first character always separates two bounds, so use ".." for
+ * negative maximums. A single duration is a range of one value.
+ *
+ * @example
+ * parseDurationRange('5s..30s');   // {minMs: 5000, maxMs: 30000}
+ * parseDurationRange('10s ± 2s');  // {minMs: 8000, maxMs: 12000}
+ * parseDurationRange('30s ±10%');  // {minMs: 27000, maxMs: 33000}
+ *
+ * @param input The range expression.
+ * @param options Parsing options, applied to each duration.
+ * @returns The inclusive bounds in milliseconds.
+ * @throws DurationParseError If a duration is invalid, or the range is not (code `INVALID_RANGE`).
+ */
+export function parseDurationRange(input: string, options: ParseDurationOptions = {}): DurationRange {
+    return DEFAULT_PARSER.parseRange(input, options);
+}
+
+/**
+ * Read durations out of a config object, such as parsed YAML or JSON, or `process.env`.
+ *
+ * Each schema field names where its value is, and may give a default, require
+ * it, and bound it. Strings use the same grammar and options as
+ * `parseDurationMs`; numbers are milliseconds. Every invalid value is reported,
+ * not just the first.
+ *
+ * @example
+ * parseDurationConfig({http: {timeout: '30s'}}, {
+ *     timeout: {path: 'http.timeout', max: '1m'},
+ *     ttl: {path: 'cache.ttl', default: '1d'},
+ * }); // {timeout: 30000, ttl: 86400000}
+ *
+ * @param source The config object.
+ * @param schema The fields to read, by the name they get in the result.
+ * @param options Parsing options, applied to every value.
+ * @returns The durations in milliseconds; missing optional fields without a default are undefined.
+ * @throws DurationConfigError If any value is invalid, missing or out of range; `issues` lists them with their paths.
+ * @throws Error If a `min` or `max` in the schema is invalid.
+ */
+export function parseDurationConfig<S extends DurationConfigSchema>(
+    source: unknown,
+    schema: S,
+    options: ParseDurationOptions = {},
+): DurationConfig<S> {
+    return DEFAULT_PARSER.parseConfig(source, schema, options);
+}
+
+/**
+ * Read a duration from an environment variable.
+ *
+ * @example
+ * const timeoutMs = env('TIMEOUT', '30s'); // TIMEOUT=2m => 120000; unset => 30000
+ *
+ * @param name The variable's name.
+ * @param defaultValue Used when the variable is unset or blank, in milliseconds or as a duration string.
+ * @param options Parsing options.
+ * @returns The duration in milliseconds, or undefined if the variable is unset and there is no default.
+ * @throws DurationConfigError If the value is invalid.
+ */
+export function env(name: string, defaultValue: number | string, options?: ParseDurationOptions): number;
+export function env(name: string, defaultValue?: number | string, options?: ParseDurationOptions): number | undefined;
+export function env(name: string, defaultValue?: number | string, options: ParseDurationOptions = {}): number | undefined {
+    const schema = {[name]: {path: [name], default: defaultValue}};
+    return parseConfig('env', DEFAULT_PARSER.tryParse, globalThis.process?.env ?? {}, schema, options)[name];
+}
+
+/**
+ * Parse an English duration phrase such as "an hour and a half" or "two and a half days".
+ *
+ * Opt-in and more forgiving than `parseDurationMs`: understands number words
+ * ("twenty-five"), "a"/"an", "half"/"quarter", "and", commas and "of", using the
+ * same units. Anything `parseDurationMs` accepts is parsed exactly as it would be.
+ * Words it does not understand are skipped and returned in `ignored` instead of
+ * being guessed at, so callers can ask for confirmation when it is not empty.
+ *
+ * @example
+ * parseNaturalDuration('an hour and a half'); // {ms: 5400000, ignored: []}
+ * parseNaturalDuration('90 minutes or so');   // {ms: 5400000, ignored: [{word: 'or', ...}, {word: 'so', ...}]}
+ *
+ * @param input The phrase.
+ * @param options Parsing options (`calendar` applies).
+ * @returns The duration and the words that were skipped.
+ * @throws DurationParseError If no duration is found, or calendar units are rejected.
+ */
+export function parseNaturalDuration(input: string, options: ParseDurationOptions = {}): NaturalDurationResult {
+    return DEFAULT_PARSER.parseNatural(input, options);
+}
+
+/**
+ * Parse a relative-time phrase into a signed offset.
+ *
+ * "in 2 hours" and "5m from now" are positive, "30 minutes ago" is negative and
+ * "now" is zero; a duration without direction words keeps its own sign. The
+ * duration is parsed like `parseDurationMs`, with the same options. The direction
+ * words are English and case-insensitive.
+ *
+ * @example
+ * parseRelativeDuration('30 minutes ago', {now: Date.UTC(2024, 0, 1, 12)});
+ * // {ms: -1800000, date: 2024-01-01T11:30:00.000Z}
+ *
+ * @param input The phrase.
+ * @param options The instant the offset is relative to (default: now), and parsing options.
+ * @returns The signed offset in milliseconds and the date it points to.
+ * @throws DurationParseError If no duration is found or it is invalid.
+ * @throws Error If `now` is not a valid date.
+ */
+export function parseRelativeDuration(input: string, options: RelativeDurationOptions = {}): RelativeDurationResult {
+    return DEFAULT_PARSER.parseRelative(input, options);
+}
+
+/**
+ * Format a signed offset as a relative-time phrase with `Intl.RelativeTimeFormat`.
+ *
+ * The unit is the largest of the units `formatDurationMs` emits (days, hours, minutes
+ * and seconds) that fits the offset, and the value is rounded to a whole number of it.
+ *
+ * @example
+ * formatRelativeDuration(7_200_000, {locale: 'en'});  // "in 2 hours"
+ * formatRelativeDuration(-90_000, {locale: 'de'});    // "vor 2 Minuten"
+ *
+ * @param ms The offset in milliseconds: positive in the future, negative in the past.
+ * @param options The locale, style, numeric display and rounding.
+ * @returns The phrase.
+ * @throws Error If the offset is not finite.
+ * @throws RangeError If the locale or an option is invalid.
+ */
+export function formatRelativeDuration(ms: number, options: FormatRelativeDurationOptions = {}): string {
+    return DEFAULT_PARSER.formatRelative(ms, options);
+}
+
+/**
+ * Find every duration in free text, such as log lines or ticket bodies.
+ *
+ * Durations are runs of tokens ("took 3.2s", "retry in 5 min", "1h 30m") and
+ * colon durations ("SLA 01:30:00"), each parsed as `parseDurationMs` would.
+ * Matches inside words, numbers and identifiers ("v1.5s3", "h2") are skipped,
+ * and so are months and years unless the `calendar` option accepts them.
+ *
+ * @example
+ * extractDurations('retry in 5 min, took 3.2s');
+ * // [{ms: 300000, text: '5 min', start: 9, end: 14}, {ms: 3200, text: '3.2s', start: 21, end: 25}]
+ *
+ * @param text The text to search.
+ * @param options Parsing options, and whether to skip times of day.
+ * @returns The durations, in text order.
+ * @throws Error If the locale is unknown.
+ */
+export function extractDurations(text: string, options: ExtractDurationsOptions = {}): DurationMatch[] {
+    return DEFAULT_PARSER.extract(text, options);
+}
+
+/**
+ * Like `extractDurations`, but finds each duration only when the iterator asks for
+ * it, so large inputs can be processed without collecting every match.
+ *
+ * @param text The text to search.
+ * @param options Parsing options, and whether to skip times of day.
+ * @returns An iterator over the durations, in text order.
+ * @throws Error If the locale is unknown.
+ */
+export function iterateDurations(text: string, options: ExtractDurationsOptions = {}): IterableIterator<DurationMatch> {
+    return DEFAULT_PARSER.iterate(text, options);
+}
+
+/**
+ * Parse a duration string into per-unit components instead of a total.
+ *
+ * Accepts the same inputs as `parseDurationMs`, including months and years
+ * (which are kept as-is, so no `calendar` option is needed). Colon durations
+ * become hours/minutes/seconds and bare numbers become milliseconds.
+ *
+ * @example
+ * parseDurationComponents('1 month 2d 3h'); // {months: 1, days: 2, hours: 3, ...zeros}
+ *
+ * @param input The input duration string.
+ * @returns The components.
+ * @throws DurationParseError If the input is invalid.
+ */
+export function parseDurationComponents(input: string): DurationComponents {
+    return DEFAULT_PARSER.parseComponents(input);
+}
+
+/**
+ * Parse a duration string and return its structure along with the total.
+ *
+ * Tokens keep their value, canonical unit, original spelling, contribution in
+ * milliseconds and offsets into the input; colon durations keep their clock
+ * fields, and ISO 8601 durations their components. `ms` is always the value
+ * `parseDurationMs` returns for the same input and options.
+ *
+ * @example
+ * parseDurationParts('1 hour 30m').tokens; // [{value: 1, unit: 'h', spelling: 'hour', ms: 3600000, ...}, ...]
+ *
+ * @param input The input duration string.
+ * @param options Parsing options.
+ * @returns The parts, discriminated by `kind`.
+ * @throws DurationParseError If the input is invalid.
+ */
+export function parseDurationParts(input: string, options: ParseDurationOptions = {}): DurationParts {
+    return DEFAULT_PARSER.parseParts(input, options);
+}
+
+/**
+ * Check a duration string against validation rules, reporting every violation.
+ *
+ * Syntax errors are reported like `tryParseDurationMs` reports them (as the
+ * only issue); otherwise each broken rule yields an issue with its own code
+ * and location. Pass the same rules as the `strict` option to make
+ * `parseDurationMs` throw on the first one instead.
+ *
+ * @example
+ * validateDuration('30m 1h 1h').map(issue => issue.code); // ['UNIT_ORDER', 'DUPLICATE_UNIT']
+ *
+ * @param input The input duration string.
+ * @param rules The rules to apply (default: every rule except the bounds).
+ * @param options Parsing options.
+ * @returns The issues, in input order; empty if the input is valid.
+ * @throws Error If `min` or `max` is invalid.
+ */
+export function validateDuration(
+    input: string,
+    rules: DurationRules = STRICT_RULES,
+    options: ParseDurationOptions = {},
+): DurationParseIssue[] {
+    return DEFAULT_PARSER.validate(input, rules, options);
+}
+
+/**
+ * Format a duration in milliseconds as a human-readable string.
+ *
+ * Styles:
+ * - compact: "1h 30m 15s"
+ * - long:    "1 hour 30 minutes 15 seconds"
+ * - clock:   "01:30:15.250" (HH:MM:SS(.sss); days are folded into hours)
+ *
+ * Negative durations put the sign on every token ("-1h -30m") so the output
+ * parses back to the same value. With the default options the output of every
+ * style round-trips: `parseDurationMs(formatDurationMs(x)) === x` for integer `x`.
+ *
+ * @param ms The duration in milliseconds.
+ * @param options Formatting options.
+ * @returns The formatted duration.
+ * @throws Error If the duration or an option is invalid.
+ */
+export function formatDurationMs(ms: number, options: FormatDurationOptions = {}): string {
+    return DEFAULT_PARSER.format(ms, options);
+}
+
+/**
+ * Serialize a duration in milliseconds as an ISO 8601 duration string.
+ *
+ * Whole days are emitted as "D" and never folded into weeks, months or years,
+ * so the output is exact: "P1DT2H3M4.005S", "-PT5M", "PT0S".
+ *
+ * @param ms The duration in milliseconds (rounded to an integer).
+ * @returns The ISO 8601 duration.
+ * @throws Error If the duration is not finite.
+ */
+export function toIsoDuration(ms: number): string {
+    if (typeof ms !== 'number' || !Number.isFinite(ms)) {
+        throw new Error(`toIsoDuration: invalid duration "${ms}"`);
+    }
+    const total = roundToStep(ms, 1, 'half-away');
+    let rest = Math.abs(total);
+    const days = Math.floor(rest / UNIT_MS.d);
+    rest -= days * UNIT_MS.d;
+    const hours = Math.floor(rest / UNIT_MS.h);
+    rest -= hours * UNIT_MS.h;
+    const minutes = Math.floor(rest / UNIT_MS.m);
+    rest -= minutes * UNIT_MS.m;
+    const seconds = Math.floor(rest / UNIT_MS.s);
+    const millis = rest - seconds * UNIT_MS.s;
+
+    let time = '';
+    if (hours) time += `${hours}H`;
+    if (minutes) time += `${minutes}M`;
+    if (seconds || millis) time += millis ? `${seconds}.${pad(millis, 3).replace(/0+$/, '')}S` : `${seconds}S`;
+
+    let out = `${total < 0 ? '-' : ''}P`;
+    if (days) out += `${days}D`;
+    if (time) out += `T${time}`;
+    return out === 'P' ? 'PT0S' : out;
+}
+
+/**
+ * Check if a string is a valid duration unit.
+ * @param unit The unit string to check.
+ * @returns True if valid, false otherwise.
+ */
+export function isDurationUnit(unit: string): unit is DurationUnit {
+    return DEFAULT_PARSER.isUnit(unit);
+}
+
+export {addDuration, durationBetween, type CalendarOptions} from './calendar.js';
+export {durationLocales, type DurationLocale, type DurationLocaleCode, type DurationLocaleUnitNames} from './locales.js';
+export type {DurationIgnoredWord} from './natural.js';
+export type {DurationDialect} from './dialects.js';
+export {sampleDurationRange, type DurationRange} from './range.js';
+export {
+    DurationConfigError,
+    type DurationConfig,
+    type DurationConfigErrorCode,
+    type DurationConfigField,
+    type DurationConfigIssue,
+    type DurationConfigSchema,
+} from './config.js';
+export {duration, type DurationLiteral, type DurationString, type DurationTokenString, type Milliseconds} from './literal.js';
+export {Duration, type DurationInput, type DurationLike} from './duration.js';
+export {
+    abortAfter,
+    setDurationInterval,
+    setLongTimeout,
+    sleep,
+    timeout,
+    type AbortableTimerOptions,
+    type DurationTimer,
+    type TimerClock,
+    type TimerOptions,
+} from './timers.js';
@@ -0,0 +1,164 @@
+import {describe, it, expectTypeOf} from 'vitest';
+import {duration, type DurationLiteral, type DurationString, type DurationUnit, type Milliseconds} from './index.js';
+
+describe('DurationString', () => {
+    it('accepts unitless numbers, one or two tokens and colon durations', () => {
+        expectTypeOf<'1500'>().toExtend<DurationString>();
+        expectTypeOf<'-200'>().toExtend<DurationString>();
+        expectTypeOf<'5'>().toExtend<DurationString>();
+        expectTypeOf<'5m'>().toExtend<DurationString>();
+        expectTypeOf<'1.5h'>().toExtend<DurationString>();
+        expectTypeOf<'10 seconds'>().toExtend<DurationString>();
+        expectTypeOf<'2 µs'>().toExtend<DurationString>();
+        expectTypeOf<'1h 30m'>().toExtend<DurationString>();
+        expectTypeOf<'1h30m'>().toExtend<DurationString>();
+        expectTypeOf<'1 hour 30 minutes'>().toExtend<DurationString>();
+        expectTypeOf<'01:30'>().toExtend<DurationString>();
+        expectTypeOf<'01:30:15.250'>().toExtend<DurationString>();
+        expectTypeOf<'-1:30'>().toExtend<DurationString>();
+        expectTypeOf<'0:00:00.005'>().toExtend<DurationString>();
+        expectTypeOf<'-2.5 hours'>().toExtend<DurationString>();
+    });
+
+    it('rejects typos and other strings', () => {
+        expectTypeOf<'5 minuts'>().not.toExtend<DurationString>();
+        expectTypeOf<'m'>().not.toExtend<DurationString>();
+        expectTypeOf<'1h30'>().not.toExtend<DurationString>();
+        expectTypeOf<'1H'>().not.toExtend<DurationString>();
+        expectTypeOf<''>().not.toExtend<DurationString>();
+        expectTypeOf<'1h 2m 3s'>().not.toExtend<DurationString>();
+        expectTypeOf<string>().not.toExtend<DurationString>();
+    });
+
+    it('rejects numbers that are not plain decimal digits', () => {
+        expectTypeOf<'1e3ms'>().not.toExtend<DurationString>();
+        expectTypeOf<'1e3'>().not.toExtend<DurationString>();
+        expectTypeOf<'0x10'>().not.toExtend<DurationString>();
+        expectTypeOf<'0x10ms'>().not.toExtend<DurationString>();
+        expectTypeOf<'1_000ms'>().not.toExtend<DurationString>();
+    });
+
+    it('rejects signed and fractional clock fields', () => {
+        expectTypeOf<'-1:-30'>().not.toExtend<DurationString>();
+        expectTypeOf<'1:+30'>().not.toExtend<DurationString>();
+        expectTypeOf<'1.5:30'>().not.toExtend<DurationString>();
+        expectTypeOf<'1:30.5'>().not.toExtend<DurationString>();
+        expectTypeOf<'1:30:1e1'>().not.toExtend<DurationString>();
+    });
+
+    it('leaves out calendar units unless they are included', () => {
+        expectTypeOf<'1mo'>().not.toExtend<DurationString>();
+        expectTypeOf<'1y 2mo'>().not.toExtend<DurationString>();
+        expectTypeOf<'1mo'>().toExtend<DurationString<DurationUnit>>();
+        expectTypeOf<'1 year 2 months'>().toExtend<DurationString<DurationUnit>>();
+    });
+
+    it('annotates values', () => {
+        const timeout: DurationString = '30s';
+        // @ts-expect-error unknown unit
+        const typo: DurationString = '30 secs ago';
+        expectTypeOf(timeout).toExtend<DurationString>();
+        expectTypeOf(typo).toBeString();
+    });
+});
+
+describe('DurationLiteral', () => {
+    it('checks any number of tokens', () => {
+        expectTypeOf<DurationLiteral<'1d 2h 3m 4s'>>().toEqualTypeOf<'1d 2h 3m 4s'>();
+        expectTypeOf<DurationLiteral<'1d2h3m4s500ms'>>().toEqualTypeOf<'1d2h3m4s500ms'>();
+        expectTypeOf<DurationLiteral<'1 day 2 hours 3 minutes'>>().toEqualTypeOf<'1 day 2 hours 3 minutes'>();
+        expectTypeOf<DurationLiteral<'1 day 2h 3 minutes 4s'>>().toEqualTypeOf<'1 day 2h 3 minutes 4s'>();
+    });
+
+    it('names the literal that is not a duration', () => {
+        expectTypeOf<DurationLiteral<'1d 2h 3q'>>().toEqualTypeOf<'"1d 2h 3q" is not a duration'>();
+        expectTypeOf<DurationLiteral<'1 day 2 hourz'>>().toEqualTypeOf<'"1 day 2 hourz" is not a duration'>();
+    });
+
+    it('checks literals exactly', () => {
+        expectTypeOf<DurationLiteral<'+2h'>>().toEqualTypeOf<'+2h'>();
+        expectTypeOf<DurationLiteral<'1.005s'>>().toEqualTypeOf<'1.005s'>();
+        expectTypeOf<DurationLiteral<'05m'>>().toEqualTypeOf<'05m'>();
+        expectTypeOf<DurationLiteral<'-1:05:09.5'>>().toEqualTypeOf<'-1:05:09.5'>();
+        expectTypeOf<DurationLiteral<'1.-5h'>>().toEqualTypeOf<'"1.-5h" is not a duration'>();
+        expectTypeOf<DurationLiteral<'1. 5h'>>().toEqualTypeOf<'"1. 5h" is not a duration'>();
+        expectTypeOf<DurationLiteral<'1:30:-5'>>().toEqualTypeOf<'"1:30:-5" is not a duration'>();
+        expectTypeOf<DurationLiteral<'100:59:59.999'>>().toEqualTypeOf<'100:59:59.999'>();
+        expectTypeOf<DurationLiteral<'01:60'>>().toEqualTypeOf<'"01:60" is not a duration'>();
+    });
+
+    it('includes calendar units on request', () => {
+        expectTypeOf<DurationLiteral<'1y 2mo'>>().toEqualTypeOf<'"1y 2mo" is not a duration'>();
+        expectTypeOf<DurationLiteral<'1y 2mo', DurationUnit>>().toEqualTypeOf<'1y 2mo'>();
+    });
+
+    it('leaves non-literal strings to the runtime', () => {
+        expectTypeOf<DurationLiteral<string>>().toEqualTypeOf<string>();
+    });
+});
+
+describe('duration', () => {
+    it('accepts duration literals and returns Milliseconds', () => {
+        expectTypeOf(duration('5m')).toEqualTypeOf<Milliseconds>();
+        expectTypeOf(duration('1h 30m 15s 500ms')).toEqualTypeOf<Milliseconds>();
+        expectTypeOf(duration('01:30')).toEqualTypeOf<Milliseconds>();
+        expectTypeOf(duration('1mo', {calendar: 'fixed'})).toEqualTypeOf<Milliseconds>();
+    });
+
+    it('rejects literals that are not durations', () => {
+        // @ts-expect-error unknown unit
+        duration('5 minuts');
+        // @ts-expect-error missing unit after the first token
+        duration('1h30');
+        // @ts-expect-error units are lowercase in types
+        duration('5M');
+        // @ts-expect-error unknown unit in the fourth token
+        duration('1h 2m 3s 4x');
+        // @ts-expect-error exponents are not digits
+        duration('1e3ms');
+        // @ts-expect-error hexadecimal is not digits
+        duration('0x10');
+        // @ts-expect-error exponent in a later token
+        duration('1h 2m 1e3ms');
+        // @ts-expect-error only the first clock field is signed
+        duration('-1:-30');
+        // @ts-expect-error hours are whole
+        duration('1.5:30');
+        // @ts-expect-error minutes are below 60
+        duration('01:99');
+        // @ts-expect-error minutes have two digits
+        duration('1:5');
+        // @ts-expect-error seconds are below 60
+        duration('1:30:75');
+        // @ts-expect-error seconds have two digits
+        duration('1:30:5.5');
+    });
+
+    it('accepts calendar units only with a fixed or average calendar', () => {
+        // @ts-expect-error months have no fixed length by default
+        duration('1mo');
+        // @ts-expect-error months have no fixed length by default
+        duration('1d 2h 3m 1mo');
+        // @ts-expect-error calendar units are rejected
+        duration('1y', {calendar: 'reject'});
+        expectTypeOf(duration('1y 2mo', {calendar: 'average'})).toEqualTypeOf<Milliseconds>();
+        expectTypeOf(duration('1 year 2 months 3 days', {calendar: 'fixed'})).toEqualTypeOf<Milliseconds>();
+    });
+
+    it('accepts strings and DurationString values', () => {
+        const fromEnv: string = '5m';
+        const typed: DurationString = '5m';
+        expectTypeOf(duration(fromEnv)).toEqualTypeOf<Milliseconds>();
+        expectTypeOf(duration(typed)).toEqualTypeOf<Milliseconds>();
+        expectTypeOf(duration(fromEnv, {calendar: 'fixed'})).toEqualTypeOf<Milliseconds>();
+    });
+
+    it('returns a number that plain numbers are not', () => {
+        expectTypeOf(duration('5m')).toExtend<number>();
+        expectTypeOf<number>().not.toExtend<Milliseconds>();
+        const wait = (ms: Milliseconds) => ms;
+        wait(duration('1s'));
+        // @ts-expect-error a plain number is not Milliseconds
+        wait(1000);
+    });
+});
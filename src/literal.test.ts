@@ -0,0 +1,15 @@
+import {describe, it, expect} from 'vitest';
+import {duration, DurationParseError} from './index.js';
+
+describe('duration', () => {
+    it('parses like parseDurationMs', () => {
+        expect(duration('1h 30m')).toBe(5_400_000);
+        expect(duration('01:30')).toBe(5_400_000);
+        expect(duration('1mo', {calendar: 'fixed'})).toBe(2_592_000_000);
+    });
+
+    it('checks strings that are not literals at runtime', () => {
+        const input: string = '5 minuts';
+        expect(() => duration(input)).toThrowError(DurationParseError);
+    });
+});
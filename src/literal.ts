@@ -0,0 +1,129 @@
+import {
+    parseDurationMs,
+    type CalendarDurationUnit,
+    type DurationUnit,
+    type ParseDurationOptions,
+} from './index.js';
+
+/** Units the default parser accepts without the `calendar` option. */
+type FixedDurationUnit = Exclude<DurationUnit, CalendarDurationUnit>;
+
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+/** A whole number without leading zeros ("0", "15", "-2"); `${bigint}` alone also matches "0x10". */
+type Integer = `${bigint}` & Uppercase<string> & Lowercase<string>;
+
+/** A number without letters ("5", "-1.5", "05"); `${number}` alone also matches "1e3" and "0x10". */
+type NumberString = `${number}` & Uppercase<string> & Lowercase<string>;
+
+/** Clock hours, optionally zero-padded ("1", "01", "-1"). */
+type ClockHours = Integer | `0${Integer}`;
+
+/** Unsigned clock minutes and seconds, "00" to "59". */
+type ClockField = `${'0' | '1' | '2' | '3' | '4' | '5'}${Digit}`;
+
+/** One "<number><unit>" token, with or without a space: "5m", "1.5 hours". */
+export type DurationTokenString<U extends string = FixedDurationUnit> = `${NumberString}${U}` | `${NumberString} ${U}`;
+
+/**
+ * Duration string literals checked at compile time: unitless milliseconds ("1500"),
+ * one or two tokens ("5m", "1h 30m", "1h30m", "1 hour 30 minutes") and colon
+ * durations ("01:30", "01:30:15"). Units are the lowercase `DurationUnit` spellings;
+ * calendar units are left out unless `U` includes them.
+ *
+ * Template literal types cannot spell "one or more digits", so this type is a close
+ * approximation; `DurationLiteral` checks literals character by character.
+ */
+export type DurationString<U extends string = FixedDurationUnit> =
+    | NumberString
+    | DurationTokenString<U>
+    | `${DurationTokenString<U>} ${DurationTokenString<U>}`
+    | `${DurationTokenString<U>}${DurationTokenString<U>}`
+    | `${ClockHours}:${ClockField}`
+    | `${ClockHours}:${ClockField}:${ClockField}`
+    | `${ClockHours}:${ClockField}:${ClockField}.${NumberString}`;
+
+/** True if `S` is one or more decimal digits. */
+type IsDigits<S extends string> = S extends `${Digit}${infer Rest}` ? (Rest extends '' ? true : IsDigits<Rest>) : false;
+
+/** True if `S` is digits with an optional fraction ("1", "1.5"). */
+type IsUnsigned<S extends string> =
+    S extends `${infer Whole}.${infer Part}` ? (IsDigits<Whole> extends true ? IsDigits<Part> : false) : IsDigits<S>;
+
+/** True if `S` is a number as the parser reads it ("5", "-1.5", "+2"). */
+type IsNumber<S extends string> = S extends `${'+' | '-'}${infer Rest}` ? IsUnsigned<Rest> : IsUnsigned<S>;
+
+/** True if `S` is a colon duration: signed whole hours, then minutes and seconds from "00" to "59" ("-01:30:15.5"). */
+type IsClock<S extends string> =
+    S extends `${infer Hours}:${infer Rest}`
+        ? (Hours extends `${'+' | '-'}${infer Digits}` ? IsDigits<Digits> : IsDigits<Hours>) extends true
+            ? Rest extends `${ClockField}:${infer Seconds}`
+                ? Seconds extends `${ClockField}.${infer Fraction}` ? IsDigits<Fraction> : Seconds extends ClockField ? true : false
+                : Rest extends ClockField ? true : false
+            : false
+        : false;
+
+/** True if `S` is a run of "<number><unit>" tokens without spaces ("1d2h3m"). */
+type CompactTokens<S extends string, Units extends string, U extends Units = Units> =
+    U extends U
+        ? (S extends `${infer N}${U}${infer Rest}`
+            ? (IsNumber<N> extends true ? (Rest extends '' ? true : CompactTokens<Rest, Units>) : never)
+            : never)
+        : never;
+
+/** True if `S` is tokens separated by single spaces, with or without a space before each unit. */
+type TokenList<S extends string, U extends string> =
+    S extends `${infer Head} ${infer Rest}`
+        ? IsNumber<Head> extends true
+            ? Rest extends `${infer Unit} ${infer After}`
+                ? Unit extends U ? TokenList<After, U> : false
+                : Rest extends U ? true : false
+            : true extends CompactTokens<Head, U> ? TokenList<Rest, U> : false
+        : true extends CompactTokens<S, U> ? true : false;
+
+/** True if `S` is a pattern such as `${bigint}m` rather than string literals: it has no required keys as a record. */
+type IsPattern<S extends string> = Record<never, never> extends Record<S, unknown> ? true : false;
+
+/**
+ * Check a string literal type: `S` if it is a unitless number, a colon duration or any
+ * number of tokens ("1d 2h 3m 4s"), a message type if it is not, and `string` for
+ * non-literal strings. Patterns, such as the type of a `DurationString` value, are
+ * checked against `DurationString`. Calendar units are only accepted if `U` includes them.
+ */
+export type DurationLiteral<S extends string, U extends string = FixedDurationUnit> =
+    string extends S ? string
+        : IsPattern<S> extends true ? (S extends DurationString<U> ? S : `"${S}" is not a duration`)
+            : true extends IsNumber<S> | IsClock<S> | TokenList<S, U> ? S
+                : `"${S}" is not a duration`;
+
+/** Units a literal may use with options `O`: calendar units need a "fixed" or "average" calendar. */
+type LiteralUnit<O> = O extends { calendar: 'fixed' | 'average' } ? DurationUnit : FixedDurationUnit;
+
+declare const MILLISECONDS: unique symbol;
+
+/** A number of milliseconds, as returned by `duration`; assignable to `number`. */
+export type Milliseconds = number & { readonly [MILLISECONDS]: true };
+
+/**
+ * Parse a duration, checking string literals at compile time.
+ *
+ * Like `parseDurationMs`, but a literal that is not a duration is a type error,
+ * so typos fail when compiling rather than at runtime. Strings that are not
+ * literals are only checked at runtime. Calendar units type-check when the
+ * options set `calendar` to "fixed" or "average".
+ *
+ * @example
+ * setTimeout(fn, duration('5 minutes'));
+ * duration('5 minuts'); // Type error: '"5 minuts" is not a duration'
+ *
+ * @param input The duration string.
+ * @param options Parsing options.
+ * @returns The duration in milliseconds.
+ * @throws DurationParseError If the input is invalid.
+ */
+export function duration<const S extends string, const O extends ParseDurationOptions = ParseDurationOptions>(
+    input: DurationLiteral<S, LiteralUnit<O>>,
+    options?: O,
+): Milliseconds {
+    return parseDurationMs(input, options) as Milliseconds;
+}
@@ -0,0 +1,144 @@
+import {describe, it, expect} from 'vitest';
+import {
+    parseDurationMs,
+    parseDurationNs,
+    parseDurationParts,
+    tryParseDurationMs,
+    formatDurationMs,
+    createDurationParser,
+    durationLocales,
+    type DurationLocale,
+} from './index.js';
+
+const fr: DurationLocale = {
+    units: {
+        jour: 'd', jours: 'd',
+        heure: 'h', heures: 'h',
+        seconde: 's', secondes: 's',
+    },
+    decimalSeparator: ',',
+    conjunctions: ['et'],
+    formatUnits: {
+        d: {short: 'j', singular: 'jour', plural: 'jours'},
+        h: {short: 'h', singular: 'heure', plural: 'heures'},
+    },
+};
+
+describe('locale packs', () => {
+    describe('parsing German', () => {
+        const cases: {input: string; expected: number}[] = [
+            {input: '2 Stunden 30 Minuten', expected: 9_000_000},
+            {input: '2 Stunden und 30 Minuten', expected: 9_000_000},
+            {input: '1,5 h', expected: 5_400_000},
+            {input: '1,5 Std', expected: 5_400_000},
+            {input: '1 Tag', expected: 86_400_000},
+            {input: '3 Tagen', expected: 259_200_000},
+            {input: '2 Wochen 1 Tag', expected: 1_296_000_000},
+            {input: '45 Sekunden', expected: 45_000},
+            {input: '1 STUNDE', expected: 3_600_000},
+            {input: '10 Millisekunden', expected: 10},
+            {input: '1h 30min', expected: 5_400_000},
+            {input: '1500,5', expected: 1501},
+            {input: '00:00:01,5', expected: 1500},
+            {input: 'PT1,5S', expected: 1500},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}" -> ${expected}`, () => {
+                expect(parseDurationMs(input, {locale: 'de'})).toBe(expected);
+                expect(parseDurationMs(input, {locale: durationLocales.de})).toBe(expected);
+            });
+        }
+
+        it('rejects "." as a decimal separator', () => {
+            expect(tryParseDurationMs('1.5 Stunden', {locale: 'de'})).toMatchObject({ok: false, error: {code: 'TRAILING_JUNK'}});
+            expect(tryParseDurationMs('00:00:01.5', {locale: 'de'})).toMatchObject({
+                ok: false,
+                error: {code: 'INVALID_CLOCK_FORMAT', substring: '01.5'},
+            });
+        });
+
+        it('only accepts conjunctions between tokens', () => {
+            expect(tryParseDurationMs('und 2 Stunden', {locale: 'de'})).toMatchObject({ok: false, error: {substring: 'und'}});
+            expect(tryParseDurationMs('2 Stunden und', {locale: 'de'})).toMatchObject({ok: false, error: {substring: 'und'}});
+            expect(tryParseDurationMs('2 Stunden and 30 Minuten', {locale: 'de'})).toMatchObject({ok: false});
+        });
+
+        it('reports canonical units and German spellings', () => {
+            const parts = parseDurationParts('1 Tag und 2 Stunden', {locale: 'de'});
+            expect(parts.kind === 'tokens' && parts.tokens.map(t => [t.unit, t.spelling])).toEqual([
+                ['d', 'Tag'],
+                ['h', 'Stunden'],
+            ]);
+        });
+
+        it('keeps calendar units behind the calendar option', () => {
+            expect(tryParseDurationMs('1 Monat', {locale: 'de'})).toMatchObject({ok: false, error: {code: 'CALENDAR_UNIT'}});
+            expect(parseDurationMs('2 Jahre', {locale: 'de', calendar: 'fixed'})).toBe(63_072_000_000);
+        });
+
+        it('is exact in parseDurationNs', () => {
+            expect(parseDurationNs('0,1 Sekunden 0,2 Sekunden', {locale: 'de'})).toBe(300_000_000n);
+        });
+    });
+
+    describe('parsing English', () => {
+        it('accepts "and" between tokens', () => {
+            expect(parseDurationMs('1 hour and 30 minutes', {locale: 'en'})).toBe(5_400_000);
+        });
+
+        it('only applies when selected', () => {
+            expect(tryParseDurationMs('1 hour and 30 minutes')).toMatchObject({ok: false, error: {substring: 'and'}});
+            expect(tryParseDurationMs('2 Stunden')).toMatchObject({ok: false, error: {code: 'UNKNOWN_UNIT'}});
+            expect(tryParseDurationMs('1,5h')).toMatchObject({ok: false});
+        });
+    });
+
+    describe('custom packs', () => {
+        it('parses with a user-defined pack', () => {
+            expect(parseDurationMs('3 jours et 2,5 heures', {locale: fr})).toBe(268_200_000);
+        });
+
+        it('works with custom parsers', () => {
+            const parser = createDurationParser({units: {sprint: 1_209_600_000}});
+            expect(parser.parse('1 sprint und 2 Tage', {locale: 'de'})).toBe(1_382_400_000);
+        });
+
+        it('rejects unknown locales and units', () => {
+            expect(() => parseDurationMs('1h', {locale: 'xx' as 'de'})).toThrowError('parseDurationMs: unknown locale "xx"');
+            expect(() => formatDurationMs(1, {locale: 'xx' as 'de'})).toThrowError('formatDurationMs: unknown locale "xx"');
+            const broken: DurationLocale = {units: {parsec: 'pc' as 'h'}};
+            expect(() => parseDurationMs('1h', {locale: broken})).toThrowError(
+                'parseDurationMs: unknown unit "pc" for locale word "parsec"',
+            );
+        });
+    });
+
+    describe('formatting', () => {
+        const cases: {ms: number; options: Parameters<typeof formatDurationMs>[1]; expected: string}[] = [
+            {ms: 5_415_000, options: {locale: 'de', style: 'long'}, expected: '1 Stunde 30 Minuten 15 Sekunden'},
+            {ms: 1_296_000_000, options: {locale: 'de', style: 'long'}, expected: '15 Tage'},
+            {ms: 5_415_000, options: {locale: 'de'}, expected: '1h 30min 15s'},
+            {ms: -5_400_000, options: {locale: 'de', style: 'long'}, expected: '-1 Stunde -30 Minuten'},
+            {ms: 0, options: {locale: 'de', style: 'long'}, expected: '0 Millisekunden'},
+            {ms: 5_415_250, options: {locale: 'de', style: 'clock'}, expected: '01:30:15,250'},
+            {ms: 5_415_250, options: {locale: 'en', style: 'long'}, expected: '1 hour 30 minutes 15 seconds 250 milliseconds'},
+            {ms: 95_400_000, options: {locale: fr, style: 'long'}, expected: '1 jour 2 heures 30 minutes'},
+            {ms: 95_400_000, options: {locale: fr}, expected: '1j 2h 30m'},
+        ];
+
+        for (const {ms, options, expected} of cases) {
+            it(`${ms} ${JSON.stringify(options)} -> "${expected}"`, () => {
+                expect(formatDurationMs(ms, options)).toBe(expected);
+            });
+        }
+
+        it('round-trips through parsing with the same locale', () => {
+            for (const ms of [0, 1, 999, 61_000, 5_415_250, 90_061_001, -3_600_000]) {
+                for (const style of ['compact', 'long', 'clock'] as const) {
+                    expect(parseDurationMs(formatDurationMs(ms, {locale: 'de', style}), {locale: 'de'})).toBe(ms);
+                }
+            }
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import type {DurationUnit} from './index.js';
+
+/** How a unit is written by `formatDurationMs` in a locale. */
+export interface DurationLocaleUnitNames {
+    /** Used by the "compact" style ("1h"). */
+    short: string;
+    /** Used by the "long" style for a count of 1. */
+    singular: string;
+    /** Used by the "long" style for other counts. */
+    plural: string;
+}
+
+/**
+ * A locale pack: the words and number format one language uses for durations.
+ */
+export interface DurationLocale {
+    /**
+     * Unit words (including plural and inflected forms) mapped to the built-in unit they spell.
+     * Matched case-insensitively, in addition to the parser's own units.
+     */
+    units: Readonly<Record<string, DurationUnit>>;
+    /** Decimal separator of numbers when parsing, and of clock fractions when formatting (default: "."). */
+    decimalSeparator?: '.' | ',';
+    /** Words accepted between two tokens ("2 Stunden und 30 Minuten"); matched case-insensitively. */
+    conjunctions?: readonly string[];
+    /** Unit names emitted by `formatDurationMs`, by canonical unit ("d", "h", "m", "s", "ms", ...). */
+    formatUnits?: Readonly<Partial<Record<DurationUnit, DurationLocaleUnitNames>>>;
+}
+
+/** English: the built-in spellings, plus "and" between tokens. */
+const en: DurationLocale = {
+    units: {},
+    decimalSeparator: '.',
+    conjunctions: ['and'],
+    formatUnits: {
+        y: {short: 'y', singular: 'year', plural: 'years'},
+        mo: {short: 'mo', singular: 'month', plural: 'months'},
+        w: {short: 'w', singular: 'week', plural: 'weeks'},
+        d: {short: 'd', singular: 'day', plural: 'days'},
+        h: {short: 'h', singular: 'hour', plural: 'hours'},
+        m: {short: 'm', singular: 'minute', plural: 'minutes'},
+        s: {short: 's', singular: 'second', plural: 'seconds'},
+        ms: {short: 'ms', singular: 'millisecond', plural: 'milliseconds'},
+        us: {short: 'us', singular: 'microsecond', plural: 'microseconds'},
+        ns: {short: 'ns', singular: 'nanosecond', plural: 'nanoseconds'},
+    },
+};
+
+/** German: "2 Stunden und 30 Minuten", "1,5 Std". */
+const de: DurationLocale = {
+    units: {
+        Jahr: 'y', Jahre: 'y', Jahren: 'y', Jahres: 'y',
+        Monat: 'mo', Monate: 'mo', Monaten: 'mo', Monats: 'mo',
+        Woche: 'w', Wochen: 'w',
+        Tag: 'd', Tage: 'd', Tagen: 'd', Tages: 'd',
+        Std: 'h', Stunde: 'h', Stunden: 'h',
+        Minute: 'm', Minuten: 'm',
+        Sek: 's', Sekunde: 's', Sekunden: 's',
+        Millisekunde: 'ms', Millisekunden: 'ms',
+        Mikrosekunde: 'us', Mikrosekunden: 'us',
+        Nanosekunde: 'ns', Nanosekunden: 'ns',
+    },
+    decimalSeparator: ',',
+    conjunctions: ['und'],
+    formatUnits: {
+        y: {short: 'y', singular: 'Jahr', plural: 'Jahre'},
+        mo: {short: 'mo', singular: 'Monat', plural: 'Monate'},
+        w: {short: 'w', singular: 'Woche', plural: 'Wochen'},
+        d: {short: 'd', singular: 'Tag', plural: 'Tage'},
+        h: {short: 'h', singular: 'Stunde', plural: 'Stunden'},
+        m: {short: 'min', singular: 'Minute', plural: 'Minuten'},
+        s: {short: 's', singular: 'Sekunde', plural: 'Sekunden'},
+        ms: {short: 'ms', singular: 'Millisekunde', plural: 'Millisekunden'},
+        us: {short: 'µs', singular: 'Mikrosekunde', plural: 'Mikrosekunden'},
+        ns: {short: 'ns', singular: 'Nanosekunde', plural: 'Nanosekunden'},
+    },
+};
+
+/**
+ * Built-in locale packs, selectable by code with the `locale` option.
+ */
+export const durationLocales = {en, de} as const satisfies Record<string, DurationLocale>;
+
+/** Codes of the built-in locale packs. */
+export type DurationLocaleCode = keyof typeof durationLocales;
@@ -0,0 +1,91 @@
+import {describe, it, expect, vi} from 'vitest';
+import {createDurationParser, DurationParseError} from './index.js';
+import {LruCache} from './lru.js';
+
+describe('LruCache', () => {
+    it('evicts the least recently used entry', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        expect(cache.get('a')).toBe(1);
+        cache.set('c', 3);
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBe(1);
+        expect(cache.get('c')).toBe(3);
+        expect(cache.size).toBe(2);
+    });
+
+    it('replaces entries without growing', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('a', 2);
+        expect(cache.get('a')).toBe(2);
+        expect(cache.size).toBe(1);
+    });
+});
+
+describe('createDurationParser cacheSize', () => {
+    it('returns the same results as without a cache', () => {
+        const cached = createDurationParser({cacheSize: 2});
+        const plain = createDurationParser();
+        for (const input of ['250ms', '250ms', '1h 30m', '01:30', '250ms', '10 foo', '10 foo']) {
+            expect(cached.tryParse(input)).toEqual(plain.tryParse(input));
+        }
+        expect(() => cached.parse('10 foo')).toThrowError(DurationParseError);
+        expect(() => cached.parse('10 foo')).toThrowError('parseDurationMs: unknown unit "foo" in "10 foo"');
+    });
+
+    it('reuses results for repeated inputs', () => {
+        const parser = createDurationParser({cacheSize: 10});
+        const trim = vi.spyOn(String.prototype, 'trim');
+        try {
+            const first = parser.tryParse('10 foo');
+            expect(trim).toHaveBeenCalled();
+            trim.mockClear();
+            expect(parser.tryParse('10 foo')).toEqual(first);
+            expect(parser.tryParse('10 foo', {})).toEqual(first);
+            expect(parser.tryParse('10 foo', {calendar: undefined})).toEqual(first);
+            expect(trim).not.toHaveBeenCalled();
+        } finally {
+            trim.mockRestore();
+        }
+    });
+
+    it('gives each caller its own result', () => {
+        const parser = createDurationParser({cacheSize: 10});
+        const ok = parser.tryParse('250ms');
+        const failed = parser.tryParse('10 foo');
+        if (!ok.ok || failed.ok) throw new Error('unexpected result');
+        ok.ms = 0;
+        failed.error.message = 'changed';
+        expect(parser.tryParse('250ms')).toEqual({ok: true, ms: 250});
+        expect(parser.tryParse('10 foo')).toMatchObject({ok: false, error: {message: 'parseDurationMs: unknown unit "foo" in "10 foo"'}});
+        expect(() => parser.parse('10 foo')).toThrowError('parseDurationMs: unknown unit "foo" in "10 foo"');
+    });
+
+    it('bypasses the cache when options are set', () => {
+        const parser = createDurationParser({cacheSize: 10});
+        expect(parser.tryParse('1mo')).toMatchObject({ok: false});
+        expect(parser.tryParse('1mo', {calendar: 'fixed'})).toEqual({ok: true, ms: 2_592_000_000});
+        expect(parser.tryParse('2h', {strict: {max: '1h'}})).toMatchObject({ok: false});
+        expect(parser.tryParse('2h')).toEqual({ok: true, ms: 7_200_000});
+    });
+
+    it('parses evicted inputs again', () => {
+        const parser = createDurationParser({cacheSize: 1});
+        const first = parser.tryParse('01:30');
+        parser.tryParse('02:30');
+        const trim = vi.spyOn(String.prototype, 'trim');
+        try {
+            expect(parser.tryParse('01:30')).toEqual(first);
+            expect(trim).toHaveBeenCalled();
+        } finally {
+            trim.mockRestore();
+        }
+    });
+
+    it('rejects an invalid size', () => {
+        expect(() => createDurationParser({cacheSize: -1})).toThrowError('createDurationParser: invalid cacheSize "-1"');
+        expect(() => createDurationParser({cacheSize: 1.5})).toThrowError('createDurationParser: invalid cacheSize "1.5"');
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * A map that keeps at most `capacity` entries, evicting the least recently used one.
+ */
+export class LruCache<K, V> {
+    /** Entries in order of use, least recent first. */
+    readonly #entries = new Map<K, V>();
+
+    constructor(readonly capacity: number) {}
+
+    /** Number of entries. */
+    get size(): number {
+        return this.#entries.size;
+    }
+
+    /**
+     * Look up an entry and mark it as the most recently used.
+     * @param key The key.
+     * @returns The value, or undefined if the key is not cached.
+     */
+    get(key: K): V | undefined {
+        const value = this.#entries.get(key);
+        if (value !== undefined) {
+            this.#entries.delete(key);
+            this.#entries.set(key, value);
+        }
+        return value;
+    }
+
+    /**
+     * Add or replace an entry, evicting the least recently used one if the cache is full.
+     * @param key The key.
+     * @param value The value.
+     */
+    set(key: K, value: V): void {
+        this.#entries.delete(key);
+        this.#entries.set(key, value);
+        if (this.#entries.size > this.capacity) {
+            this.#entries.delete(this.#entries.keys().next().value!);
+        }
+    }
+}
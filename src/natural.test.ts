@@ -0,0 +1,105 @@
+import {describe, it, expect} from 'vitest';
+import {parseNaturalDuration, createDurationParser, DurationParseError} from './index.js';
+
+const MINUTE = 60_000;
+const HOUR = 3_600_000;
+const DAY = 86_400_000;
+
+describe('parseNaturalDuration', () => {
+    describe('understood phrases', () => {
+        const cases: {input: string; expected: number}[] = [
+            {input: 'an hour and a half', expected: 1.5 * HOUR},
+            {input: 'two and a half days', expected: 2.5 * DAY},
+            {input: 'half an hour', expected: 0.5 * HOUR},
+            {input: '1 hour, 30 minutes', expected: 1.5 * HOUR},
+            {input: 'a minute', expected: MINUTE},
+            {input: 'a quarter hour', expected: 15 * MINUTE},
+            {input: 'a quarter of an hour', expected: 15 * MINUTE},
+            {input: 'three quarters of an hour', expected: 45 * MINUTE},
+            {input: 'a half hour', expected: 30 * MINUTE},
+            {input: 'one and a half hours', expected: 1.5 * HOUR},
+            {input: 'twenty-five minutes', expected: 25 * MINUTE},
+            {input: 'twenty five seconds', expected: 25_000},
+            {input: 'a hundred milliseconds', expected: 100},
+            {input: 'two thousand three hundred ms', expected: 2300},
+            {input: 'Two Hours And Ten Minutes', expected: 2 * HOUR + 10 * MINUTE},
+            {input: 'an hour, ten minutes and 5 seconds', expected: HOUR + 10 * MINUTE + 5000},
+            {input: 'a day and a half', expected: 1.5 * DAY},
+            {input: 'zero minutes', expected: 0},
+            {input: '2 weeks', expected: 14 * DAY},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}" -> ${expected}`, () => {
+                expect(parseNaturalDuration(input)).toEqual({ms: expected, ignored: []});
+            });
+        }
+    });
+
+    it('parses whatever parseDurationMs accepts the same way', () => {
+        for (const input of ['1h 30m', '01:30', 'PT1H30M', '1500', '0.5ms', '']) {
+            expect(parseNaturalDuration(input)).toEqual({ms: expect.any(Number), ignored: []});
+        }
+        expect(parseNaturalDuration('1.5h').ms).toBe(1.5 * HOUR);
+    });
+
+    describe('ignored words', () => {
+        it('reports words it does not understand', () => {
+            expect(parseNaturalDuration('90 minutes or so')).toEqual({
+                ms: 90 * MINUTE,
+                ignored: [
+                    {word: 'or', start: 11, end: 13},
+                    {word: 'so', start: 14, end: 16},
+                ],
+            });
+        });
+
+        it('reports numbers without a unit instead of guessing one', () => {
+            expect(parseNaturalDuration('an hour or two')).toEqual({
+                ms: HOUR,
+                ignored: [
+                    {word: 'or', start: 8, end: 10},
+                    {word: 'two', start: 11, end: 14},
+                ],
+            });
+            expect(parseNaturalDuration('5 10 minutes').ignored).toEqual([{word: '5', start: 0, end: 1}]);
+        });
+
+        it('reports units without a number', () => {
+            expect(parseNaturalDuration('a few minutes and 1 second')).toEqual({
+                ms: 1000,
+                ignored: [
+                    {word: 'a', start: 0, end: 1},
+                    {word: 'few', start: 2, end: 5},
+                    {word: 'minutes', start: 6, end: 13},
+                ],
+            });
+        });
+    });
+
+    describe('errors', () => {
+        it('throws when no duration is found', () => {
+            expect(() => parseNaturalDuration('soon')).toThrowError('parseNaturalDuration: no duration found in "soon"');
+            let caught: unknown;
+            try {
+                parseNaturalDuration(' about two ');
+            } catch (err) {
+                caught = err;
+            }
+            expect(caught).toBeInstanceOf(DurationParseError);
+            expect(caught).toMatchObject({code: 'TRAILING_JUNK', substring: 'about two', start: 1, end: 10});
+        });
+
+        it('applies the calendar option', () => {
+            expect(() => parseNaturalDuration('a month and a half')).toThrowError(
+                'parseDurationMs: calendar unit "month" in "a month and a half" has no fixed length',
+            );
+            expect(parseNaturalDuration('a month and a half', {calendar: 'fixed'}).ms).toBe(45 * DAY);
+        });
+    });
+
+    it('uses the parser unit table', () => {
+        const parser = createDurationParser({units: {sprint: 14 * DAY, sprints: 'sprint'}});
+        expect(parser.parseNatural('two and a half sprints')).toEqual({ms: 35 * DAY, ignored: []});
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * A word `parseNaturalDuration` skipped because it is not part of any duration it understood.
+ */
+export interface DurationIgnoredWord {
+    /** The word as written. */
+    word: string;
+    /** Start offset in the input. */
+    start: number;
+    /** End offset (exclusive) in the input. */
+    end: number;
+}
+
+/** A "<number> <unit>" term found in a phrase; offsets are into the input. */
+export interface NaturalTerm {
+    value: number;
+    /** The unit as written. */
+    unit: string;
+    start: number;
+    unitStart: number;
+    end: number;
+}
+
+/** A number waiting for its unit; `article` if it is just "a"/"an". */
+interface PendingNumber {
+    value: number;
+    start: number;
+    end: number;
+    article: boolean;
+}
+
+/** What a word means to the phrase grammar. */
+type WordKind = 'number' | 'article' | 'fraction' | 'and' | 'separator' | 'hyphen' | 'of' | 'unit' | 'other';
+
+interface Word {
+    kind: WordKind;
+    text: string;
+    /** Number value, or fraction size for "half"/"quarter". */
+    value: number;
+    start: number;
+    end: number;
+}
+
+/** Numbers, letters, and any other single character. */
+const WORD_REG_EX = /\d+(?:\.\d+)?|\p{L}+|\S/gu;
+
+const NUMBER_WORDS: ReadonlyMap<string, number> = new Map([
+    ...['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+        'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+    ].map((word, i) => [word, i] as const),
+    ...['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'
+    ].map((word, i) => [word, (i + 2) * 10] as const),
+]);
+
+/** Number words that multiply what comes before them. */
+const SCALE_WORDS: ReadonlyMap<string, number> = new Map([['hundred', 100], ['thousand', 1000]]);
+
+const FRACTION_WORDS: ReadonlyMap<string, number> = new Map([
+    ['half', 0.5],
+    ['halves', 0.5],
+    ['quarter', 0.25],
+    ['quarters', 0.25],
+]);
+
+/**
+ * Split a phrase into classified words.
+ * @param input The phrase.
+ * @param isUnit Whether a word is a unit spelling.
+ * @returns The words, in order.
+ */
+function classify(input: string, isUnit: (word: string) => boolean): Word[] {
+    const words: Word[] = [];
+    for (const match of input.matchAll(WORD_REG_EX)) {
+        const text = match[0];
+        const lower = text.toLowerCase();
+        const word = {text, value: 0, start: match.index, end: match.index + text.length};
+        if (/^\d/.test(text)) {
+            words.push({...word, kind: 'number', value: Number(text)});
+        } else if (lower === 'a' || lower === 'an') {
+            words.push({...word, kind: 'article', value: 1});
+        } else if (lower === 'and' || lower === 'of' || lower === '-') {
+            words.push({...word, kind: lower === '-' ? 'hyphen' : lower});
+        } else if (lower === ',') {
+            words.push({...word, kind: 'separator'});
+        } else if (FRACTION_WORDS.has(lower)) {
+            words.push({...word, kind: 'fraction', value: FRACTION_WORDS.get(lower)!});
+        } else if (NUMBER_WORDS.has(lower) || SCALE_WORDS.has(lower)) {
+            words.push({...word, kind: 'number', value: NaN});
+        } else {
+            words.push({...word, kind: isUnit(text) ? 'unit' : 'other'});
+        }
+    }
+    return words;
+}
+
+/**
+ * Read a run of number words ("twenty-five", "a hundred", "two thousand three hundred").
+ * @param words The classified words.
+ * @param i Index of the first word of the run.
+ * @returns The value and the index after the run.
+ */
+function readNumberWords(words: readonly Word[], i: number): { value: number; next: number } {
+    let total = 0;
+    let current = 0;
+    let next = i;
+    for (; next < words.length; next++) {
+        const word = words[next]!;
+        const lower = word.text.toLowerCase();
+        if (word.kind === 'article' && next === i && SCALE_WORDS.has(words[next + 1]?.text.toLowerCase() ?? '')) {
+            current = 1;
+        } else if (word.kind === 'hyphen' && next > i && NUMBER_WORDS.has(words[next + 1]?.text.toLowerCase() ?? '')) {
+            continue;
+        } else if (NUMBER_WORDS.has(lower)) {
+            current += NUMBER_WORDS.get(lower)!;
+        } else if (lower === 'hundred') {
+            current = (current || 1) * 100;
+        } else if (lower === 'thousand') {
+            total += (current || 1) * 1000;
+            current = 0;
+        } else {
+            break;
+        }
+    }
+    return {value: total + current, next};
+}
+
+/**
+ * Find the "<number> <unit>" terms of an English duration phrase.
+ *
+ * Understands digits, number words, "a"/"an", "half"/"quarter" (on their own,
+ * after "and", or multiplying a number), "and", commas and "of". Everything
+ * else, including numbers without a unit, is reported as ignored.
+ *
+ * @param input The phrase.
+ * @param isUnit Whether a word is a unit spelling.
+ * @returns The terms and the ignored words, in input order.
+ */
+export function scanNatural(input: string, isUnit: (word: string) => boolean): {
+    terms: NaturalTerm[];
+    ignored: DurationIgnoredWord[];
+} {
+    const words = classify(input, isUnit);
+    const terms: NaturalTerm[] = [];
+    const ignored: DurationIgnoredWord[] = [];
+    const ignore = (start: number, end: number) => ignored.push({word: input.slice(start, end), start, end});
+
+    // The number waiting for its unit
+    let pending: PendingNumber | null = null;
+    // "and" since the pending number ("two and a half") or since the last term ("an hour and a half")
+    let and = false;
+    // The previous word was "half"/"quarter", so "of" and "a"/"an" are filler ("half an hour")
+    let afterFraction = false;
+
+    // Start a new number; one still waiting for its unit is ignored
+    const begin = (value: number, start: number, end: number, article = false): PendingNumber => {
+        if (pending) ignore(pending.start, pending.end);
+        and = false;
+        return {value, start, end, article};
+    };
+
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i]!;
+        const next = words[i + 1];
+        const wasAfterFraction: boolean = afterFraction;
+        afterFraction = false;
+        switch (word.kind) {
+            case 'article':
+                // "half an hour", "two and a half", "an hour and a half": the article belongs to the fraction
+                if (wasAfterFraction || (and && next?.kind === 'fraction')) {
+                    afterFraction = wasAfterFraction;
+                } else if (SCALE_WORDS.has(next?.text.toLowerCase() ?? '')) {
+                    const run = readNumberWords(words, i);
+                    pending = begin(run.value, word.start, words[run.next - 1]!.end);
+                    i = run.next - 1;
+                } else {
+                    pending = begin(1, word.start, word.end, true);
+                }
+                break;
+
+            case 'number':
+                if (Number.isNaN(word.value)) {
+                    const run = readNumberWords(words, i);
+                    pending = begin(run.value, word.start, words[run.next - 1]!.end);
+                    i = run.next - 1;
+                } else {
+                    pending = begin(word.value, word.start, word.end);
+                }
+                break;
+
+            case 'fraction':
+                if (pending && and) {
+                    pending.value += word.value;
+                    pending.end = word.end;
+                } else if (pending) {
+                    pending.value = pending.article ? word.value : pending.value * word.value;
+                    pending.end = word.end;
+                    pending.article = false;
+                } else if (and && terms.length > 0) {
+                    const last = terms[terms.length - 1]!;
+                    terms.push({value: word.value, unit: last.unit, start: word.start, unitStart: word.start, end: word.end});
+                } else {
+                    pending = begin(word.value, word.start, word.end);
+                }
+                and = false;
+                afterFraction = true;
+                break;
+
+            case 'of':
+                if (wasAfterFraction) afterFraction = true;
+                else ignore(word.start, word.end);
+                break;
+
+            case 'and':
+                and = true;
+                break;
+
+            case 'separator':
+                break;
+
+            case 'unit':
+                if (pending) {
+                    terms.push({value: pending.value, unit: word.text, start: pending.start, unitStart: word.start, end: word.end});
+                    pending = null;
+                } else {
+                    ignore(word.start, word.end);
+                }
+                and = false;
+                break;
+
+            default:
+                // "a few minutes" is not one minute: an unknown word cuts a number off from its unit
+                if (pending) ignore(pending.start, pending.end);
+                pending = null;
+                ignore(word.start, word.end);
+        }
+    }
+    if (pending) ignore(pending.start, pending.end);
+    return {terms, ignored};
+}
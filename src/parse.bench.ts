@@ -0,0 +1,30 @@
+import {bench, describe} from 'vitest';
+import {createDurationParser} from './index.js';
+
+// With singlePass: false every input goes through the current general scanner alone. It is
+// not the parser of earlier releases, so the numbers compare the two scanners of this one.
+const general = createDurationParser({singlePass: false});
+const singlePass = createDurationParser();
+const cached = createDurationParser({cacheSize: 1_000});
+
+/** Values as they typically show up in headers and config files. */
+const COMMON = ['250ms', '1500', '1h 30m', '30s', '5 minutes', '2.5h', '1d 12h', '100ms', '10s', '1w'];
+
+/** Inputs the single-pass scanner gives up on and hands to the general scanner, which parses them again. */
+const HANDED_OFF = ['01:30', 'PT1H30M', '1h, 30m', '2 Stunden', '10 foo', '1mo', '1.5.5h', '5µs', '', '1h 30'];
+
+function parseAll(parser: typeof general, inputs: readonly string[]): void {
+    for (const input of inputs) parser.tryParse(input);
+}
+
+describe('common inputs', () => {
+    bench('general scanner (singlePass: false)', () => parseAll(general, COMMON));
+    bench('single-pass scanner', () => parseAll(singlePass, COMMON));
+    bench('single-pass scanner with cache', () => parseAll(cached, COMMON));
+});
+
+describe('inputs handed to the general scanner', () => {
+    bench('general scanner (singlePass: false)', () => parseAll(general, HANDED_OFF));
+    bench('single-pass scanner', () => parseAll(singlePass, HANDED_OFF));
+    bench('single-pass scanner with cache', () => parseAll(cached, HANDED_OFF));
+});
@@ -0,0 +1,185 @@
+import {describe, it, expect} from 'vitest';
+import {
+    parseDurationRange,
+    sampleDurationRange,
+    createDurationParser,
+    DurationParseError,
+    type DurationErrorCode,
+    type DurationRange,
+} from './index.js';
+
+describe('parseDurationRange', () => {
+    describe('ranges', () => {
+        const cases: {input: string; expected: DurationRange}[] = [
+            {input: '5s..30s', expected: {minMs: 5_000, maxMs: 30_000}},
+            {input: ' 5s .. 30s ', expected: {minMs: 5_000, maxMs: 30_000}},
+            {input: '1m-5m', expected: {minMs: 60_000, maxMs: 300_000}},
+            {input: '1m - 5m', expected: {minMs: 60_000, maxMs: 300_000}},
+            {input: '-5s-5s', expected: {minMs: -5_000, maxMs: 5_000}},
+            {input: '-30s..-10s', expected: {minMs: -30_000, maxMs: -10_000}},
+            {input: '1h 30m..2h', expected: {minMs: 5_400_000, maxMs: 7_200_000}},
+            {input: '00:01..00:02', expected: {minMs: 60_000, maxMs: 120_000}},
+            {input: 'PT1M-PT5M', expected: {minMs: 60_000, maxMs: 300_000}},
+            {input: 'PT-5M', expected: {minMs: -300_000, maxMs: -300_000}},
+            {input: 'PT-1H-30M', expected: {minMs: -5_400_000, maxMs: -5_400_000}},
+            {input: 'PT-5M-PT5M', expected: {minMs: -300_000, maxMs: 300_000}},
+            {input: 'P1D-P2D', expected: {minMs: 86_400_000, maxMs: 172_800_000}},
+            {input: '100-250', expected: {minMs: 100, maxMs: 250}},
+            {input: '1h -30m', expected: {minMs: 1_800_000, maxMs: 1_800_000}},
+            {input: '-1h -30m', expected: {minMs: -5_400_000, maxMs: -5_400_000}},
+            {input: '1h -30m - 2h', expected: {minMs: 1_800_000, maxMs: 7_200_000}},
+            {input: '1h -30m..2h', expected: {minMs: 1_800_000, maxMs: 7_200_000}},
+            {input: '30s..30s', expected: {minMs: 30_000, maxMs: 30_000}},
+            {input: '30s', expected: {minMs: 30_000, maxMs: 30_000}},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}"`, () => {
+                expect(parseDurationRange(input)).toEqual(expected);
+            });
+        }
+    });
+
+    describe('jitter', () => {
+        const cases: {input: string; expected: DurationRange}[] = [
+            {input: '10s ± 2s', expected: {minMs: 8_000, maxMs: 12_000}},
+            {input: '10s±2s', expected: {minMs: 8_000, maxMs: 12_000}},
+            {input: '10s +/- 500ms', expected: {minMs: 9_500, maxMs: 10_500}},
+            {input: '30s ±10%', expected: {minMs: 27_000, maxMs: 33_000}},
+            {input: '30s ± 2.5 %', expected: {minMs: 29_250, maxMs: 30_750}},
+            {input: '1m ± 0s', expected: {minMs: 60_000, maxMs: 60_000}},
+            {input: '1s ±100%', expected: {minMs: 0, maxMs: 2_000}},
+            {input: '-10s ± 2s', expected: {minMs: -12_000, maxMs: -8_000}},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}"`, () => {
+                expect(parseDurationRange(input)).toEqual(expected);
+            });
+        }
+    });
+
+    describe('errors', () => {
+        const cases: {input: string; code: DurationErrorCode; message: string; substring: string}[] = [
+            {
+                input: '30s..5s',
+                code: 'INVALID_RANGE',
+                message: 'parseDurationRange: minimum "30s" is greater than maximum "5s" in "30s..5s"',
+                substring: '30s..5s',
+            },
+            {
+                input: '1h-30m',
+                code: 'INVALID_RANGE',
+                message: 'parseDurationRange: minimum "1h" is greater than maximum "30m" in "1h-30m"',
+                substring: '1h-30m',
+            },
+            {
+                input: '5s..',
+                code: 'INVALID_RANGE',
+                message: 'parseDurationRange: missing duration in "5s.."',
+                substring: '',
+            },
+            {
+                input: ' ± 2s',
+                code: 'INVALID_RANGE',
+                message: 'parseDurationRange: missing duration in " ± 2s"',
+                substring: ' ',
+            },
+            {
+                input: '10s ± -2s',
+                code: 'INVALID_RANGE',
+                message: 'parseDurationRange: negative jitter "-2s" in "10s ± -2s"',
+                substring: ' -2s',
+            },
+            {
+                input: '1s ±150%',
+                code: 'INVALID_RANGE',
+                message: 'parseDurationRange: jitter "150%" is larger than center "1s" in "1s ±150%"',
+                substring: '150%',
+            },
+            {
+                input: '-1s ± 2s',
+                code: 'INVALID_RANGE',
+                message: 'parseDurationRange: jitter "2s" is larger than center "-1s" in "-1s ± 2s"',
+                substring: ' 2s',
+            },
+            {
+                input: '5s..10 foo',
+                code: 'UNKNOWN_UNIT',
+                message: 'parseDurationRange: unknown unit "foo" in "10 foo"',
+                substring: 'foo',
+            },
+            {
+                input: '5s ± 10%%',
+                code: 'TRAILING_JUNK',
+                message: 'parseDurationRange: could not fully parse " 10%%"',
+                substring: '10%%',
+            },
+        ];
+
+        for (const {input, code, message, substring} of cases) {
+            it(`"${input}" -> ${code}`, () => {
+                let caught: unknown;
+                try {
+                    parseDurationRange(input);
+                } catch (err) {
+                    caught = err;
+                }
+                expect(caught).toBeInstanceOf(DurationParseError);
+                expect(caught).toMatchObject({code, message, input, substring});
+            });
+        }
+
+        it('reports offsets into the whole expression', () => {
+            expect(() => parseDurationRange('5s..10 foo')).toThrowError(expect.objectContaining({start: 7, end: 10}));
+        });
+    });
+
+    it('applies parsing options to each duration', () => {
+        expect(parseDurationRange('1mo..2mo', {calendar: 'fixed'})).toEqual({minMs: 2_592_000_000, maxMs: 5_184_000_000});
+        expect(parseDurationRange('1 Minute..2 Minuten', {locale: 'de'})).toEqual({minMs: 60_000, maxMs: 120_000});
+        expect(() => parseDurationRange('1h..2h', {strict: {max: '90m'}})).toThrowError(
+            'parseDurationRange: duration "2h" is greater than the maximum "90m"',
+        );
+    });
+
+    it('uses the parser unit table', () => {
+        const parser = createDurationParser({units: {tick: 50}});
+        expect(parser.parseRange('2tick..4tick')).toEqual({minMs: 100, maxMs: 200});
+    });
+});
+
+describe('sampleDurationRange', () => {
+    const range = {minMs: 1_000, maxMs: 2_000};
+
+    it('maps the random source onto the range', () => {
+        expect(sampleDurationRange(range, () => 0)).toBe(1_000);
+        expect(sampleDurationRange(range, () => 0.25)).toBe(1_250);
+        expect(sampleDurationRange(range, () => 0.9999999)).toBe(2_000);
+        expect(sampleDurationRange(parseDurationRange('30s ±10%'), () => 0.5)).toBe(30_000);
+    });
+
+    it('gives every whole millisecond the same share of the random source', () => {
+        const small = {minMs: 0, maxMs: 2};
+        expect([0, 0.33, 0.34, 0.66, 0.67, 1 - Number.EPSILON].map((x) => sampleDurationRange(small, () => x))).toEqual([0, 0, 1, 1, 2, 2]);
+        expect(sampleDurationRange(range, () => 1 - Number.EPSILON)).toBe(2_000);
+        expect(sampleDurationRange({minMs: 5, maxMs: 5}, () => 1 - Number.EPSILON)).toBe(5);
+        expect(Object.is(sampleDurationRange({minMs: -0, maxMs: 0}, () => 0), 0)).toBe(true);
+    });
+
+    it('stays within the bounds with Math.random', () => {
+        for (let i = 0; i < 100; i++) {
+            const ms = sampleDurationRange(range);
+            expect(ms).toBeGreaterThanOrEqual(1_000);
+            expect(ms).toBeLessThanOrEqual(2_000);
+            expect(Number.isInteger(ms)).toBe(true);
+        }
+    });
+
+    it('rejects invalid ranges', () => {
+        expect(() => sampleDurationRange({minMs: 2, maxMs: 1})).toThrowError('sampleDurationRange: invalid range "2..1"');
+        expect(() => sampleDurationRange({minMs: 0, maxMs: Infinity})).toThrowError(
+            'sampleDurationRange: invalid range "0..Infinity"',
+        );
+    });
+});
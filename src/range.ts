@@ -0,0 +1,69 @@
+/** Result of `parseDurationRange`: inclusive bounds in milliseconds. */
+export interface DurationRange {
+    minMs: number;
+    maxMs: number;
+}
+
+/** A part of a range expression, as offsets into the input. */
+export type RangeSpan = [start: number, end: number];
+
+/** How a range expression is written. */
+export type RangeSyntax =
+    | { kind: 'single' }
+    | { kind: 'bounds'; min: RangeSpan; max: RangeSpan }
+    | { kind: 'jitter'; center: RangeSpan; jitter: RangeSpan };
+
+/** A "-" between bounds: not a sign, which follows whitespace and precedes a digit. */
+const DASH_REG_EX = /(?<!\s)-|-(?!\d)/g;
+
+/** An ISO 8601 duration up to a designator, after which "-" signs the next component ("PT-5M"). */
+const ISO_PREFIX_REG_EX = /(?:^|\s)[+-]?P[\d.,TYMWDH+-]*[PTYMWDH]$/i;
+
+/**
+ * Split a range expression into its parts, without parsing the durations.
+ *
+ * "±" or "+/-" makes a center and a jitter ("10s ± 2s"); otherwise ".."
+ * separates the bounds ("5s..30s"), and then the first "-" after the first
+ * character ("1m-5m", "-5s-5s"). A "-" after whitespace and before a digit
+ * signs a number instead ("1h -30m"), as does one before a digit inside an
+ * ISO 8601 duration ("PT-5M"). Anything else is a single duration.
+ *
+ * @param input The range expression.
+ * @returns The syntax, with the spans of its parts.
+ */
+export function splitRange(input: string): RangeSyntax {
+    const split = (at: number, length: number): [RangeSpan, RangeSpan] => [[0, at], [at + length, input.length]];
+
+    const jitter = /±|\+\/-/.exec(input);
+    if (jitter) {
+        const [center, span] = split(jitter.index, jitter[0].length);
+        return {kind: 'jitter', center, jitter: span};
+    }
+    const dots = input.indexOf('..');
+    if (dots >= 0) {
+        const [min, max] = split(dots, 2);
+        return {kind: 'bounds', min, max};
+    }
+    DASH_REG_EX.lastIndex = input.length - input.trimStart().length + 1;
+    for (let dash; (dash = DASH_REG_EX.exec(input));) {
+        if (/\d/.test(input.charAt(dash.index + 1)) && ISO_PREFIX_REG_EX.test(input.slice(0, dash.index))) continue;
+        const [min, max] = split(dash.index, 1);
+        return {kind: 'bounds', min, max};
+    }
+    return {kind: 'single'};
+}
+
+/**
+ * Pick a duration from a range, e.g. for retry jitter.
+ * @param range The range, as returned by `parseDurationRange`.
+ * @param random Source of uniform numbers in [0, 1) (default: `Math.random`).
+ * @returns A whole number of milliseconds between `minMs` and `maxMs`, inclusive.
+ * @throws Error If the range is not finite or `minMs` is greater than `maxMs`.
+ */
+export function sampleDurationRange(range: DurationRange, random: () => number = Math.random): number {
+    const {minMs, maxMs} = range;
+    if (!Number.isFinite(minMs) || !Number.isFinite(maxMs) || minMs > maxMs) {
+        throw new Error(`sampleDurationRange: invalid range "${minMs}..${maxMs}"`);
+    }
+    return minMs + Math.floor(random() * (maxMs - minMs + 1)) + 0;
+}
@@ -0,0 +1,157 @@
+import {describe, it, expect, vi, afterEach} from 'vitest';
+import {
+    parseRelativeDuration,
+    formatRelativeDuration,
+    createDurationParser,
+    DurationParseError,
+    type DurationErrorCode,
+} from './index.js';
+
+const NOW = Date.UTC(2024, 0, 1, 12);
+
+describe('parseRelativeDuration', () => {
+    describe('phrases', () => {
+        const cases: {input: string; expected: number}[] = [
+            {input: 'in 2 hours', expected: 7_200_000},
+            {input: 'In 2h 30m', expected: 9_000_000},
+            {input: '30 minutes ago', expected: -1_800_000},
+            {input: '5m from now', expected: 300_000},
+            {input: '  5m  FROM  NOW ', expected: 300_000},
+            {input: '1.5 days ago', expected: -129_600_000},
+            {input: 'in 01:30', expected: 5_400_000},
+            {input: 'PT15M ago', expected: -900_000},
+            {input: 'now', expected: 0},
+            {input: '-5m', expected: -300_000},
+            {input: '2h', expected: 7_200_000},
+            {input: '0s ago', expected: 0},
+        ];
+
+        for (const {input, expected} of cases) {
+            it(`"${input}"`, () => {
+                expect(parseRelativeDuration(input, {now: NOW}).ms).toBe(expected);
+            });
+        }
+    });
+
+    it('returns the date the offset points to', () => {
+        expect(parseRelativeDuration('30 minutes ago', {now: NOW}).date).toEqual(new Date('2024-01-01T11:30:00Z'));
+        expect(parseRelativeDuration('in 1d', {now: new Date(NOW)}).date).toEqual(new Date('2024-01-02T12:00:00Z'));
+        expect(parseRelativeDuration('now', {now: NOW}).date).toEqual(new Date(NOW));
+    });
+
+    describe('default now', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('uses the current time', () => {
+            vi.useFakeTimers({now: NOW});
+            expect(parseRelativeDuration('in 1h').date).toEqual(new Date('2024-01-01T13:00:00Z'));
+        });
+    });
+
+    it('applies parsing options to the duration', () => {
+        expect(parseRelativeDuration('in 1 month', {now: NOW, calendar: 'fixed'}).ms).toBe(2_592_000_000);
+        expect(parseRelativeDuration('1,5 Stunden ago', {now: NOW, locale: 'de'}).ms).toBe(-5_400_000);
+        expect(() => parseRelativeDuration('in 2 hours', {now: NOW, strict: {max: '1h'}})).toThrowError(DurationParseError);
+    });
+
+    describe('errors point into the whole phrase', () => {
+        const cases: {input: string; code: DurationErrorCode; message: string; start: number; end: number}[] = [
+            {
+                input: 'in 5 lightyears',
+                code: 'UNKNOWN_UNIT',
+                message: 'parseRelativeDuration: unknown unit "lightyears" in "in 5 lightyears"',
+                start: 5,
+                end: 15,
+            },
+            {
+                input: '2 months ago',
+                code: 'CALENDAR_UNIT',
+                message: 'parseRelativeDuration: calendar unit "months" in "2 months ago" has no fixed length; ' +
+                    'set the "calendar" option to "fixed" or "average" to accept it',
+                start: 2,
+                end: 8,
+            },
+            {
+                input: 'in 2 hours please',
+                code: 'TRAILING_JUNK',
+                message: 'parseRelativeDuration: could not fully parse "in 2 hours please"',
+                start: 11,
+                end: 17,
+            },
+            {input: '  ', code: 'TRAILING_JUNK', message: 'parseRelativeDuration: no duration found in "  "', start: 0, end: 2},
+        ];
+
+        for (const {input, code, message, start, end} of cases) {
+            it(`"${input}"`, () => {
+                expect(() => parseRelativeDuration(input, {now: NOW})).toThrowError(
+                    expect.objectContaining({name: 'DurationParseError', code, message, input, start, end}),
+                );
+            });
+        }
+    });
+
+    it('rejects an invalid now', () => {
+        expect(() => parseRelativeDuration('in 1h', {now: new Date('soon')})).toThrowError(
+            'parseRelativeDuration: invalid now "Invalid Date"',
+        );
+    });
+});
+
+describe('formatRelativeDuration', () => {
+    describe('picks the largest unit that fits', () => {
+        const cases: {ms: number; expected: string}[] = [
+            {ms: 7_200_000, expected: 'in 2 hours'},
+            {ms: -1_800_000, expected: '30 minutes ago'},
+            {ms: 5_400_000, expected: 'in 2 hours'},
+            {ms: -90_000, expected: '2 minutes ago'},
+            {ms: 3 * 86_400_000, expected: 'in 3 days'},
+            {ms: 30 * 86_400_000, expected: 'in 30 days'},
+            {ms: 45_000, expected: 'in 45 seconds'},
+            {ms: 250, expected: 'in 0 seconds'},
+            {ms: 0, expected: 'in 0 seconds'},
+            {ms: 59_900, expected: 'in 1 minute'},
+            {ms: -59_900, expected: '1 minute ago'},
+            {ms: 59.6 * 60_000, expected: 'in 1 hour'},
+            {ms: 23.9 * 3_600_000, expected: 'in 1 day'},
+            {ms: 59_400, expected: 'in 59 seconds'},
+        ];
+
+        for (const {ms, expected} of cases) {
+            it(`${ms}`, () => {
+                expect(formatRelativeDuration(ms, {locale: 'en'})).toBe(expected);
+            });
+        }
+    });
+
+    it('passes locale, style and numeric to Intl.RelativeTimeFormat', () => {
+        expect(formatRelativeDuration(-90_000, {locale: 'de'})).toBe('vor 2 Minuten');
+        expect(formatRelativeDuration(86_400_000, {locale: 'en', numeric: 'auto'})).toBe('tomorrow');
+        expect(formatRelativeDuration(300_000, {locale: 'en', style: 'short'})).toBe('in 5 min.');
+    });
+
+    it('applies the rounding mode', () => {
+        expect(formatRelativeDuration(5_400_000, {locale: 'en', rounding: 'floor'})).toBe('in 1 hour');
+        expect(formatRelativeDuration(-5_400_000, {locale: 'en', rounding: 'trunc'})).toBe('1 hour ago');
+        expect(formatRelativeDuration(59_900, {locale: 'en', rounding: 'floor'})).toBe('in 59 seconds');
+        expect(formatRelativeDuration(59_100, {locale: 'en', rounding: 'ceil'})).toBe('in 1 minute');
+    });
+
+    it('chooses among the units of a custom parser', () => {
+        const parser = createDurationParser({units: {w: 604_800_000, min: 60_000, tick: 50}, includeDefaults: false, unitless: 'tick'});
+        expect(parser.formatRelative(14 * 86_400_000, {locale: 'en'})).toBe('in 2 weeks');
+        expect(parser.formatRelative(-3_600_000, {locale: 'en'})).toBe('60 minutes ago');
+        expect(parser.formatRelative(1_000, {locale: 'en'})).toBe('in 1 second');
+    });
+
+    it('round-trips through parseRelativeDuration', () => {
+        for (const ms of [7_200_000, -1_800_000, 3 * 86_400_000, -45_000]) {
+            expect(parseRelativeDuration(formatRelativeDuration(ms, {locale: 'en'}), {now: NOW}).ms).toBe(ms);
+        }
+    });
+
+    it('rejects offsets that are not finite', () => {
+        expect(() => formatRelativeDuration(Number.NaN)).toThrowError('formatRelativeDuration: invalid duration "NaN"');
+    });
+});
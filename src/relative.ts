@@ -0,0 +1,30 @@
+/** How a relative-time phrase is written; `span` is the duration, as offsets into the input. */
+export type RelativeSyntax =
+    | { kind: 'now' }
+    | { kind: 'offset'; sign: 1 | -1; span: [start: number, end: number] };
+
+/** Phrases with a direction word, and the sign each gives the duration. */
+const DIRECTIONS: readonly (readonly [RegExp, 1 | -1])[] = [
+    [/^\s*in\s+(\S.*?)\s*$/dis, 1],
+    [/^\s*(\S.*?)\s+from\s+now\s*$/dis, 1],
+    [/^\s*(\S.*?)\s+ago\s*$/dis, -1],
+];
+
+/**
+ * Split a relative-time phrase into its direction and duration, without parsing the duration.
+ *
+ * "in 5m" and "5m from now" are in the future, "5m ago" is in the past, and
+ * "now" is zero (case-insensitive). Anything else is a duration on its own,
+ * which keeps its sign ("-5m").
+ *
+ * @param input The phrase.
+ * @returns The syntax, with the span of the duration.
+ */
+export function splitRelative(input: string): RelativeSyntax {
+    if (/^\s*now\s*$/i.test(input)) return {kind: 'now'};
+    for (const [regEx, sign] of DIRECTIONS) {
+        const match = regEx.exec(input);
+        if (match) return {kind: 'offset', sign, span: match.indices![1]!};
+    }
+    return {kind: 'offset', sign: 1, span: [0, input.length]};
+}
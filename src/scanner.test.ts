@@ -0,0 +1,100 @@
+import {describe, it, expect} from 'vitest';
+import {readFileSync} from 'node:fs';
+import {createDurationParser, type DurationParserConfig, type ParseDurationOptions} from './index.js';
+import {compileUnits, scanTotal} from './scanner.js';
+
+/** Inputs covering every branch of the single-pass scanner and its fallbacks. */
+const CORPUS: readonly string[] = [
+    '', '   ', '\t\n', '0', '-0', '+0', '1500', '1500.5', '-1500.5', '0.0005', '00012', '.5', '5.', '1e3', '0x10',
+    '1ms', '1 ms', '1h 30m', '1h30m', '1H 30M', '  1h  ', '1h\t30m\n15s', '1.5h', '-1.5h', '+2d', '1h -30m', '1h-30m',
+    '1h+30m', '-1h -30m', '1w 2d', '2 hours 30 minutes', '1 hour', '10 seconds', '1h 30', '1h 30 foo', 'h', 'm5',
+    '5 5m', '5mx', '5 m s', '1..5h', '1.5.5h', '1. 5h', '--5m', '+-5m', '1h,30m', '1h and 30m', '5min!', '1mo', '2 years',
+    '1y 2mo 3d', '01:30', '1:30:15.5', 'PT1H30M', '-P1D', 'p1d', '1h 30m 1h', '5µs', '5 μs', '5us', '1 h', '1h ',
+    '١h', '1ｈ', '12345678901234h', '123456789012345h', '1234567890123456h', '0.123456789012345h', '0.1234567890123456h',
+    '9'.repeat(400), `${'9'.repeat(400)}ms`, '0.1h 0.2h', '0.1s 0.2s 0.3s', '2.5ms', '-2.5ms', '-0.5ms', '0.5ms',
+];
+
+/** Every single-quoted string in the main test suite, which covers all of its inputs. */
+function indexTestStrings(): string[] {
+    const source = readFileSync(new URL('./index.test.ts', import.meta.url), 'utf8');
+    const strings: string[] = [];
+    for (const [, body] of source.matchAll(/'((?:[^'\\\n]|\\.)*)'/g)) {
+        try {
+            strings.push(JSON.parse(`"${body!.replace(/\\'/g, "'").replace(/"/g, '\\"')}"`) as string);
+        } catch {
+            // Escapes JSON does not know ("\u{...}") are not duration inputs
+        }
+    }
+    return strings;
+}
+
+/** Inputs built from the characters the scanners care about, from a fixed seed. */
+function fuzz(count: number): string[] {
+    const alphabet = ['0', '1', '5', '9', '.', '+', '-', ' ', '\t', 'h', 'H', 'm', 's', 'd', 'mo', 'y', 'ms', 'min', 'x', ':', 'P', 'µ', ','];
+    let seed = 42;
+    const next = () => (seed = (seed * 1_103_515_245 + 12_345) % 2_147_483_648) / 2_147_483_648;
+    return Array.from({length: count}, () => {
+        let s = '';
+        const length = 1 + Math.floor(next() * 8);
+        for (let i = 0; i < length; i++) s += alphabet[Math.floor(next() * alphabet.length)];
+        return s;
+    });
+}
+
+const CONFIGS: readonly DurationParserConfig<string>[] = [
+    {},
+    {caseSensitive: true, units: {M: 'mo'}},
+    {unitless: false},
+    {unitless: 's', colon: false},
+    {units: {tick: 50, Tock: 'tick'}, includeDefaults: false, unitless: 'tick'},
+    {calendar: 'fixed'},
+];
+
+const OPTIONS: readonly ParseDurationOptions[] = [{}, {calendar: 'average'}, {calendar: 'reject'}, {expression: true}];
+
+describe('single-pass scanner', () => {
+    for (const config of CONFIGS) {
+        it(`matches the general scanner for ${JSON.stringify(config)}`, () => {
+            const fast = createDurationParser(config);
+            const general = createDurationParser({...config, singlePass: false});
+            for (const input of [...CORPUS, ...fuzz(2_000)]) {
+                for (const options of OPTIONS) {
+                    expect(fast.tryParse(input, options), JSON.stringify({input, options})).toEqual(general.tryParse(input, options));
+                }
+            }
+        });
+    }
+
+    it('matches the general scanner on the inputs of the main test suite', () => {
+        const fast = createDurationParser();
+        const general = createDurationParser({singlePass: false});
+        const inputs = indexTestStrings();
+        expect(inputs.length).toBeGreaterThan(500);
+        for (const input of inputs) {
+            for (const options of OPTIONS) {
+                expect(fast.tryParse(input, options), JSON.stringify({input, options})).toEqual(general.tryParse(input, options));
+            }
+        }
+    });
+
+    it('sums tokens like the general scanner, down to floating point', () => {
+        const trie = compileUnits([['h', 3_600_000], ['s', 1_000], ['ms', 1]]);
+        expect(scanTotal('0.1s 0.2s', trie, false, 1, null)).toBe(Math.round(0.1 * 1_000 + 0.2 * 1_000));
+        expect(scanTotal('-0.5ms', trie, false, 1, null)).toBe(0);
+        expect(Object.is(scanTotal('-0', trie, false, 1, null), 0)).toBe(true);
+    });
+
+    it('leaves everything else to the general scanner', () => {
+        const trie = compileUnits([['h', 3_600_000], ['mo', 'month']]);
+        for (const input of ['01:30', 'PT1H', '1h 30', '1x', '1hx', '1mx', '1mox', '1h,', '1 µs', '1mo', '1234567890123456h', '12']) {
+            expect(scanTotal(input, trie, false, null, null), input).toBeNaN();
+        }
+        expect(scanTotal('1mo', trie, false, null, {month: 2_592_000_000, year: 31_536_000_000})).toBe(2_592_000_000);
+    });
+
+    it('skips spellings that are not ASCII letters', () => {
+        const trie = compileUnits([['µs', 0.001], ['h', 3_600_000]]);
+        expect(trie.next['µ'.charCodeAt(0)]).toBeUndefined();
+        expect(scanTotal('2h', trie, false, null, null)).toBe(7_200_000);
+    });
+});
@@ -0,0 +1,147 @@
+/** Length of a unit: milliseconds, or a calendar unit resolved per call. */
+export type TrieSize = number | 'month' | 'year';
+
+/** A node of the unit trie, indexed by ASCII code. */
+export interface UnitTrie {
+    /** Length of the unit spelled by the path to this node, if it is one. */
+    size?: TrieSize;
+    next: (UnitTrie | undefined)[];
+}
+
+/** Digits kept exactly in a double, so that `mantissa / 10 ** scale` rounds like `Number()`. */
+const MAX_DIGITS = 15;
+
+const POW10: readonly number[] = Array.from({length: MAX_DIGITS + 1}, (_, i) => 10 ** i);
+
+const PLUS = 0x2b;
+const MINUS = 0x2d;
+const DOT = 0x2e;
+
+/**
+ * Compile unit spellings into a trie the scanner can walk one character at a time.
+ * Spellings that are not all ASCII letters are skipped: they never match on the single-pass path.
+ * @param units Spellings as matched in the input (lowercase unless case-sensitive) and their sizes.
+ * @returns The root of the trie.
+ */
+export function compileUnits(units: Iterable<[string, TrieSize]>): UnitTrie {
+    const root: UnitTrie = {next: []};
+    for (const [spelling, size] of units) {
+        if (!/^[A-Za-z]+$/.test(spelling)) continue;
+        let node = root;
+        for (let i = 0; i < spelling.length; i++) {
+            const code = spelling.charCodeAt(i);
+            node = node.next[code] ??= {next: []};
+        }
+        node.size = size;
+    }
+    return root;
+}
+
+/** ASCII whitespace, as removed by `String.prototype.trim` and matched by `\s`. */
+function isSpace(code: number): boolean {
+    return code === 0x20 || (code >= 0x09 && code <= 0x0d);
+}
+
+function isDigit(code: number): boolean {
+    return code >= 0x30 && code <= 0x39;
+}
+
+/**
+ * Sum a duration string in one pass, without allocating.
+ *
+ * Owns only the common formats: blank strings, unitless numbers and lists of
+ * "<number><unit>" tokens in ASCII, which the general scanner never sees when
+ * they are valid. It reports no errors: it returns NaN as soon as the input
+ * leaves those formats or turns out invalid, and the general scanner parses
+ * it again, so colon and ISO 8601 durations, non-ASCII text and every invalid
+ * input still cost a second pass. Results are the same as the general
+ * scanner's, down to the floating-point operations.
+ *
+ * @param input The duration string.
+ * @param trie The compiled units.
+ * @param caseSensitive Whether units are matched as written rather than lowercased.
+ * @param unitless Milliseconds per unitless number, or null if they are rejected.
+ * @param calendar Milliseconds per month and year, or null if calendar units are rejected.
+ * @returns The duration in whole milliseconds, or NaN if the general scanner must handle the input.
+ */
+export function scanTotal(
+    input: string,
+    trie: UnitTrie,
+    caseSensitive: boolean,
+    unitless: number | null,
+    calendar: Readonly<Record<'month' | 'year', number>> | null,
+): number {
+    let i = 0;
+    let end = input.length;
+    while (i < end && isSpace(input.charCodeAt(i))) i++;
+    while (end > i && isSpace(input.charCodeAt(end - 1))) end--;
+    if (i === end) return 0;
+
+    let total = 0;
+    let tokens = 0;
+    while (i < end) {
+        // Number: [+-]?\d+(\.\d+)?
+        let code = input.charCodeAt(i);
+        const negative = code === MINUS;
+        if (negative || code === PLUS) i++;
+        let mantissa = 0;
+        let digits = 0;
+        let scale = 0;
+        while (i < end && isDigit(code = input.charCodeAt(i))) {
+            mantissa = mantissa * 10 + code - 0x30;
+            digits++;
+            i++;
+        }
+        if (digits === 0) return NaN;
+        if (i < end && input.charCodeAt(i) === DOT) {
+            i++;
+            while (i < end && isDigit(code = input.charCodeAt(i))) {
+                mantissa = mantissa * 10 + code - 0x30;
+                digits++;
+                scale++;
+                i++;
+            }
+            if (scale === 0) return NaN;
+        }
+        if (digits > MAX_DIGITS) return NaN;
+        const magnitude = scale === 0 ? mantissa : mantissa / POW10[scale]!;
+        const value = negative ? -magnitude : magnitude;
+
+        // The whole input is one number
+        if (i === end && tokens === 0) {
+            return unitless === null ? NaN : Math.round(value * unitless) + 0;
+        }
+
+        // Unit: the whole run of letters must be a known spelling
+        while (i < end && isSpace(input.charCodeAt(i))) i++;
+        let node: UnitTrie | undefined = trie;
+        const unitStart = i;
+        for (; i < end; i++) {
+            code = input.charCodeAt(i);
+            if (code >= 0x41 && code <= 0x5a) {
+                if (!caseSensitive) code += 0x20;
+            } else if (code < 0x61 || code > 0x7a) {
+                break;
+            }
+            // No spelling continues this way, so the run of letters cannot be a unit
+            node = node.next[code];
+            if (node === undefined) return NaN;
+        }
+        const {size} = node;
+        if (i === unitStart || size === undefined) return NaN;
+        if (typeof size === 'number') {
+            total += value * size;
+        } else if (calendar) {
+            total += value * calendar[size];
+        } else {
+            return NaN;
+        }
+        tokens++;
+
+        // Only whitespace may separate tokens; anything else must start the next number
+        while (i < end && isSpace(input.charCodeAt(i))) i++;
+    }
+
+    // "+ 0" turns Math.round(-0.5) === -0 into 0
+    return Math.round(total) + 0;
+}
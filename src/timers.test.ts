@@ -0,0 +1,240 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest';
+import {
+    abortAfter,
+    setDurationInterval,
+    setLongTimeout,
+    sleep,
+    timeout,
+    Duration,
+    DurationParseError,
+    type TimerClock,
+} from './index.js';
+
+const MAX_TIMEOUT_MS = 2_147_483_647;
+const DAY = 86_400_000;
+
+describe('timers', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('setLongTimeout', () => {
+        it('accepts duration strings, milliseconds and Duration values', () => {
+            const calls: string[] = [];
+            setLongTimeout(() => calls.push('string'), '1.5s');
+            setLongTimeout(() => calls.push('number'), 1_000);
+            setLongTimeout(() => calls.push('duration'), Duration.parse('2s'));
+            vi.advanceTimersByTime(1_499);
+            expect(calls).toEqual(['number']);
+            vi.advanceTimersByTime(1);
+            expect(calls).toEqual(['number', 'string']);
+            vi.advanceTimersByTime(500);
+            expect(calls).toEqual(['number', 'string', 'duration']);
+        });
+
+        it('chains timers for delays past the setTimeout limit', () => {
+            const callback = vi.fn();
+            setLongTimeout(callback, '60d');
+            vi.advanceTimersByTime(MAX_TIMEOUT_MS);
+            expect(callback).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(60 * DAY - MAX_TIMEOUT_MS - 1);
+            expect(callback).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(1);
+            expect(callback).toHaveBeenCalledOnce();
+        });
+
+        it('can be cleared, also between chained timers', () => {
+            const callback = vi.fn();
+            const timer = setLongTimeout(callback, '30d');
+            vi.advanceTimersByTime(25 * DAY);
+            timer.clear();
+            timer.clear();
+            vi.advanceTimersByTime(10 * DAY);
+            expect(callback).not.toHaveBeenCalled();
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('rejects negative and invalid delays', () => {
+            expect(() => setLongTimeout(() => {}, '-5s')).toThrowError('setLongTimeout: negative duration "-5s"');
+            expect(() => setLongTimeout(() => {}, -1_500)).toThrowError('setLongTimeout: negative duration "-1s -500ms"');
+            expect(() => setLongTimeout(() => {}, Number.NaN)).toThrowError('setLongTimeout: invalid duration "NaN"');
+            expect(() => setLongTimeout(() => {}, '5 minuts')).toThrowError(DurationParseError);
+        });
+    });
+
+    describe('setDurationInterval', () => {
+        it('calls the function after each interval until cleared', () => {
+            const callback = vi.fn();
+            const timer = setDurationInterval(callback, '1m');
+            vi.advanceTimersByTime(3 * 60_000);
+            expect(callback).toHaveBeenCalledTimes(3);
+            timer.clear();
+            vi.advanceTimersByTime(10 * 60_000);
+            expect(callback).toHaveBeenCalledTimes(3);
+        });
+
+        it('stops when cleared from inside the function', () => {
+            let count = 0;
+            const timer = setDurationInterval(() => {
+                if (++count === 2) timer.clear();
+            }, 100);
+            vi.advanceTimersByTime(1_000);
+            expect(count).toBe(2);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('supports intervals past the setTimeout limit', () => {
+            const callback = vi.fn();
+            setDurationInterval(callback, '30d');
+            vi.advanceTimersByTime(30 * DAY - 1);
+            expect(callback).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(30 * DAY + 1);
+            expect(callback).toHaveBeenCalledTimes(2);
+        });
+
+        it('rejects negative intervals', () => {
+            expect(() => setDurationInterval(() => {}, '-1m')).toThrowError('setDurationInterval: negative duration "-1m"');
+        });
+    });
+
+    describe('sleep', () => {
+        it('resolves after the delay', async () => {
+            const done = vi.fn();
+            const promise = sleep('2s').then(done);
+            await vi.advanceTimersByTimeAsync(1_999);
+            expect(done).not.toHaveBeenCalled();
+            await vi.advanceTimersByTimeAsync(1);
+            await promise;
+            expect(done).toHaveBeenCalledOnce();
+        });
+
+        it('resolves after long delays', async () => {
+            const promise = sleep('25d');
+            await vi.advanceTimersByTimeAsync(25 * DAY);
+            await expect(promise).resolves.toBeUndefined();
+        });
+
+        it('rejects with the reason of an aborted signal', async () => {
+            const controller = new AbortController();
+            const promise = sleep('1h', {signal: controller.signal});
+            controller.abort(new Error('cancelled'));
+            await expect(promise).rejects.toThrowError('cancelled');
+            expect(vi.getTimerCount()).toBe(0);
+            await expect(sleep('1s', {signal: controller.signal})).rejects.toThrowError('cancelled');
+        });
+
+        it('rejects negative and invalid delays', async () => {
+            await expect(sleep('-1s')).rejects.toThrowError('sleep: negative duration "-1s"');
+            await expect(sleep('soon')).rejects.toThrowError(DurationParseError);
+        });
+    });
+
+    describe('timeout', () => {
+        it('settles like the promise when it settles first', async () => {
+            await expect(timeout(Promise.resolve(42), '1s')).resolves.toBe(42);
+            await expect(timeout(Promise.reject(new Error('boom')), '1s')).rejects.toThrowError('boom');
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('rejects with a TimeoutError when the duration passes first', async () => {
+            const promise = timeout(new Promise(() => {}), '5s');
+            const assertion = expect(promise).rejects.toMatchObject({
+                name: 'TimeoutError',
+                message: 'timeout: timed out after "5s"',
+            });
+            await vi.advanceTimersByTimeAsync(5_000);
+            await assertion;
+            await expect(promise).rejects.toBeInstanceOf(DOMException);
+        });
+
+        it('rejects with the reason of an aborted signal', async () => {
+            const controller = new AbortController();
+            const promise = timeout(new Promise(() => {}), '5s', {signal: controller.signal});
+            controller.abort(new Error('cancelled'));
+            await expect(promise).rejects.toThrowError('cancelled');
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('rejects negative durations', async () => {
+            await expect(timeout(Promise.resolve(1), -1)).rejects.toThrowError('timeout: negative duration "-1ms"');
+        });
+    });
+
+    describe('abortAfter', () => {
+        it('aborts with a TimeoutError after the delay', () => {
+            const signal = abortAfter('30s');
+            vi.advanceTimersByTime(29_999);
+            expect(signal.aborted).toBe(false);
+            vi.advanceTimersByTime(1);
+            expect(signal.aborted).toBe(true);
+            expect(signal.reason).toBeInstanceOf(DOMException);
+            expect(signal.reason).toMatchObject({name: 'TimeoutError', message: 'abortAfter: timed out after "30s"'});
+        });
+
+        it('handles delays past the setTimeout limit', () => {
+            const signal = abortAfter({days: 40});
+            vi.advanceTimersByTime(MAX_TIMEOUT_MS + 1);
+            expect(signal.aborted).toBe(false);
+            vi.advanceTimersByTime(40 * DAY);
+            expect(signal.aborted).toBe(true);
+        });
+
+        it('rejects negative delays', () => {
+            expect(() => abortAfter('-30s')).toThrowError('abortAfter: negative duration "-30s"');
+        });
+    });
+});
+
+describe('injectable clock', () => {
+    /** A clock that only advances when told to. */
+    function manualClock() {
+        let now = 0;
+        let nextId = 0;
+        const timers = new Map<number, {at: number; callback: () => void}>();
+        const clock: TimerClock = {
+            setTimeout(callback, ms) {
+                timers.set(++nextId, {at: now + ms, callback});
+                return nextId;
+            },
+            clearTimeout(handle) {
+                timers.delete(handle as number);
+            },
+        };
+        const advance = (ms: number) => {
+            const until = now + ms;
+            for (;;) {
+                const [id, next] = [...timers].sort(([, a], [, b]) => a.at - b.at)[0] ?? [];
+                if (next === undefined || next.at > until) break;
+                timers.delete(id!);
+                now = next.at;
+                next.callback();
+            }
+            now = until;
+        };
+        return {clock, advance, delays: () => [...timers.values()].map(timer => timer.at - now)};
+    }
+
+    it('schedules on the given clock in steps the platform accepts', () => {
+        const {clock, advance, delays} = manualClock();
+        const callback = vi.fn();
+        setLongTimeout(callback, '50d', {clock});
+        expect(delays()).toEqual([MAX_TIMEOUT_MS]);
+        advance(MAX_TIMEOUT_MS * 2);
+        expect(delays()).toEqual([50 * DAY - MAX_TIMEOUT_MS * 2]);
+        advance(delays()[0]!);
+        expect(callback).toHaveBeenCalledOnce();
+    });
+
+    it('drives sleep and abortAfter', async () => {
+        const {clock, advance} = manualClock();
+        const signal = abortAfter('1m', {clock});
+        const slept = sleep('1m', {clock});
+        advance(60_000);
+        expect(signal.aborted).toBe(true);
+        await expect(slept).resolves.toBeUndefined();
+    });
+});
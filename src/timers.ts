@@ -0,0 +1,258 @@
+import {Duration, formatDurationMs, type DurationInput} from './index.js';
+
+/** The longest delay `setTimeout` accepts (2^31-1 ms, about 24.8 days); longer ones fire at once. */
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+/**
+ * Timer functions used to schedule callbacks, e.g. to test with a manual clock.
+ */
+export interface TimerClock {
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+/** Options shared by the timer helpers. */
+export interface TimerOptions {
+    /** Timer functions to use (default: the global `setTimeout`/`clearTimeout` at call time, so fake timers apply). */
+    clock?: TimerClock;
+}
+
+/** Options for `sleep` and `timeout`. */
+export interface AbortableTimerOptions extends TimerOptions {
+    /** Stop waiting when this signal aborts, rejecting with its reason. */
+    signal?: AbortSignal;
+}
+
+/** A timer returned by `setLongTimeout` and `setDurationInterval`. */
+export interface DurationTimer {
+    /** Cancel the timer; calling it again does nothing. */
+    clear(): void;
+}
+
+/** The global timers, looked up on each call. */
+const GLOBAL_CLOCK: TimerClock = {
+    setTimeout: (callback, ms) => globalThis.setTimeout(callback, ms),
+    clearTimeout: handle => globalThis.clearTimeout(handle as Parameters<typeof clearTimeout>[0]),
+};
+
+/**
+ * Resolve a timer delay to milliseconds.
+ * @param caller Function name for error messages.
+ * @param duration A duration string, milliseconds, or anything else `Duration.from` accepts.
+ * @returns The delay in whole milliseconds.
+ * @throws DurationParseError If a string is invalid.
+ * @throws Error If the delay is not finite or is negative.
+ */
+function delayMs(caller: string, duration: DurationInput): number {
+    if (typeof duration === 'number' && !Number.isFinite(duration)) {
+        throw new Error(`${caller}: invalid duration "${duration}"`);
+    }
+    const ms = Duration.from(duration).toMilliseconds();
+    if (ms < 0) {
+        throw new Error(`${caller}: negative duration "${describe(duration, ms)}"`);
+    }
+    return ms;
+}
+
+/**
+ * Describe a delay for messages.
+ * @param duration The delay as given.
+ * @param ms The delay in milliseconds.
+ * @returns The string as written, or the milliseconds formatted ("1h 30m").
+ */
+function describe(duration: DurationInput, ms: number): string {
+    return typeof duration === 'string' ? duration : formatDurationMs(ms);
+}
+
+/**
+ * Build the error a timed-out operation fails with, as `AbortSignal.timeout` does.
+ * @param caller Function name for the message.
+ * @param duration The delay as given.
+ * @param ms The delay in milliseconds.
+ * @returns A `DOMException` named "TimeoutError".
+ */
+function timeoutError(caller: string, duration: DurationInput, ms: number): DOMException {
+    return new DOMException(`${caller}: timed out after "${describe(duration, ms)}"`, 'TimeoutError');
+}
+
+/**
+ * Run a callback once after a delay, chaining timers for delays past `MAX_TIMEOUT_MS`.
+ * @param clock The timer functions.
+ * @param ms The delay in milliseconds (non-negative).
+ * @param callback The callback.
+ * @param unref Whether the timers may not keep a Node.js process alive.
+ * @returns The timer.
+ */
+function schedule(clock: TimerClock, ms: number, callback: () => void, unref = false): DurationTimer {
+    let handle: unknown;
+    let active = true;
+    const arm = (remaining: number) => {
+        const step = Math.min(remaining, MAX_TIMEOUT_MS);
+        handle = clock.setTimeout(() => {
+            if (remaining > step) {
+                arm(remaining - step);
+            } else {
+                active = false;
+                callback();
+            }
+        }, step);
+        if (unref) (handle as { unref?: () => void } | null)?.unref?.();
+    };
+    arm(ms);
+    return {
+        clear() {
+            if (!active) return;
+            active = false;
+            clock.clearTimeout(handle);
+        },
+    };
+}
+
+/**
+ * Call a function once after a delay, which may be longer than `setTimeout` allows.
+ *
+ * @example
+ * const timer = setLongTimeout(rotateKeys, '30d');
+ * timer.clear();
+ *
+ * @param callback The function to call.
+ * @param duration The delay: a duration string, milliseconds, or a `Duration`.
+ * @param options The timer functions to use.
+ * @returns The timer.
+ * @throws DurationParseError If the duration string is invalid.
+ * @throws Error If the delay is not finite or is negative.
+ */
+export function setLongTimeout(callback: () => void, duration: DurationInput, options: TimerOptions = {}): DurationTimer {
+    return schedule(options.clock ?? GLOBAL_CLOCK, delayMs('setLongTimeout', duration), callback);
+}
+
+/**
+ * Call a function repeatedly, waiting a duration before each call. The interval may
+ * be longer than `setInterval` allows, and the next call is scheduled before the
+ * function runs, so clearing the timer from inside it stops the interval.
+ *
+ * @param callback The function to call.
+ * @param duration The interval: a duration string, milliseconds, or a `Duration`.
+ * @param options The timer functions to use.
+ * @returns The timer.
+ * @throws DurationParseError If the duration string is invalid.
+ * @throws Error If the interval is not finite or is negative.
+ */
+export function setDurationInterval(callback: () => void, duration: DurationInput, options: TimerOptions = {}): DurationTimer {
+    const clock = options.clock ?? GLOBAL_CLOCK;
+    const ms = delayMs('setDurationInterval', duration);
+    let current: DurationTimer;
+    const tick = () => {
+        current = schedule(clock, ms, () => {
+            tick();
+            callback();
+        });
+    };
+    tick();
+    return {clear: () => current.clear()};
+}
+
+/**
+ * Wait for a duration.
+ *
+ * @example
+ * await sleep('1.5s');
+ * await sleep('5m', {signal}); // rejects with signal.reason when aborted
+ *
+ * @param duration The delay: a duration string, milliseconds, or a `Duration`.
+ * @param options A signal to stop waiting, and the timer functions to use.
+ * @returns A promise that resolves after the delay.
+ * @throws DurationParseError If the duration string is invalid (as a rejection).
+ * @throws Error If the delay is not finite or is negative (as a rejection).
+ */
+export function sleep(duration: DurationInput, options: AbortableTimerOptions = {}): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        const {signal} = options;
+        const ms = delayMs('sleep', duration);
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            timer.clear();
+            reject(signal!.reason);
+        };
+        const timer = schedule(options.clock ?? GLOBAL_CLOCK, ms, () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        });
+        signal?.addEventListener('abort', onAbort, {once: true});
+    });
+}
+
+/**
+ * Wait for a promise, but no longer than a duration.
+ *
+ * @example
+ * const response = await timeout(fetch(url), '10s');
+ *
+ * @param promise The promise to wait for.
+ * @param duration The longest wait: a duration string, milliseconds, or a `Duration`.
+ * @param options A signal to stop waiting, and the timer functions to use.
+ * @returns A promise that settles like `promise`, or rejects with a `DOMException` named
+ * "TimeoutError" when the duration passes first.
+ * @throws DurationParseError If the duration string is invalid (as a rejection).
+ * @throws Error If the duration is not finite or is negative (as a rejection).
+ */
+export function timeout<T>(promise: PromiseLike<T>, duration: DurationInput, options: AbortableTimerOptions = {}): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const {signal} = options;
+        const ms = delayMs('timeout', duration);
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const settle = () => {
+            timer.clear();
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            settle();
+            reject(signal!.reason);
+        };
+        const timer = schedule(options.clock ?? GLOBAL_CLOCK, ms, () => {
+            settle();
+            reject(timeoutError('timeout', duration, ms));
+        });
+        signal?.addEventListener('abort', onAbort, {once: true});
+        Promise.resolve(promise).then(
+            value => {
+                settle();
+                resolve(value);
+            },
+            (error: unknown) => {
+                settle();
+                reject(error);
+            },
+        );
+    });
+}
+
+/**
+ * Create an `AbortSignal` that aborts after a duration.
+ *
+ * Like `AbortSignal.timeout`, the signal aborts with a `DOMException` named
+ * "TimeoutError" and its timer does not keep a Node.js process alive. Unlike it,
+ * the delay may be a duration string or longer than `setTimeout` allows, and
+ * the timer functions can be replaced (or faked) for tests.
+ *
+ * @example
+ * await fetch(url, {signal: abortAfter('30s')});
+ *
+ * @param duration The delay: a duration string, milliseconds, or a `Duration`.
+ * @param options The timer functions to use.
+ * @returns The signal.
+ * @throws DurationParseError If the duration string is invalid.
+ * @throws Error If the delay is not finite or is negative.
+ */
+export function abortAfter(duration: DurationInput, options: TimerOptions = {}): AbortSignal {
+    const ms = delayMs('abortAfter', duration);
+    const controller = new AbortController();
+    schedule(options.clock ?? GLOBAL_CLOCK, ms, () => controller.abort(timeoutError('abortAfter', duration, ms)), true);
+    return controller.signal;
+}
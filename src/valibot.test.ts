@@ -0,0 +1,58 @@
+import {describe, it, expect, expectTypeOf} from 'vitest';
+import * as v from 'valibot';
+import {duration} from './valibot.js';
+import {createDurationParser} from './index.js';
+
+describe('valibot duration', () => {
+    describe('values', () => {
+        const cases: {value: unknown; expected: number}[] = [
+            {value: '1h 30m', expected: 5_400_000},
+            {value: 'PT1M', expected: 60_000},
+            {value: '1500', expected: 1_500},
+            {value: 1500, expected: 1_500},
+            {value: 1500.5, expected: 1_501},
+        ];
+
+        for (const {value, expected} of cases) {
+            it(`${JSON.stringify(value)}`, () => {
+                expect(v.parse(duration(), value)).toBe(expected);
+            });
+        }
+    });
+
+    it('reports parser errors as transform issues at their path', () => {
+        const result = v.safeParse(v.object({http: v.object({timeout: duration()})}), {http: {timeout: '10 foo'}});
+        expect(result.success).toBe(false);
+        expect(result.issues).toHaveLength(1);
+        expect(result.issues?.[0]).toMatchObject({
+            kind: 'transformation',
+            type: 'raw_transform',
+            message: 'unknown unit "foo" in "10 foo"',
+            input: '10 foo',
+        });
+        expect(v.getDotPath(result.issues![0]!)).toBe('http.timeout');
+    });
+
+    it('applies bounds written as durations', () => {
+        const schema = duration({min: '1s', max: '1m'});
+        expect(v.parse(schema, '1m')).toBe(60_000);
+        expect(v.safeParse(schema, '2m').issues?.[0]?.message).toBe('duration "2m" is greater than the maximum "1m"');
+        expect(v.safeParse(schema, 500).issues?.[0]?.message).toBe('duration "500" is less than the minimum "1s"');
+    });
+
+    it('rejects blank strings and other types', () => {
+        expect(v.safeParse(duration(), ' ').issues?.[0]?.message).toBe('missing required duration');
+        expect(v.safeParse(duration(), true).issues?.[0]?.type).toBe('union');
+        expect(v.parse(v.optional(duration()), undefined)).toBeUndefined();
+    });
+
+    it('applies parsing options and the parser unit table', () => {
+        expect(v.parse(duration({calendar: 'fixed'}), '1mo')).toBe(2_592_000_000);
+        expect(v.parse(duration({parser: createDurationParser({units: {tick: 50}})}), '3tick')).toBe(150);
+    });
+
+    it('infers string or number input and number output', () => {
+        expectTypeOf<v.InferInput<ReturnType<typeof duration>>>().toEqualTypeOf<string | number>();
+        expectTypeOf<v.InferOutput<ReturnType<typeof duration>>>().toEqualTypeOf<number>();
+    });
+});
@@ -0,0 +1,31 @@
+import * as v from 'valibot';
+import {createDurationReader, type DurationValidatorOptions} from './config.js';
+
+export type {DurationValidatorOptions} from './config.js';
+
+/**
+ * A Valibot schema for durations: accepts duration strings and numbers of milliseconds, and outputs milliseconds.
+ *
+ * Invalid, blank and out-of-range values are reported as "transform" issues
+ * with the parser's message.
+ *
+ * @example
+ * const Config = v.object({timeout: duration({max: '1m'})});
+ * v.parse(Config, {timeout: '30s'}); // {timeout: 30000}
+ *
+ * @param options Bounds, parsing options and the parser to use.
+ * @returns The schema.
+ * @throws Error If `min` or `max` is invalid.
+ */
+export function duration(options: DurationValidatorOptions = {}) {
+    const read = createDurationReader('duration', options);
+    return v.pipe(
+        v.union([v.string(), v.number()]),
+        v.rawTransform(({dataset, addIssue, NEVER}) => {
+            const result = read(dataset.value);
+            if (result.ok) return result.ms;
+            addIssue({message: result.message, expected: 'duration', received: JSON.stringify(dataset.value)});
+            return NEVER;
+        }),
+    );
+}
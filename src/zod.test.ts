@@ -0,0 +1,68 @@
+import {describe, it, expect, expectTypeOf} from 'vitest';
+import {z} from 'zod';
+import {duration} from './zod.js';
+import {createDurationParser} from './index.js';
+
+describe('zod duration', () => {
+    describe('values', () => {
+        const cases: {value: unknown; expected: number}[] = [
+            {value: '1h 30m', expected: 5_400_000},
+            {value: 'PT1M', expected: 60_000},
+            {value: '1500', expected: 1_500},
+            {value: 1500, expected: 1_500},
+            {value: 1500.5, expected: 1_501},
+        ];
+
+        for (const {value, expected} of cases) {
+            it(`${JSON.stringify(value)}`, () => {
+                expect(duration().parse(value)).toBe(expected);
+            });
+        }
+    });
+
+    it('reports parser errors as custom issues at their path', () => {
+        const result = z.object({http: z.object({timeout: duration()})}).safeParse({http: {timeout: '10 foo'}});
+        expect(result.success).toBe(false);
+        expect(result.error?.issues).toEqual([
+            expect.objectContaining({
+                code: 'custom',
+                path: ['http', 'timeout'],
+                message: 'unknown unit "foo" in "10 foo"',
+                params: {code: 'UNKNOWN_UNIT'},
+            }),
+        ]);
+    });
+
+    it('applies bounds written as durations', () => {
+        const schema = duration({min: '1s', max: '1m'});
+        expect(schema.parse('1m')).toBe(60_000);
+        expect(schema.safeParse('2m').error?.issues[0]).toMatchObject({
+            message: 'duration "2m" is greater than the maximum "1m"',
+            params: {code: 'OUT_OF_RANGE'},
+        });
+        expect(schema.safeParse(500).error?.issues[0]?.message).toBe('duration "500" is less than the minimum "1s"');
+    });
+
+    it('rejects blank strings and other types', () => {
+        expect(duration().safeParse(' ').error?.issues[0]).toMatchObject({
+            message: 'missing required duration',
+            params: {code: 'MISSING_VALUE'},
+        });
+        expect(duration().safeParse(true).error?.issues[0]?.code).toBe('invalid_union');
+        expect(duration().optional().parse(undefined)).toBeUndefined();
+    });
+
+    it('applies parsing options and the parser unit table', () => {
+        expect(duration({calendar: 'fixed'}).parse('1mo')).toBe(2_592_000_000);
+        expect(duration({parser: createDurationParser({units: {tick: 50}})}).parse('3tick')).toBe(150);
+    });
+
+    it('rejects invalid bounds when the schema is built', () => {
+        expect(() => duration({max: 'soon'})).toThrowError('duration: invalid max "soon": parseDurationMs: could not fully parse "soon"');
+    });
+
+    it('infers string or number input and number output', () => {
+        expectTypeOf<z.input<ReturnType<typeof duration>>>().toEqualTypeOf<string | number>();
+        expectTypeOf<z.output<ReturnType<typeof duration>>>().toEqualTypeOf<number>();
+    });
+});
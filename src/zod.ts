@@ -0,0 +1,28 @@
+import {z} from 'zod';
+import {createDurationReader, type DurationValidatorOptions} from './config.js';
+
+export type {DurationValidatorOptions} from './config.js';
+
+/**
+ * A Zod schema for durations: accepts duration strings and numbers of milliseconds, and outputs milliseconds.
+ *
+ * Invalid, blank and out-of-range values are reported as "custom" issues with
+ * the parser's message; `params.code` is the parser's error code.
+ *
+ * @example
+ * const Config = z.object({timeout: duration({max: '1m'})});
+ * Config.parse({timeout: '30s'}); // {timeout: 30000}
+ *
+ * @param options Bounds, parsing options and the parser to use.
+ * @returns The schema.
+ * @throws Error If `min` or `max` is invalid.
+ */
+export function duration(options: DurationValidatorOptions = {}) {
+    const read = createDurationReader('duration', options);
+    return z.union([z.string(), z.number()]).transform((value, ctx) => {
+        const result = read(value);
+        if (result.ok) return result.ms;
+        ctx.addIssue({code: 'custom', message: result.message, input: value, params: {code: result.code}});
+        return z.NEVER;
+    });
+}